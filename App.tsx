@@ -2,18 +2,31 @@ import React, { useState, useEffect, useRef } from 'react';
 import Header from './components/Header';
 import ChatBubble from './components/ChatBubble';
 import InputArea from './components/InputArea';
-import { Message, Sender, Scenarios, SupportedLanguage, LanguageConfig, User } from './types';
-import { chatWithGemini, fetchHistory, LANGUAGE_CONFIGS, resetSession, getApiUrl } from './services/geminiService';
-import { BookOpen, Coffee, Plane, Sparkles, AlertCircle, Globe2, ChevronRight, X, Terminal, ShieldAlert, Loader2 } from 'lucide-react';
+import HandsFreeVoice from './components/HandsFreeVoice';
+import ReviewSession from './components/ReviewSession';
+import MistakeJournal from './components/MistakeJournal';
+import LearnerProfile from './components/LearnerProfile';
+import ProgressDashboard from './components/ProgressDashboard';
+import GoalRing from './components/GoalRing';
+import PlacementTest from './components/PlacementTest';
+import HelperLanguagePicker from './components/HelperLanguagePicker';
+import ScenarioEditor from './components/ScenarioEditor';
+import SessionPicker from './components/SessionPicker';
+import { SCENARIO_ICONS } from './components/scenarioIcons';
+import { Message, Sender, SupportedLanguage, LanguageConfig, User, VocabSource, ScenarioDefinition, ScenarioDraft, CefrLevel, TutorResponseData, CorrectionData, ChatSession, DailyGoal, LearnerProgress } from './types';
+import { chatWithGemini, fetchHistory, resetSession, resumeSession, getSessionId, getApiUrl, blobToBase64, resolveMediaUrl, setSpeechVoice, RateLimitError, TutorConfusedError } from './services/geminiService';
+import { fetchLanguages } from './services/languageService';
+import { saveVocabItem } from './services/vocabService';
+import { fetchScenarios, createScenario, updateScenario, deleteScenario } from './services/scenarioService';
+import { fetchSessions } from './services/sessionService';
+import { fetchLevels, saveLevel, LanguageLevels, CEFR_LEVELS } from './services/profileService';
+import { fetchProgress, saveGoal } from './services/progressService';
+import { exportConversation, ExportFormat } from './services/exportService';
+import { loadHelperLanguages, saveHelperLanguages, normalizeTutorResponse } from './services/helperLanguages';
+import { loadReadingAidSettings, saveReadingAidSettings, isReadingAidOn } from './services/readingAids';
+import { Sparkles, AlertCircle, HelpCircle, Globe2, ChevronRight, X, Terminal, ShieldAlert, Loader2, Layers, NotebookPen, Brain, Compass, Pencil, Trash2, Plus, Hourglass } from 'lucide-react';
 import { supabase } from './services/supabaseClient';
 
-const SCENARIO_OPTIONS = [
-  { id: Scenarios.INTRO, icon: Sparkles, label: 'Basics', desc: 'Start from scratch' },
-  { id: Scenarios.CAFE, icon: Coffee, label: 'At a Café', desc: 'Order food & drinks' },
-  { id: Scenarios.TRAVEL, icon: Plane, label: 'Travel', desc: 'Ask for directions' },
-  { id: Scenarios.HOBBIES, icon: BookOpen, label: 'Hobbies', desc: 'Discussing Hobbies' },
-];
-
 const ErrorModal = ({ message, debugInfo, onClose }: { message: string; debugInfo?: string; onClose: () => void }) => {
   const isMixedContentError = debugInfo?.includes("Mixed Content") || debugInfo?.includes("was loaded over HTTPS, but requested an insecure resource");
 
@@ -74,19 +87,71 @@ const ErrorModal = ({ message, debugInfo, onClose }: { message: string; debugInf
   );
 };
 
+// Shown instead of ErrorModal when the server's rate limiter refuses a request
+const LimitModal = ({ error, isSignedIn, onClose }: { error: RateLimitError; isSignedIn: boolean; onClose: () => void }) => {
+  const isDaily = error.code === 'daily_limit';
+  const resetsAt = new Date(Date.now() + error.retryAfter * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full overflow-hidden border border-amber-100">
+        <div className="bg-amber-50 px-6 py-4 flex items-center justify-between border-b border-amber-100">
+          <div className="flex items-center space-x-2">
+            <Hourglass className="w-6 h-6 text-amber-600" />
+            <h3 className="text-lg font-bold text-amber-800">{isDaily ? 'Daily limit reached' : 'Slow down a little'}</h3>
+          </div>
+          <button onClick={onClose} className="text-amber-400 hover:text-amber-700 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="p-6">
+          <p className="text-slate-600 leading-relaxed font-medium">
+            {isDaily
+              ? `You've used today's practice allowance. It resets at ${resetsAt}.`
+              : `Too many messages in a short time. Try again in ${error.retryAfter} seconds.`}
+          </p>
+          {isDaily && !isSignedIn && (
+            <p className="text-sm text-slate-500 mt-3">Signed-in learners get a larger daily allowance.</p>
+          )}
+        </div>
+        <div className="px-6 py-4 bg-slate-50 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-white border border-slate-300 text-slate-700 font-medium rounded-lg hover:bg-slate-100 transition-colors shadow-sm"
+          >
+            OK
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 function App() {
   const [user, setUser] = useState<User | null>(null);
   const [selectedLanguage, setSelectedLanguage] = useState<SupportedLanguage | null>(null);
+  const [languageConfigs, setLanguageConfigs] = useState<Record<SupportedLanguage, LanguageConfig>>({});
   const [currentConfig, setCurrentConfig] = useState<LanguageConfig | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [isTyping, setIsTyping] = useState(false);
+  const [isHandsFree, setIsHandsFree] = useState(false);
   const [hasStarted, setHasStarted] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [debugInfo, setDebugInfo] = useState<string | null>(null);
+  const [limitError, setLimitError] = useState<RateLimitError | null>(null);
+  const [tutorConfused, setTutorConfused] = useState(false);
   const [loadingText, setLoadingText] = useState("Tutor is thinking...");
-  const [loadingScenario, setLoadingScenario] = useState<Scenarios | null>(null);
-  const [activeScenario, setActiveScenario] = useState<Scenarios | null>(null);
+  const [scenarios, setScenarios] = useState<ScenarioDefinition[]>([]);
+  const [editingScenario, setEditingScenario] = useState<ScenarioDefinition | 'new' | null>(null);
+  const [loadingScenario, setLoadingScenario] = useState<string | null>(null);
+  const [activeScenario, setActiveScenario] = useState<ScenarioDefinition | null>(null);
+  const [levels, setLevels] = useState<LanguageLevels>({});
+  const [helperLanguages, setHelperLanguages] = useState<string[]>(loadHelperLanguages);
+  const [readingAidSettings, setReadingAidSettings] = useState<Record<SupportedLanguage, boolean>>(loadReadingAidSettings);
   const [showContinueOption, setShowContinueOption] = useState(false);
+  const [sessionChoices, setSessionChoices] = useState<ChatSession[] | null>(null);
+  const [progress, setProgress] = useState<LearnerProgress | null>(null);
+  const [homeView, setHomeView] = useState<'languages' | 'review' | 'journal' | 'profile' | 'stats' | 'placement'>('languages');
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -107,45 +172,174 @@ function App() {
         setUser(null);
         setMessages([]);
         setHasStarted(false);
+        setHomeView('languages');
       }
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
-  const fetchChatHistory = async (userId: string, language: string, scenario: string): Promise<Message[]> => {
+  // Languages come from the server's registry
+  useEffect(() => {
+    fetchLanguages()
+      .then(setLanguageConfigs)
+      .catch(handleError);
+  }, []);
+
+  // Built-in, public and (when signed in) the user's own scenarios
+  useEffect(() => {
+    fetchScenarios(user?.id)
+      .then(setScenarios)
+      .catch(err => console.error("Error fetching scenarios:", err));
+  }, [user?.id]);
+
+  // Per-language CEFR levels (server for users, localStorage for visitors)
+  useEffect(() => {
+    fetchLevels(user?.id)
+      .then(setLevels)
+      .catch(err => console.error("Error fetching levels:", err));
+  }, [user?.id]);
+
+  // Daily goal, streak and XP (signed-in learners only)
+  const refreshProgress = () => {
+    if (!user) return;
+    fetchProgress(user.id)
+      .then(setProgress)
+      .catch(err => console.error("Error fetching progress:", err));
+  };
+
+  useEffect(() => {
+    if (user) refreshProgress();
+    else setProgress(null);
+  }, [user?.id]);
+
+  const handleGoalChange = async (goal: DailyGoal) => {
+    if (!user) return;
+    try {
+      setProgress(await saveGoal(user.id, goal));
+    } catch (error) {
+      console.error("Error saving goal:", error);
+    }
+  };
+
+  const currentLevel = selectedLanguage ? levels[selectedLanguage] : undefined;
+
+  const handleLevelChange = async (level: CefrLevel) => {
+    if (!selectedLanguage) return;
+    setLevels(prev => ({ ...prev, [selectedLanguage]: level }));
+    try {
+      await saveLevel(user?.id, selectedLanguage, level);
+    } catch (error) {
+      console.error("Error saving level:", error);
+    }
+  };
+
+  // The server stores the placement result for signed-in users; visitors keep it locally
+  const handlePlacementComplete = async (language: SupportedLanguage, level: CefrLevel) => {
+    setLevels(prev => ({ ...prev, [language]: level }));
+    setHomeView('languages');
+    if (!user) await saveLevel(undefined, language, level);
+    handleLanguageSelect(language);
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!selectedLanguage || !activeScenario) return;
+    try {
+      await exportConversation(format, selectedLanguage, activeScenario.id, user?.id, messages, user ? getSessionId() : undefined);
+    } catch (error: any) {
+      handleError(error);
+    }
+  };
+
+  const handleHelperLanguagesChange = (codes: string[]) => {
+    setHelperLanguages(codes);
+    saveHelperLanguages(codes);
+  };
+
+  const handleToggleReadingAid = () => {
+    if (!selectedLanguage) return;
+    const next = { ...readingAidSettings, [selectedLanguage]: !isReadingAidOn(readingAidSettings, selectedLanguage) };
+    setReadingAidSettings(next);
+    saveReadingAidSettings(next);
+  };
+
+  const showReadingAid = Boolean(selectedLanguage && isReadingAidOn(readingAidSettings, selectedLanguage));
+
+  // What the learner said (typed or transcribed) in the turn a tutor message answers, for diffing corrections
+  const answeredTextFor = (index: number) => {
+    const previous = messages[index - 1];
+    return previous?.sender === Sender.USER ? previous.text || previous.transcript : undefined;
+  };
+
+  // Hands-free mode reads out the newest finished tutor reply
+  const lastMessage = messages[messages.length - 1];
+  const latestReply = lastMessage?.sender === Sender.TUTOR && !lastMessage.isLoading && lastMessage.tutorResponse?.targetText
+    ? { id: lastMessage.id, text: lastMessage.tutorResponse.targetText }
+    : null;
+  // A streamed reply is still arriving after isTyping clears; no new turn until it lands
+  const isReplying = isTyping || Boolean(lastMessage?.isLoading);
+
+  const handleSaveScenario = async (draft: ScenarioDraft) => {
+    if (!user) return;
+    if (editingScenario && editingScenario !== 'new') {
+      const updated = await updateScenario(user.id, editingScenario.id, draft);
+      setScenarios(prev => prev.map(s => s.id === updated.id ? updated : s));
+    } else {
+      const created = await createScenario(user.id, draft);
+      setScenarios(prev => [...prev, created]);
+    }
+  };
+
+  const handleDeleteScenario = async (scenario: ScenarioDefinition) => {
+    if (!user || !window.confirm(`Delete the scenario "${scenario.title}"?`)) return;
     try {
-      const data = await fetchHistory(userId, language, scenario);
+      await deleteScenario(user.id, scenario.id);
+      setScenarios(prev => prev.filter(s => s.id !== scenario.id));
+    } catch (error: any) {
+      handleError(error);
+    }
+  };
+
+  const fetchChatHistory = async (userId: string, language: string, scenario: string, sessionId?: string): Promise<Message[]> => {
+    try {
+      const data = await fetchHistory(userId, language, scenario, sessionId);
 
       if (data && data.length > 0) {
-        // Transform DB messages to UI format
+        // Transform DB rows (Gemini-style parts) to UI format
         const uiMessages: Message[] = data.map((dbMsg: any) => {
-          const content = dbMsg.content;
-          let tutorResponse = content.tutorResponse;
-          let correction = content.correction;
-
-          // Handle Gemini "parts" format stored in DB (Array of parts)
-          if (Array.isArray(content) && content.length > 0 && content[0].text && dbMsg.role === 'model') {
-            try {
-              // The DB stores the raw text response from Gemini, which is a JSON string
-              const parsed = JSON.parse(content[0].text);
-              tutorResponse = parsed.response;
-              correction = parsed.parse;
-            } catch (e) {
-              console.error("Failed to parse stored JSON history:", e);
-              // Fallback: If it's not JSON, maybe just text?
-              tutorResponse = { targetText: content[0].text, english: '', chinese: '' };
-            }
+          const parts: any[] = Array.isArray(dbMsg.content) ? dbMsg.content : [];
+          const text = parts.find(part => part.text)?.text || '';
+
+          if (dbMsg.role === 'user') {
+            return {
+              id: dbMsg.id,
+              sender: Sender.USER,
+              text,
+              timestamp: new Date(dbMsg.created_at).getTime(),
+              userAudioUrl: resolveMediaUrl(dbMsg.audio_url),
+              transcript: parts.find(part => part.transcript)?.transcript
+            };
+          }
+
+          // Model rows store the raw JSON text the tutor replied with
+          let tutorResponse: TutorResponseData;
+          let correction: CorrectionData | undefined;
+          try {
+            const parsed = JSON.parse(text);
+            tutorResponse = normalizeTutorResponse(parsed.response);
+            correction = parsed.correction;
+          } catch (e) {
+            console.error("Failed to parse stored JSON history:", e);
+            tutorResponse = { targetText: text, translations: {} };
           }
 
           return {
             id: dbMsg.id,
-            sender: dbMsg.role === 'user' ? Sender.USER : Sender.TUTOR,
-            text: tutorResponse?.targetText || content.text || '', // Display target text or fallback
+            sender: Sender.TUTOR,
+            text: tutorResponse?.targetText || '',
             timestamp: new Date(dbMsg.created_at).getTime(),
-            userAudioUrl: content.userAudioUrl,
-            correction: correction,
-            tutorResponse: tutorResponse
+            correction,
+            tutorResponse
           };
         });
         setMessages(uiMessages);
@@ -159,9 +353,76 @@ function App() {
     }
   };
 
-  const saveMessageToDb = async (role: 'user' | 'model', content: any) => {
-    // Legacy function: Backend now handles persistence of model turns.
-    // User turns are transient/client-side only.
+  const handleSaveVocab = async (text: string, translation: string | null, source: VocabSource) => {
+    if (!user || !selectedLanguage) return;
+    await saveVocabItem(user.id, selectedLanguage, text, translation, source);
+  };
+
+  // Streams the tutor reply into a placeholder bubble, then swaps in the final payload.
+  // `userMessageId` is the bubble being answered; it picks up the stored recording and pronunciation feedback.
+  const requestTutorTurn = async (
+    language: SupportedLanguage,
+    scenario: ScenarioDefinition,
+    text: string,
+    audioBase64?: string,
+    mimeType?: string,
+    userMessageId?: string
+  ): Promise<Message> => {
+    const tutorId = `${Date.now()}-tutor`;
+    let hasPlaceholder = false;
+
+    const onDelta = (targetText: string) => {
+      setIsTyping(false);
+      if (!hasPlaceholder) {
+        hasPlaceholder = true;
+        setMessages(prev => [...prev, {
+          id: tutorId,
+          sender: Sender.TUTOR,
+          text: '',
+          timestamp: Date.now(),
+          isLoading: true,
+          tutorResponse: { targetText, translations: {} }
+        }]);
+        return;
+      }
+      setMessages(prev => prev.map(m => m.id === tutorId && m.tutorResponse
+        ? { ...m, tutorResponse: { ...m.tutorResponse, targetText } }
+        : m));
+    };
+
+    try {
+      const result = await chatWithGemini(text, language, scenario.id, audioBase64, mimeType, undefined, user?.id, levels[language], onDelta, helperLanguages);
+
+      const tutorMsg: Message = {
+        id: tutorId,
+        sender: Sender.TUTOR,
+        text: '',
+        timestamp: Date.now(),
+        tutorResponse: result.response,
+        correction: result.correction
+      };
+
+      const storedAudioUrl = resolveMediaUrl(result.userAudioUrl);
+      const pronunciation = result.correction?.pronunciation || undefined;
+      const transcript = result.transcript || undefined;
+
+      setMessages(prev => {
+        const updated = prev.map(m => {
+          if (m.id !== userMessageId || (!storedAudioUrl && !pronunciation && !transcript)) return m;
+          if (storedAudioUrl && m.userAudioUrl?.startsWith('blob:')) URL.revokeObjectURL(m.userAudioUrl);
+          return { ...m, userAudioUrl: storedAudioUrl || m.userAudioUrl, pronunciation, transcript };
+        });
+        return hasPlaceholder
+          ? updated.map(m => m.id === tutorId ? tutorMsg : m)
+          : [...updated, tutorMsg];
+      });
+      // The turn counted towards today's goal
+      if (text || audioBase64) refreshProgress();
+      return tutorMsg;
+    } catch (error) {
+      if (hasPlaceholder) setMessages(prev => prev.filter(m => m.id !== tutorId));
+      throw error;
+    }
   };
 
   // --------------------------------
@@ -193,7 +454,8 @@ function App() {
 
   const handleLanguageSelect = (lang: SupportedLanguage) => {
     setSelectedLanguage(lang);
-    setCurrentConfig(LANGUAGE_CONFIGS[lang]);
+    setCurrentConfig(languageConfigs[lang]);
+    setSpeechVoice(languageConfigs[lang].voiceName);
 
     // If not logged in, reset. If logged in, we rely on fetched history or fresh start.
     if (!user) {
@@ -208,83 +470,87 @@ function App() {
   const handleBackToSelection = () => {
     setSelectedLanguage(null);
     setCurrentConfig(null);
+    setIsHandsFree(false);
     // Reset UI state and clear messages to allow scenario re-selection
     setMessages([]);
     setHasStarted(false);
     setLoadingScenario(null);
     setActiveScenario(null);
     setShowContinueOption(false);
+    setSessionChoices(null);
+    setTutorConfused(false);
+  };
+
+  const handleOpenStats = () => {
+    handleBackToSelection();
+    setHomeView('stats');
   };
 
-  const startScenario = async (scenario: Scenarios) => {
+  const startScenario = async (scenario: ScenarioDefinition) => {
     if (!selectedLanguage || !currentConfig) return;
 
-    setLoadingScenario(scenario);
+    setLoadingScenario(scenario.id);
     setActiveScenario(scenario);
-
-    // If visitor, clear messages. If user, we might want to keep history?
-    // Usually starting a scenario implies a fresh context or specific prompt.
-    // For this implementation, we'll append to history if logged in, or clear if visitor.
-    if (!user) {
-      setMessages([]);
-      resetSession();
-    }
-
     setErrorMsg(null);
     setDebugInfo(null);
 
-    try {
-      // Fetch scoped history if user is logged in
-      let existingMessages: Message[] = [];
-      if (user) {
-        existingMessages = await fetchChatHistory(user.id, selectedLanguage, scenario);
-      } else {
-        setMessages([]);
-        resetSession();
-      }
-
-      // Check if we should continue existing session or start fresh
-      if (existingMessages.length > 0) {
-        setShowContinueOption(true);
-        setHasStarted(true);
-        setLoadingScenario(null);
-        return; // STOP HERE! Wait for user to click "Continue"
+    // Signed-in learners with saved conversations pick one to resume or start a new one
+    if (user) {
+      try {
+        const sessions = await fetchSessions(user.id, selectedLanguage, scenario.id);
+        if (sessions.length > 0) {
+          setSessionChoices(sessions);
+          setLoadingScenario(null);
+          return;
+        }
+      } catch (error) {
+        console.error("Error fetching sessions:", error);
       }
+    }
 
+    await startNewConversation(scenario);
+  };
 
-      // If no history, proceed with Auto Greeting (Fresh Start)
-
-      const historyContext = undefined; // No history for fresh start
-
-      const result = await chatWithGemini('', selectedLanguage, scenario, undefined, undefined, historyContext, user?.id);
-
-      const tutorMsgContent = {
-        text: '',
-        tutorResponse: result.response,
-        correction: result.correction
-      };
+  // A new session id means the tutor sees none of the earlier conversations
+  const startNewConversation = async (scenario: ScenarioDefinition) => {
+    if (!selectedLanguage) return;
 
-      const tutorMsg: Message = {
-        id: Date.now().toString(),
-        sender: Sender.TUTOR,
-        timestamp: Date.now(),
-        ...tutorMsgContent
-      };
+    setSessionChoices(null);
+    setShowContinueOption(false);
+    setTutorConfused(false);
+    setMessages([]);
+    resetSession();
+    setLoadingScenario(scenario.id);
 
-      setMessages(prev => [...prev, tutorMsg]);
-      // Backend saves model response automatically now.
+    try {
+      await requestTutorTurn(selectedLanguage, scenario, '');
+      // Backend saves the greeting automatically.
       setHasStarted(true);
     } catch (error: any) {
       handleError(error);
       setHasStarted(false);
     } finally {
-      if (!showContinueOption) { // Only clear loading if we aren't waiting for user
-        setLoadingScenario(null);
-      }
+      setLoadingScenario(null);
       setIsTyping(false);
     }
   };
 
+  const handleResumeSession = async (session: ChatSession) => {
+    if (!user || !selectedLanguage || !activeScenario) return;
+
+    resumeSession(session.id);
+    setSessionChoices(null);
+    setLoadingScenario(activeScenario.id);
+
+    const existingMessages = await fetchChatHistory(user.id, selectedLanguage, activeScenario.id, session.id);
+    setLoadingScenario(null);
+    if (existingMessages.length > 0) {
+      setShowContinueOption(true); // Wait for the learner to click "Continue"
+    } else {
+      await startNewConversation(activeScenario);
+    }
+  };
+
   const handleContinueConversation = async () => {
     if (!currentConfig || !selectedLanguage || !activeScenario) return;
 
@@ -292,33 +558,8 @@ function App() {
     setIsTyping(true);
 
     try {
-      // Prepare history for context
-      const historyContext = user ? messages.map(m => {
-        const parts = [];
-        if (m.text) parts.push({ text: m.text });
-        return {
-          role: m.sender === Sender.USER ? 'user' : 'model',
-          parts
-        };
-      }) : undefined;
-
-      // Trigger AI with empty prompt to continue
-      const result = await chatWithGemini('', selectedLanguage, activeScenario, undefined, undefined, historyContext, user?.id);
-
-      const tutorMsgContent = {
-        text: '',
-        tutorResponse: result.response,
-        correction: result.correction
-      };
-
-      const tutorMsg: Message = {
-        id: Date.now().toString(),
-        sender: Sender.TUTOR,
-        timestamp: Date.now(),
-        ...tutorMsgContent
-      };
-
-      setMessages(prev => [...prev, tutorMsg]);
+      // Trigger AI with empty prompt to continue; the server has the session's history
+      await requestTutorTurn(selectedLanguage, activeScenario, '');
 
     } catch (error: any) {
       handleError(error);
@@ -327,42 +568,24 @@ function App() {
     }
   };
 
-  const blobToBase64 = (blob: Blob): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64String = reader.result as string;
-        const base64Data = base64String.split(',')[1];
-        resolve(base64Data);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(blob);
-    });
-  };
-
   const handleSendMessage = async (text: string, audioBlob?: Blob) => {
     if (!currentConfig || !selectedLanguage || !activeScenario) return;
     setErrorMsg(null);
     setDebugInfo(null);
+    setTutorConfused(false);
 
+    // Plays locally until the server returns the stored recording's URL
     const audioUrl = audioBlob ? URL.createObjectURL(audioBlob) : undefined;
 
-    const userMsgContent = {
-      text: text,
-      userAudioUrl: audioUrl // Note: For DB persistence, you'd need to upload blob to storage
-    };
-
     const userMsg: Message = {
       id: Date.now().toString(),
       sender: Sender.USER,
       timestamp: Date.now(),
-      ...userMsgContent
+      text: text,
+      userAudioUrl: audioUrl
     };
 
     setMessages(prev => [...prev, userMsg]);
-    // Note: Saving local object URL to DB won't work across sessions. 
-    // Ideally upload to Supabase Storage first. Skipping storage implementation for brevity.
-
     setIsTyping(true);
 
     try {
@@ -372,34 +595,9 @@ function App() {
         audioBase64 = await blobToBase64(audioBlob);
       }
 
-      // Prepare History Context for Gemini (if logged in)
-      const historyContext = user ? messages.map(m => {
-        const parts = [];
-        if (m.text) parts.push({ text: m.text });
-        // Note: We don't send past audio blobs back to Gemini context to save bandwidth, just text history
-        return {
-          role: m.sender === Sender.USER ? 'user' : 'model',
-          parts
-        };
-      }) : undefined;
-
+      // The server reads earlier turns from the stored session (or its memory for visitors)
       const mimeType = audioBlob?.type;
-      const result = await chatWithGemini(text, selectedLanguage, activeScenario, audioBase64, mimeType, historyContext, user?.id);
-
-      const tutorMsgContent = {
-        text: '',
-        tutorResponse: result.response,
-        correction: result.correction
-      };
-
-      const tutorMsg: Message = {
-        id: (Date.now() + 1).toString(),
-        sender: Sender.TUTOR,
-        timestamp: Date.now(),
-        ...tutorMsgContent
-      };
-      setMessages(prev => [...prev, tutorMsg]);
-      saveMessageToDb('model', tutorMsgContent);
+      await requestTutorTurn(selectedLanguage, activeScenario, text, audioBase64, mimeType, userMsg.id);
 
     } catch (error: any) {
       handleError(error);
@@ -410,6 +608,16 @@ function App() {
 
   const handleError = (error: any) => {
     console.error("Chat Error", error);
+    if (error instanceof RateLimitError) {
+      setLimitError(error);
+      return;
+    }
+    // The connection is fine; the model's reply wasn't usable, so suggest rephrasing instead
+    if (error instanceof TutorConfusedError) {
+      setTutorConfused(true);
+      return;
+    }
+
     let userFriendlyMsg = `Couldn't connect to ${currentConfig?.tutorName}.`;
     let isMixedContent = false;
 
@@ -434,15 +642,15 @@ function App() {
     setErrorMsg(userFriendlyMsg);
   };
 
+  // Leaves the current conversation; signed-in learners can resume it from the session list
   const handleReset = () => {
-    if (user) {
-      // Option: Clear history in DB? Or just start new context?
-      // For now, just clearing UI.
-    }
     setHasStarted(false);
     setMessages([]);
+    setShowContinueOption(false);
+    setSessionChoices(null);
     setErrorMsg(null);
     setDebugInfo(null);
+    setTutorConfused(false);
     setLoadingScenario(null);
     resetSession();
   };
@@ -454,8 +662,41 @@ function App() {
         <Header
           onReset={() => { }}
           user={user}
+          onOpenStats={() => setHomeView('stats')}
+          progress={progress}
         />
         <main className="flex-1 overflow-y-auto p-4 pt-24 scroll-smooth">
+          {homeView === 'review' && user ? (
+            <ReviewSession
+              user={user}
+              languageConfigs={languageConfigs}
+              onClose={() => setHomeView('languages')}
+            />
+          ) : homeView === 'journal' && user ? (
+            <MistakeJournal
+              user={user}
+              languageConfigs={languageConfigs}
+              onClose={() => setHomeView('languages')}
+            />
+          ) : homeView === 'profile' && user ? (
+            <LearnerProfile
+              user={user}
+              languageConfigs={languageConfigs}
+              onClose={() => setHomeView('languages')}
+            />
+          ) : homeView === 'stats' && user ? (
+            <ProgressDashboard
+              user={user}
+              languageConfigs={languageConfigs}
+              onClose={() => setHomeView('languages')}
+            />
+          ) : homeView === 'placement' ? (
+            <PlacementTest
+              languageConfigs={languageConfigs}
+              onComplete={handlePlacementComplete}
+              onClose={() => setHomeView('languages')}
+            />
+          ) : (
           <div className="max-w-4xl w-full mx-auto animate-fade-in min-h-full flex flex-col pb-8">
             <div className="text-center mb-12 mt-4 md:mt-8">
               <div className="inline-flex items-center justify-center p-4 bg-white rounded-full shadow-xl mb-6">
@@ -465,10 +706,54 @@ function App() {
               <p className="text-lg text-slate-500 max-w-xl mx-auto">
                 Select a language to start your immersive learning journey with an AI friend.
               </p>
+              {user && progress && (
+                <div className="mt-6">
+                  <GoalRing progress={progress} onChangeGoal={handleGoalChange} />
+                </div>
+              )}
+              <div className="mt-6">
+                <HelperLanguagePicker selected={helperLanguages} onChange={handleHelperLanguagesChange} />
+              </div>
+              <div className="mt-6 flex flex-wrap justify-center gap-3">
+                <button
+                  onClick={() => setHomeView('placement')}
+                  className="inline-flex items-center px-5 py-2.5 bg-white border border-slate-200 rounded-full text-sm font-bold text-slate-600 shadow-sm hover:border-blue-400 hover:text-blue-600 hover:shadow-md transition-all"
+                >
+                  <Compass className="w-4 h-4 mr-2" /> Find my level
+                </button>
+                {user && (
+                  <>
+                    <button
+                      onClick={() => setHomeView('review')}
+                      className="inline-flex items-center px-5 py-2.5 bg-white border border-slate-200 rounded-full text-sm font-bold text-slate-600 shadow-sm hover:border-blue-400 hover:text-blue-600 hover:shadow-md transition-all"
+                    >
+                      <Layers className="w-4 h-4 mr-2" /> Review vocabulary
+                    </button>
+                    <button
+                      onClick={() => setHomeView('journal')}
+                      className="inline-flex items-center px-5 py-2.5 bg-white border border-slate-200 rounded-full text-sm font-bold text-slate-600 shadow-sm hover:border-blue-400 hover:text-blue-600 hover:shadow-md transition-all"
+                    >
+                      <NotebookPen className="w-4 h-4 mr-2" /> Mistake journal
+                    </button>
+                    <button
+                      onClick={() => setHomeView('profile')}
+                      className="inline-flex items-center px-5 py-2.5 bg-white border border-slate-200 rounded-full text-sm font-bold text-slate-600 shadow-sm hover:border-blue-400 hover:text-blue-600 hover:shadow-md transition-all"
+                    >
+                      <Brain className="w-4 h-4 mr-2" /> What my tutors remember
+                    </button>
+                  </>
+                )}
+              </div>
             </div>
 
+            {Object.keys(languageConfigs).length === 0 && (
+              <div className="flex justify-center py-12">
+                <Loader2 className="w-8 h-8 text-blue-500 animate-spin" />
+              </div>
+            )}
+
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 pb-12">
-              {(Object.values(LANGUAGE_CONFIGS) as LanguageConfig[]).map((config) => (
+              {(Object.values(languageConfigs) as LanguageConfig[]).map((config) => (
                 <button
                   key={config.id}
                   onClick={() => handleLanguageSelect(config.id)}
@@ -488,6 +773,7 @@ function App() {
               ))}
             </div>
           </div>
+          )}
         </main>
         {errorMsg && (
           <ErrorModal
@@ -496,6 +782,9 @@ function App() {
             onClose={() => setErrorMsg(null)}
           />
         )}
+        {limitError && (
+          <LimitModal error={limitError} isSignedIn={Boolean(user)} onClose={() => setLimitError(null)} />
+        )}
       </div>
     );
   }
@@ -508,6 +797,11 @@ function App() {
         onBack={handleBackToSelection}
         config={currentConfig}
         user={user}
+        onExport={hasStarted && activeScenario ? handleExport : undefined}
+        readingAidOn={showReadingAid}
+        onToggleReadingAid={currentConfig?.readingAid ? handleToggleReadingAid : undefined}
+        onOpenStats={handleOpenStats}
+        progress={progress}
       />
 
       <main className="flex-1 overflow-y-auto p-3 sm:p-4 pt-24 scroll-smooth">
@@ -525,46 +819,118 @@ function App() {
                 </p>
               </div>
 
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 w-full max-w-2xl px-4">
-                {SCENARIO_OPTIONS.map((option) => (
-                  <button
-                    key={option.id}
-                    onClick={() => startScenario(option.id)}
-                    disabled={loadingScenario !== null}
-                    className={`flex items-center p-4 bg-white border rounded-xl transition-all group text-left relative overflow-hidden ${loadingScenario === option.id
-                      ? 'border-blue-400 ring-2 ring-blue-100 shadow-md'
-                      : 'border-slate-200 hover:border-blue-400 hover:shadow-md cursor-pointer'
-                      } ${loadingScenario !== null && loadingScenario !== option.id ? 'opacity-50 cursor-not-allowed' : ''}`}
-                  >
-                    <div className={`w-12 h-12 rounded-full flex items-center justify-center mr-4 transition-colors ${loadingScenario === option.id
-                      ? 'bg-blue-100 text-blue-600'
-                      : 'bg-blue-50 text-blue-600 group-hover:bg-blue-600 group-hover:text-white'
-                      }`}>
-                      {loadingScenario === option.id ? (
-                        <Loader2 className="w-6 h-6 animate-spin" />
-                      ) : (
-                        <option.icon className="w-6 h-6" />
-                      )}
-                    </div>
-                    <div>
-                      <h3 className="font-semibold text-slate-800">{option.label}</h3>
-                      <p className="text-xs text-slate-500">
-                        {loadingScenario === option.id ? "Connecting..." : option.desc}
-                      </p>
-                    </div>
-                  </button>
-                ))}
-              </div>
+              {sessionChoices && user && activeScenario ? (
+                <SessionPicker
+                  user={user}
+                  scenario={activeScenario}
+                  sessions={sessionChoices}
+                  onResume={handleResumeSession}
+                  onStartNew={() => startNewConversation(activeScenario)}
+                  onClose={() => { setSessionChoices(null); setActiveScenario(null); }}
+                />
+              ) : (
+              <>
+                <div className="w-full max-w-2xl px-4">
+                  <p className="text-xs font-bold text-slate-400 uppercase tracking-widest text-center mb-2">Your level</p>
+                  <div className="flex flex-wrap justify-center gap-2">
+                    {CEFR_LEVELS.map(({ level, label }) => (
+                      <button
+                        key={level}
+                        onClick={() => handleLevelChange(level)}
+                        disabled={loadingScenario !== null}
+                        title={label}
+                        className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-all ${currentLevel === level ? 'bg-blue-600 text-white border-blue-600 shadow-md' : 'bg-white text-slate-500 border-slate-200 hover:border-blue-300'}`}
+                      >
+                        {level} <span className="hidden sm:inline font-medium opacity-75">· {label}</span>
+                      </button>
+                    ))}
+                  </div>
+                  {!currentLevel && (
+                    <p className="text-xs text-slate-400 text-center mt-2">Not sure? Pick one and {currentConfig.tutorName} will adapt.</p>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 w-full max-w-2xl px-4">
+                  {scenarios.map((option) => {
+                    const Icon = SCENARIO_ICONS[option.icon] || SCENARIO_ICONS.message;
+                    const isOwned = !!user && option.ownerId === user.id;
+                    return (
+                      <div key={option.id} className="relative group">
+                        <button
+                          onClick={() => startScenario(option)}
+                          disabled={loadingScenario !== null}
+                          className={`w-full flex items-center p-4 bg-white border rounded-xl transition-all text-left relative overflow-hidden ${loadingScenario === option.id
+                            ? 'border-blue-400 ring-2 ring-blue-100 shadow-md'
+                            : 'border-slate-200 hover:border-blue-400 hover:shadow-md cursor-pointer'
+                            } ${loadingScenario !== null && loadingScenario !== option.id ? 'opacity-50 cursor-not-allowed' : ''}`}
+                        >
+                          <div className={`w-12 h-12 rounded-full flex items-center justify-center mr-4 flex-shrink-0 transition-colors ${loadingScenario === option.id
+                            ? 'bg-blue-100 text-blue-600'
+                            : 'bg-blue-50 text-blue-600 group-hover:bg-blue-600 group-hover:text-white'
+                            }`}>
+                            {loadingScenario === option.id ? (
+                              <Loader2 className="w-6 h-6 animate-spin" />
+                            ) : (
+                              <Icon className="w-6 h-6" />
+                            )}
+                          </div>
+                          <div className="min-w-0">
+                            <h3 className="font-semibold text-slate-800 truncate">
+                              {option.title}
+                              <span className="ml-2 text-[10px] font-bold text-slate-400">{option.level}</span>
+                            </h3>
+                            <p className="text-xs text-slate-500 truncate">
+                              {loadingScenario === option.id ? "Connecting..." : option.description}
+                            </p>
+                          </div>
+                        </button>
+                        {isOwned && loadingScenario === null && (
+                          <div className="absolute top-2 right-2 flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <button
+                              onClick={() => setEditingScenario(option)}
+                              className="p-1.5 rounded-full bg-white text-slate-400 hover:text-blue-600 hover:bg-blue-50 shadow-sm"
+                              title="Edit scenario"
+                            >
+                              <Pencil className="w-3 h-3" />
+                            </button>
+                            <button
+                              onClick={() => handleDeleteScenario(option)}
+                              className="p-1.5 rounded-full bg-white text-slate-400 hover:text-red-600 hover:bg-red-50 shadow-sm"
+                              title="Delete scenario"
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                  {user && (
+                    <button
+                      onClick={() => setEditingScenario('new')}
+                      disabled={loadingScenario !== null}
+                      className="flex items-center justify-center p-4 bg-white/50 border border-dashed border-slate-300 rounded-xl text-sm font-semibold text-slate-500 hover:border-blue-400 hover:text-blue-600 transition-all"
+                    >
+                      <Plus className="w-4 h-4 mr-2" /> New scenario
+                    </button>
+                  )}
+                </div>
+              </>
+              )}
             </div>
           )}
 
           {/* Messages Area */}
           <div className="pb-4">
-            {messages.map((msg) => (
+            {messages.map((msg, index) => (
               <ChatBubble
                 key={msg.id}
                 message={msg}
                 languageConfig={currentConfig}
+                onSaveVocab={user ? handleSaveVocab : undefined}
+                helperLanguages={helperLanguages}
+                showReading={showReadingAid}
+                answeredText={answeredTextFor(index)}
               />
             ))}
 
@@ -586,6 +952,20 @@ function App() {
               </div>
             )}
 
+            {tutorConfused && (
+              <div className="flex justify-start mb-6 animate-fade-in px-1">
+                <div className="flex items-start space-x-3 bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-2xl rounded-bl-none shadow-sm max-w-[85%]">
+                  <HelpCircle className="w-5 h-5 flex-shrink-0 mt-0.5 text-amber-500" />
+                  <p className="text-sm font-medium flex-1">
+                    {currentConfig.tutorName} got confused and couldn't answer that. Try sending it again or saying it another way.
+                  </p>
+                  <button onClick={() => setTutorConfused(false)} className="text-amber-400 hover:text-amber-700 transition-colors" title="Dismiss">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )}
+
             <div ref={messagesEndRef} />
           </div>
 
@@ -609,12 +989,29 @@ function App() {
           For now, let's keep input area visible but maybe highlight the button.
           Actually, if we pause, we can just leave InputArea visible. 
       */}
-      {(hasStarted || messages.length > 0) && (
+      {(hasStarted || messages.length > 0) && (isHandsFree ? (
+        <HandsFreeVoice
+          onSend={handleSendMessage}
+          isWaiting={isReplying}
+          reply={latestReply}
+          tutorName={currentConfig.tutorName}
+          onExit={() => setIsHandsFree(false)}
+        />
+      ) : (
         <InputArea
           onSend={handleSendMessage}
-          disabled={isTyping}
+          disabled={isReplying}
           tutorName={currentConfig.tutorName}
           languageCode={currentConfig.speechCode}
+          onStartHandsFree={() => setIsHandsFree(true)}
+        />
+      ))}
+
+      {editingScenario && (
+        <ScenarioEditor
+          scenario={editingScenario === 'new' ? null : editingScenario}
+          onSave={handleSaveScenario}
+          onClose={() => setEditingScenario(null)}
         />
       )}
 
@@ -625,6 +1022,9 @@ function App() {
           onClose={() => setErrorMsg(null)}
         />
       )}
+      {limitError && (
+        <LimitModal error={limitError} isSignedIn={Boolean(user)} onClose={() => setLimitError(null)} />
+      )}
     </div>
   );
 }
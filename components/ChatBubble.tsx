@@ -1,16 +1,35 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Message, Sender, LanguageConfig, AudioResponse } from '../types';
-import { Volume2, StopCircle, Sparkles, Eye, Loader2, ChevronDown, ChevronUp, Play, Pause } from 'lucide-react';
+import { Message, Sender, LanguageConfig, AudioResponse, VocabSource, PronunciationIssue } from '../types';
+import { Volume2, StopCircle, Sparkles, Eye, Loader2, ChevronDown, ChevronUp, Play, Pause, Bookmark, BookmarkCheck, AudioLines } from 'lucide-react';
 import { generateSpeech } from '../services/geminiService';
+import { computeWaveform, toAudioBuffer } from '../services/audioPlayback';
+import { diffWords } from '../services/textDiff';
+import { MISTAKE_CATEGORY_LABELS } from '../services/mistakeService';
+import { DEFAULT_HELPER_LANGUAGES, findHelperLanguage, primaryTranslation } from '../services/helperLanguages';
+import { alignReading } from '../services/readingAids';
+import { isWordLike, segmentWords } from '../services/glossService';
+import GlossPopover from './GlossPopover';
 
 interface ChatBubbleProps {
   message: Message;
   languageConfig?: LanguageConfig;
+  onSaveVocab?: (text: string, translation: string | null, source: VocabSource) => Promise<void>;
+  helperLanguages?: string[]; // Translation panel order; the first one is the learner's main language
+  showReading?: boolean; // Ruby annotations from tutorResponse.reading
+  glossEnabled?: boolean; // Tap a word of targetText to look it up
+  answeredText?: string; // The learner's turn this reply answers; corrections are diffed against it
 }
 
-const ChatBubble: React.FC<ChatBubbleProps> = ({ message, languageConfig }) => {
+const WAVEFORM_BARS = 24;
+
+const ChatBubble: React.FC<ChatBubbleProps> = ({ message, languageConfig, onSaveVocab, helperLanguages = DEFAULT_HELPER_LANGUAGES, showReading = false, glossEnabled = true, answeredText }) => {
   const isUser = message.sender === Sender.USER;
   const [showTranscript, setShowTranscript] = useState(false);
+  const [glossTarget, setGlossTarget] = useState<{ index: number; word: string } | null>(null);
+
+  // Vocabulary Deck State
+  const [savedSources, setSavedSources] = useState<VocabSource[]>([]);
+  const [savingSource, setSavingSource] = useState<VocabSource | null>(null);
 
   // Tutor Audio State
   const [isTutorAudioLoading, setIsTutorAudioLoading] = useState(false);
@@ -22,6 +41,10 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, languageConfig }) => {
 
   // User Audio State
   const [isUserPlaying, setIsUserPlaying] = useState(false);
+  const [waveform, setWaveform] = useState<number[] | null>(null);
+  const [playbackProgress, setPlaybackProgress] = useState(0);
+  const [loadingWord, setLoadingWord] = useState<string | null>(null);
+  const [playingWord, setPlayingWord] = useState<string | null>(null);
   const userAudioRef = useRef<HTMLAudioElement | null>(null);
 
   const audioContextRef = useRef<AudioContext | null>(null);
@@ -29,9 +52,6 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, languageConfig }) => {
   const hasAutoPlayedRef = useRef(false);
   const audioCacheRef = useRef<AudioResponse | null>(null);
 
-  // Simple cache for the last played correction audio (overwrites on new request)
-  const correctionAudioCacheRef = useRef<AudioResponse | null>(null);
-
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -57,11 +77,26 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, languageConfig }) => {
   useEffect(() => {
     if (message.userAudioUrl && isUser) {
       const audio = new Audio(message.userAudioUrl);
-      audio.onended = () => setIsUserPlaying(false);
+      audio.onended = () => {
+        setIsUserPlaying(false);
+        setPlaybackProgress(0);
+      };
+      audio.ontimeupdate = () => {
+        if (audio.duration) setPlaybackProgress(audio.currentTime / audio.duration);
+      };
       userAudioRef.current = audio;
     }
   }, [message.userAudioUrl, isUser]);
 
+  useEffect(() => {
+    if (!message.userAudioUrl || !isUser) return;
+    let cancelled = false;
+    computeWaveform(message.userAudioUrl, WAVEFORM_BARS)
+      .then(peaks => { if (!cancelled) setWaveform(peaks); })
+      .catch(error => console.error("Failed to draw waveform:", error));
+    return () => { cancelled = true; };
+  }, [message.userAudioUrl, isUser]);
+
 
   // --- Shared Audio Logic ---
   const stopAllAudio = async () => {
@@ -76,6 +111,7 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, languageConfig }) => {
     } finally {
       setIsTutorPlaying(false);
       setActiveCorrectionType(null);
+      setPlayingWord(null);
       setIsTutorAudioLoading(false);
       setIsCorrectionLoading(false);
     }
@@ -95,21 +131,7 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, languageConfig }) => {
       await ctx.resume();
     }
 
-    let audioBuffer: AudioBuffer;
-
-    if (audioResponse.format === 'mp3') {
-      const bufferCopy = audioResponse.data.buffer.slice(0) as ArrayBuffer;
-      audioBuffer = await ctx.decodeAudioData(bufferCopy);
-    } else {
-      const pcmData = audioResponse.data;
-      const dataInt16 = new Int16Array(pcmData.buffer);
-      const float32 = new Float32Array(dataInt16.length);
-      for (let i = 0; i < dataInt16.length; i++) {
-        float32[i] = dataInt16[i] / 32768;
-      }
-      audioBuffer = ctx.createBuffer(1, float32.length, 24000);
-      audioBuffer.getChannelData(0).set(float32);
-    }
+    const audioBuffer = await toAudioBuffer(ctx, audioResponse);
 
     const source = ctx.createBufferSource();
     source.buffer = audioBuffer;
@@ -141,12 +163,8 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, languageConfig }) => {
     setActiveCorrectionType(type);
 
     try {
-      // For simplicity in this version, we don't differentiate cache keys for text vs explanation.
-      // We just fetch fresh if it's a different request, or use cache if it happens to be the same last request.
-      // In a more complex app, we'd map text hash to audio.
+      // generateSpeech is cached by (text, voice, format), so replays are free.
       const audioResponse = await generateSpeech(text);
-      // We don't rely heavily on caching for corrections here to keep it simple, 
-      // but you could store it in a map if needed.
 
       await playRawAudio(audioResponse, () => setActiveCorrectionType(null));
     } catch (error) {
@@ -157,9 +175,33 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, languageConfig }) => {
     }
   };
 
+  // --- Pronunciation Word Handler ---
+  const handleSpeakWord = async (word: string) => {
+    if (loadingWord) return;
+
+    if (playingWord === word) {
+      await stopAllAudio();
+      return;
+    }
+
+    await stopAllAudio();
+    setLoadingWord(word);
+
+    try {
+      const audioResponse = await generateSpeech(word);
+      setPlayingWord(word);
+      await playRawAudio(audioResponse, () => setPlayingWord(null));
+    } catch (error) {
+      console.error("Failed to play pronunciation:", error);
+      setPlayingWord(null);
+    } finally {
+      setLoadingWord(null);
+    }
+  };
+
   // --- Tutor Main Response Handler ---
   const handleSpeakTutor = async (text: string) => {
-    if (isTutorAudioLoading) return;
+    if (isTutorAudioLoading || message.isLoading) return;
 
     if (isTutorPlaying) {
       await stopAllAudio();
@@ -191,6 +233,43 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, languageConfig }) => {
     }
   };
 
+  // --- Vocabulary Deck Handler ---
+  const handleSaveVocab = async (text: string, translation: string | null, source: VocabSource) => {
+    if (!onSaveVocab || !text || savingSource || savedSources.includes(source)) return;
+
+    setSavingSource(source);
+    try {
+      await onSaveVocab(text, translation, source);
+      setSavedSources(prev => [...prev, source]);
+    } catch (error) {
+      console.error("Failed to save vocabulary:", error);
+    } finally {
+      setSavingSource(null);
+    }
+  };
+
+  const renderSaveButton = (text: string, translation: string | null, source: VocabSource, className: string) => {
+    if (!onSaveVocab) return null;
+    const isSaved = savedSources.includes(source);
+
+    return (
+      <button
+        onClick={() => handleSaveVocab(text, translation, source)}
+        disabled={isSaved || savingSource !== null}
+        className={className}
+        title={isSaved ? "Saved to your deck" : "Save to vocabulary deck"}
+      >
+        {savingSource === source ? (
+          <Loader2 className="w-3 h-3 animate-spin" />
+        ) : isSaved ? (
+          <BookmarkCheck className="w-3 h-3" />
+        ) : (
+          <Bookmark className="w-3 h-3" />
+        )}
+      </button>
+    );
+  };
+
   // Auto-play disabled by user request.
   // useEffect(() => {
   //   if (!isUser && !message.isLoading && message.tutorResponse?.targetText && !hasAutoPlayedRef.current) {
@@ -202,34 +281,90 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, languageConfig }) => {
   // }, [isUser, message.isLoading, message.tutorResponse]);
 
 
+  // Marks mispronounced words inside the typed text of a voice turn
+  const renderHighlightedText = (text: string, issues: PronunciationIssue[]) => {
+    const words = issues.map(issue => issue.word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    if (words.length === 0) return text;
+
+    const pattern = new RegExp(`(${words.join('|')})`, 'giu');
+    return text.split(pattern).map((segment, i) => i % 2 === 1
+      ? <mark key={i} className="bg-orange-300/40 text-white rounded px-0.5 underline decoration-wavy decoration-orange-300">{segment}</mark>
+      : segment);
+  };
+
   // --- Render User Bubble ---
   if (isUser) {
+    const pronunciation = message.pronunciation;
+    const heard = !message.text ? message.transcript : undefined;
+
     return (
       <div className="flex justify-end mb-6 animate-fade-in">
         <div className="max-w-[85%] md:max-w-[70%]">
           <div className="bg-blue-600 text-white px-5 py-3.5 rounded-2xl rounded-br-none shadow-md relative">
             {message.userAudioUrl && (
-              <div className={`flex items-center space-x-3 ${message.text ? 'mb-2 pb-2 border-b border-blue-500/50' : ''}`}>
+              <div className={`flex items-center space-x-3 ${message.text || heard ? 'mb-2 pb-2 border-b border-blue-500/50' : ''}`}>
                 <button
                   onClick={toggleUserAudio}
                   className="w-8 h-8 bg-white/20 rounded-full flex items-center justify-center hover:bg-white/30 transition-colors"
                 >
                   {isUserPlaying ? <Pause className="w-4 h-4 fill-current" /> : <Play className="w-4 h-4 fill-current" />}
                 </button>
-                <div className="h-6 flex-1 flex items-center space-x-1 opacity-70">
-                  {/* Fake waveform visual */}
-                  {[...Array(12)].map((_, i) => (
+                <div className="h-6 flex-1 flex items-center space-x-0.5">
+                  {(waveform || new Array(WAVEFORM_BARS).fill(0)).map((peak, i) => (
                     <div
                       key={i}
-                      className={`w-1 bg-white rounded-full transition-all duration-300 ${isUserPlaying ? 'animate-pulse' : ''}`}
-                      style={{ height: `${Math.random() * 12 + 4}px` }}
+                      className={`w-1 bg-white rounded-full transition-all duration-300 ${(i + 0.5) / WAVEFORM_BARS <= playbackProgress ? 'opacity-100' : 'opacity-50'}`}
+                      style={{ height: `${4 + peak * 20}px` }}
                     ></div>
                   ))}
                 </div>
               </div>
             )}
+            {heard && (
+              <p className="text-base leading-relaxed font-medium" title="What the tutor heard">
+                <span className="block text-[10px] font-bold uppercase tracking-wider text-blue-200 mb-0.5">Heard</span>
+                {pronunciation ? renderHighlightedText(heard, pronunciation.issues) : heard}
+              </p>
+            )}
             {message.text && (
-              <p className="text-base leading-relaxed font-medium">{message.text}</p>
+              <p className="text-base leading-relaxed font-medium">
+                {pronunciation ? renderHighlightedText(message.text, pronunciation.issues) : message.text}
+              </p>
+            )}
+            {pronunciation && (
+              <div className="mt-2 pt-2 border-t border-blue-500/50 space-y-1.5">
+                <div className="flex items-center text-[10px] font-bold uppercase tracking-wider text-blue-100">
+                  <AudioLines className="w-3 h-3 mr-1" /> Pronunciation
+                  {pronunciation.score !== null && (
+                    <span className="ml-auto bg-white/20 rounded-full px-2 py-0.5 normal-case tracking-normal">{pronunciation.score}/100</span>
+                  )}
+                </div>
+                {pronunciation.issues.length === 0 ? (
+                  <p className="text-xs text-blue-100">Every word sounded right.</p>
+                ) : pronunciation.issues.map(issue => (
+                  <div key={issue.word} className="flex items-start space-x-2 text-xs">
+                    <button
+                      onClick={() => handleSpeakWord(issue.word)}
+                      disabled={loadingWord !== null && loadingWord !== issue.word}
+                      className="mt-0.5 w-5 h-5 flex-shrink-0 bg-white/20 rounded-full flex items-center justify-center hover:bg-white/30 transition-colors disabled:opacity-50"
+                      title="Hear the correct pronunciation"
+                    >
+                      {loadingWord === issue.word ? (
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                      ) : playingWord === issue.word ? (
+                        <StopCircle className="w-3 h-3" />
+                      ) : (
+                        <Volume2 className="w-3 h-3" />
+                      )}
+                    </button>
+                    <div className="min-w-0">
+                      <span className="font-bold bg-orange-300/40 rounded px-1">{issue.word}</span>
+                      <span className="text-blue-100"> — {issue.expected}</span>
+                      {issue.heard && <span className="block text-blue-200/80 italic">Heard: {issue.heard}</span>}
+                    </div>
+                  </div>
+                ))}
+              </div>
             )}
           </div>
           <div className="text-right text-[10px] text-slate-400 mt-1 mr-1 font-medium opacity-70">
@@ -242,8 +377,43 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, languageConfig }) => {
 
   // --- Render Tutor Bubble ---
   const { correction, tutorResponse } = message;
+  const translationCodes = Object.keys(tutorResponse?.translations || {})
+    .sort((a, b) => (helperLanguages.indexOf(a) + 1 || 99) - (helperLanguages.indexOf(b) + 1 || 99));
   const tutorName = languageConfig?.tutorName || "Tutor";
   const tutorInitial = tutorName.charAt(0);
+  const targetText = tutorResponse?.targetText || '';
+
+  // Reading tokens double as word boundaries; otherwise segment by script
+  const wordSegments = showReading && tutorResponse?.reading
+    ? alignReading(targetText, tutorResponse.reading).map(segment => ({ ...segment, isWord: isWordLike(segment.text) }))
+    : languageConfig ? segmentWords(targetText, languageConfig) : [{ text: targetText, isWord: false }];
+  const canGloss = glossEnabled && Boolean(languageConfig);
+
+  const renderWordSegment = (segment: { text: string; reading?: string; isWord: boolean }, index: number) => {
+    const content = segment.reading ? (
+      <ruby>
+        {segment.text}
+        <rt className="text-[0.5em] font-normal text-slate-400 tracking-normal">{segment.reading}</rt>
+      </ruby>
+    ) : segment.text;
+
+    if (!canGloss || !segment.isWord) return <React.Fragment key={index}>{content}</React.Fragment>;
+
+    const isActive = glossTarget?.index === index;
+    const toggle = () => setGlossTarget(isActive ? null : { index, word: segment.text });
+    return (
+      <span
+        key={index}
+        role="button"
+        tabIndex={0}
+        onClick={toggle}
+        onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); toggle(); } }}
+        className={`rounded cursor-pointer transition-colors ${isActive ? 'bg-blue-100 text-blue-700' : 'hover:bg-blue-50'}`}
+      >
+        {content}
+      </span>
+    );
+  };
 
   return (
     <div className="flex justify-start mb-8 animate-fade-in w-full group">
@@ -263,11 +433,18 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, languageConfig }) => {
               <Sparkles className="w-4 h-4 text-orange-500 mt-0.5 flex-shrink-0" />
               <div className="flex-1 min-w-0">
                 <div className="text-slate-700 text-sm leading-snug mb-1">
-                  {message.text && (
-                    <span className="font-medium text-red-500 line-through mr-2 opacity-60">{message.text}</span>
-                  )}
                   <div className="flex items-center flex-wrap gap-2 mt-1">
-                    <span className="text-green-700 font-bold break-words">{correction.correctedText}</span>
+                    <span className="text-green-700 font-bold break-words">
+                      {answeredText && correction.correctedText
+                        ? diffWords(answeredText, correction.correctedText).map((part, index) => part.type === 'removed' ? (
+                          <del key={index} className="font-medium text-red-500 opacity-70">{part.text}</del>
+                        ) : part.type === 'added' ? (
+                          <ins key={index} className="no-underline bg-green-100 rounded px-0.5">{part.text}</ins>
+                        ) : (
+                          <React.Fragment key={index}>{part.text}</React.Fragment>
+                        ))
+                        : correction.correctedText}
+                    </span>
                     <button
                       onClick={() => handleSpeakCorrection(correction.correctedText || '', 'text')}
                       disabled={isCorrectionLoading && activeCorrectionType !== 'text'}
@@ -282,12 +459,24 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, languageConfig }) => {
                         <Volume2 className="w-3 h-3" />
                       )}
                     </button>
+                    {renderSaveButton(
+                      correction.correctedText || '',
+                      null,
+                      'correction',
+                      "inline-flex items-center justify-center p-1.5 rounded-full bg-orange-100 text-orange-600 hover:bg-orange-200 transition-colors disabled:opacity-60"
+                    )}
                   </div>
                 </div>
 
+                {correction.category && (
+                  <span className="inline-block mt-1 text-[10px] uppercase tracking-wider bg-orange-100 text-orange-600 px-1.5 py-0.5 rounded-full font-bold">
+                    {MISTAKE_CATEGORY_LABELS[correction.category] || correction.category}
+                  </span>
+                )}
+
                 {correction.explanation && (
                   <div className="flex items-start gap-2 mt-2">
-                    <p className="text-xs text-slate-500 italic leading-relaxed flex-1">
+                    <p className="text-xs text-slate-500 italic leading-relaxed flex-1" dir={findHelperLanguage(helperLanguages[0])?.rtl ? 'rtl' : undefined}>
                       {correction.explanation}
                     </p>
                     <button
@@ -316,7 +505,7 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, languageConfig }) => {
             <div className="flex items-center space-x-3 mb-4">
               <button
                 onClick={() => handleSpeakTutor(tutorResponse?.targetText || '')}
-                disabled={isTutorAudioLoading}
+                disabled={isTutorAudioLoading || message.isLoading}
                 className={`w-10 h-10 rounded-full flex items-center justify-center transition-all shadow-sm ${isTutorPlaying
                     ? 'bg-blue-100 text-blue-600 ring-2 ring-blue-200'
                     : 'bg-blue-50 text-blue-600 hover:bg-blue-600 hover:text-white'
@@ -333,10 +522,25 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, languageConfig }) => {
               <span className="text-sm text-slate-400 font-medium cursor-pointer" onClick={() => handleSpeakTutor(tutorResponse?.targetText || '')}>
                 {isTutorAudioLoading ? "Loading audio..." : isTutorPlaying ? "Listening..." : "Click to replay"}
               </span>
+              {tutorResponse?.targetText && !message.isLoading && (
+                <div className="ml-auto">
+                  {renderSaveButton(
+                    tutorResponse.targetText,
+                    primaryTranslation(tutorResponse, helperLanguages),
+                    'tutor',
+                    "inline-flex items-center justify-center p-2 rounded-full text-slate-400 hover:text-blue-600 hover:bg-blue-50 transition-colors disabled:opacity-60"
+                  )}
+                </div>
+              )}
             </div>
 
             <div className="transition-all duration-300">
-              {!showTranscript ? (
+              {message.isLoading ? (
+                <p className="text-xl sm:text-2xl font-medium text-slate-800 leading-relaxed">
+                  {tutorResponse?.targetText}
+                  <span className="inline-block w-0.5 h-6 ml-1 align-middle bg-blue-500 animate-pulse"></span>
+                </p>
+              ) : !showTranscript ? (
                 <div
                   className="text-center py-6 cursor-pointer group/reveal bg-slate-50 rounded-xl border border-dashed border-slate-200 hover:border-blue-300 hover:bg-blue-50 transition-all"
                   onClick={() => setShowTranscript(true)}
@@ -352,27 +556,36 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, languageConfig }) => {
                     <p className="text-xs font-bold text-blue-600 uppercase tracking-widest mb-2">
                       {languageConfig?.name.toUpperCase()}
                     </p>
-                    <p className="text-xl sm:text-2xl font-medium text-slate-800 leading-relaxed">
-                      {tutorResponse?.targetText}
+                    <p className={`text-xl sm:text-2xl font-medium text-slate-800 ${showReading && tutorResponse?.reading ? 'leading-loose' : 'leading-relaxed'}`}>
+                      {wordSegments.map(renderWordSegment)}
                     </p>
+                    {glossTarget && languageConfig && (
+                      <GlossPopover
+                        word={glossTarget.word}
+                        sentence={targetText}
+                        languageConfig={languageConfig}
+                        helperLanguages={helperLanguages}
+                        speakState={loadingWord === glossTarget.word ? 'loading' : playingWord === glossTarget.word ? 'playing' : 'idle'}
+                        onSpeak={handleSpeakWord}
+                        onSaveVocab={onSaveVocab}
+                        onClose={() => setGlossTarget(null)}
+                      />
+                    )}
                   </div>
                   <div className="space-y-3">
-                    <div className="bg-slate-50 border border-slate-100 rounded-xl p-4">
-                      <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">
-                        English
-                      </p>
-                      <p className="text-slate-700 text-sm leading-relaxed">
-                        {tutorResponse?.english}
-                      </p>
-                    </div>
-                    <div className="bg-slate-50 border border-slate-100 rounded-xl p-4">
-                      <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">
-                        Chinese
-                      </p>
-                      <p className="text-slate-700 text-sm leading-relaxed">
-                        {tutorResponse?.chinese}
-                      </p>
-                    </div>
+                    {translationCodes.map(code => {
+                      const helper = findHelperLanguage(code);
+                      return (
+                        <div key={code} className="bg-slate-50 border border-slate-100 rounded-xl p-4">
+                          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">
+                            {helper?.name || code}
+                          </p>
+                          <p className="text-slate-700 text-sm leading-relaxed" dir={helper?.rtl ? 'rtl' : undefined}>
+                            {tutorResponse?.translations[code]}
+                          </p>
+                        </div>
+                      );
+                    })}
                   </div>
                 </div>
               )}
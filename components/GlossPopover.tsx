@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { Bookmark, BookmarkCheck, Loader2, StopCircle, Volume2, X } from 'lucide-react';
+import { Gloss, LanguageConfig, VocabSource } from '../types';
+import { fetchGloss } from '../services/glossService';
+import { findHelperLanguage } from '../services/helperLanguages';
+
+interface GlossPopoverProps {
+  word: string;
+  sentence: string;
+  languageConfig: LanguageConfig;
+  helperLanguages: string[];
+  speakState: 'idle' | 'loading' | 'playing';
+  onSpeak: (word: string) => void;
+  onSaveVocab?: (text: string, translation: string | null, source: VocabSource) => Promise<void>;
+  onClose: () => void;
+}
+
+const GlossPopover: React.FC<GlossPopoverProps> = ({
+  word, sentence, languageConfig, helperLanguages, speakState, onSpeak, onSaveVocab, onClose
+}) => {
+  const [gloss, setGloss] = useState<Gloss | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSaved, setIsSaved] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setGloss(null);
+    setError(null);
+    setIsSaved(false);
+
+    fetchGloss(word, sentence, languageConfig.id, helperLanguages)
+      .then(result => { if (!cancelled) setGloss(result); })
+      .catch(err => { if (!cancelled) setError(err.message); });
+
+    return () => { cancelled = true; };
+  }, [word, sentence, languageConfig.id, helperLanguages[0]]);
+
+  const handleSave = async () => {
+    if (!onSaveVocab || !gloss || isSaving || isSaved) return;
+    setIsSaving(true);
+    try {
+      // Save the dictionary form, so every inflection lands on the same card
+      await onSaveVocab(gloss.lemma, gloss.definition || null, 'gloss');
+      setIsSaved(true);
+    } catch (err) {
+      console.error("Failed to save word:", err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const rtl = findHelperLanguage(helperLanguages[0])?.rtl;
+
+  return (
+    <div className="mt-3 bg-white border border-blue-100 rounded-xl shadow-lg p-4 animate-fade-in" role="dialog" aria-label={`Meaning of ${word}`}>
+      <div className="flex items-start gap-3">
+        <button
+          onClick={() => onSpeak(word)}
+          disabled={speakState === 'loading'}
+          className="w-8 h-8 flex-shrink-0 rounded-full bg-blue-50 text-blue-600 hover:bg-blue-600 hover:text-white flex items-center justify-center transition-colors"
+          title="Listen"
+        >
+          {speakState === 'loading' ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : speakState === 'playing' ? (
+            <StopCircle className="w-4 h-4 fill-current" />
+          ) : (
+            <Volume2 className="w-4 h-4" />
+          )}
+        </button>
+
+        <div className="flex-1 min-w-0">
+          <div className="flex items-baseline flex-wrap gap-x-2">
+            <span className="text-lg font-bold text-slate-800">{gloss?.lemma || word}</span>
+            {gloss?.reading && <span className="text-sm text-slate-400">{gloss.reading}</span>}
+            {gloss?.partOfSpeech && (
+              <span className="text-[10px] uppercase tracking-wider bg-slate-100 text-slate-500 px-1.5 py-0.5 rounded-full font-bold">
+                {gloss.partOfSpeech}
+              </span>
+            )}
+          </div>
+
+          {error ? (
+            <p className="text-sm text-red-500 mt-1">{error}</p>
+          ) : !gloss ? (
+            <Loader2 className="w-4 h-4 text-blue-500 animate-spin mt-2" />
+          ) : (
+            <div dir={rtl ? 'rtl' : undefined}>
+              <p className="text-sm text-slate-700 mt-1">{gloss.definition}</p>
+              {gloss.grammar && <p className="text-xs text-slate-500 italic mt-1">{gloss.grammar}</p>}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-1 flex-shrink-0">
+          {onSaveVocab && gloss && (
+            <button
+              onClick={handleSave}
+              disabled={isSaving || isSaved}
+              className="p-1.5 rounded-full text-slate-400 hover:text-blue-600 hover:bg-blue-50 transition-colors disabled:opacity-60"
+              title={isSaved ? "Saved to your deck" : "Save to vocabulary deck"}
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : isSaved ? <BookmarkCheck className="w-4 h-4" /> : <Bookmark className="w-4 h-4" />}
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded-full text-slate-400 hover:text-slate-600 hover:bg-slate-100 transition-colors"
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GlossPopover;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Check, Flame, Loader2, Pencil, Star } from 'lucide-react';
+import { DailyGoal, GoalType, LearnerProgress } from '../types';
+import { GOAL_OPTIONS } from '../services/progressService';
+
+interface GoalRingProps {
+  progress: LearnerProgress;
+  onChangeGoal: (goal: DailyGoal) => Promise<void>;
+}
+
+const RADIUS = 42;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+/**
+ * Today's progress towards the daily goal as a ring, with the streak and XP,
+ * and a picker to change the goal.
+ */
+const GoalRing: React.FC<GoalRingProps> = ({ progress, onChangeGoal }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftType, setDraftType] = useState<GoalType>(progress.goal.type);
+  const [saving, setSaving] = useState<number | null>(null);
+
+  const { goal, today, streak } = progress;
+  const option = GOAL_OPTIONS[goal.type];
+  const done = goal.type === 'minutes' ? today.voiceMinutes : today.turns;
+
+  const handlePick = async (target: number) => {
+    setSaving(target);
+    try {
+      await onChangeGoal({ type: draftType, target });
+      setIsEditing(false);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="inline-flex flex-col sm:flex-row items-center bg-white border border-slate-200 rounded-2xl shadow-sm p-4 gap-4 text-left">
+      <div className="relative w-24 h-24 flex-shrink-0">
+        <svg viewBox="0 0 100 100" className="w-full h-full -rotate-90">
+          <circle cx="50" cy="50" r={RADIUS} fill="none" strokeWidth="10" className="stroke-slate-100" />
+          <circle
+            cx="50"
+            cy="50"
+            r={RADIUS}
+            fill="none"
+            strokeWidth="10"
+            strokeLinecap="round"
+            className={`${today.met ? 'stroke-emerald-500' : 'stroke-blue-500'} transition-all duration-700`}
+            strokeDasharray={CIRCUMFERENCE}
+            strokeDashoffset={CIRCUMFERENCE * (1 - today.progress)}
+          />
+        </svg>
+        <div className="absolute inset-0 flex flex-col items-center justify-center">
+          {today.met ? (
+            <Check className="w-8 h-8 text-emerald-500" />
+          ) : (
+            <>
+              <span className="text-xl font-bold text-slate-800 leading-none">{done}</span>
+              <span className="text-[10px] font-bold text-slate-400">of {goal.target}</span>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="min-w-[12rem]">
+        <p className="text-sm font-bold text-slate-800">
+          {today.met ? 'Daily goal reached!' : `Today's goal: ${goal.target} ${option.unit}`}
+        </p>
+        <div className="flex items-center space-x-3 mt-1 text-xs font-bold text-slate-500">
+          <span className="flex items-center" title={`Longest streak: ${streak.longest} days`}>
+            <Flame className={`w-4 h-4 mr-1 ${streak.current > 0 ? 'text-orange-500' : 'text-slate-300'}`} />
+            {streak.current} day streak
+          </span>
+          <span className="flex items-center" title={`${today.xp} XP today`}>
+            <Star className="w-4 h-4 mr-1 text-amber-400" />
+            {progress.xp} XP
+          </span>
+        </div>
+
+        {isEditing ? (
+          <div className="mt-3 space-y-2">
+            <div className="flex gap-1">
+              {(Object.keys(GOAL_OPTIONS) as GoalType[]).map(type => (
+                <button
+                  key={type}
+                  onClick={() => setDraftType(type)}
+                  className={`px-2.5 py-1 rounded-full text-xs font-bold border transition-all ${draftType === type ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:border-blue-300'}`}
+                >
+                  {GOAL_OPTIONS[type].label}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-1">
+              {GOAL_OPTIONS[draftType].presets.map(target => (
+                <button
+                  key={target}
+                  onClick={() => handlePick(target)}
+                  disabled={saving !== null}
+                  className={`w-10 py-1 rounded-lg text-xs font-bold border transition-all disabled:opacity-50 ${draftType === goal.type && target === goal.target ? 'bg-blue-50 text-blue-600 border-blue-300' : 'bg-white text-slate-600 border-slate-200 hover:border-blue-300'}`}
+                >
+                  {saving === target ? <Loader2 className="w-3 h-3 animate-spin mx-auto" /> : target}
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => { setDraftType(goal.type); setIsEditing(true); }}
+            className="mt-2 flex items-center text-xs font-semibold text-slate-400 hover:text-blue-600 transition-colors"
+          >
+            <Pencil className="w-3 h-3 mr-1" /> Change goal
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GoalRing;
@@ -0,0 +1,245 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioLines, Headphones, Loader2, Mic, Send, SkipForward, Volume2, X } from 'lucide-react';
+import { generateSpeech } from '../services/geminiService';
+import { toAudioBuffer } from '../services/audioPlayback';
+import {
+  createVoiceActivityDetector, getRecordingMimeType, handsFreeAction, HandsFreeEvent, HandsFreePhase, VoiceActivityDetector
+} from '../services/voiceInput';
+
+interface HandsFreeVoiceProps {
+  onSend: (text: string, audioBlob?: Blob) => void;
+  isWaiting: boolean; // Tutor is thinking or still streaming
+  reply: { id: string; text: string } | null; // Latest finished tutor message
+  tutorName: string;
+  onExit: () => void;
+}
+
+const MIN_TURN_MS = 500;
+const MAX_TURN_MS = 30000;
+const BARGE_IN_SENSITIVITY = 2;
+
+/**
+ * Replaces InputArea for hands-free conversation: the mic stays open, silence ends
+ * the learner's turn, the reply is read out, and talking over the tutor cuts it off.
+ */
+const HandsFreeVoice: React.FC<HandsFreeVoiceProps> = ({ onSend, isWaiting, reply, tutorName, onExit }) => {
+  const [phase, setPhaseState] = useState<HandsFreePhase>('starting');
+  const [error, setError] = useState<string | null>(null);
+
+  // The detector's callbacks outlive renders, so everything they touch lives in refs
+  const phaseRef = useRef<HandsFreePhase>('starting');
+  const streamRef = useRef<MediaStream | null>(null);
+  const detectorRef = useRef<VoiceActivityDetector | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const turnStartRef = useRef(0);
+  const turnTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const playbackContextRef = useRef<AudioContext | null>(null);
+  const playbackSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const spokenReplyRef = useRef<string | null>(reply?.id || null); // Earlier replies aren't read out
+  const onSendRef = useRef(onSend);
+  onSendRef.current = onSend;
+
+  const setPhase = (next: HandsFreePhase) => {
+    phaseRef.current = next;
+    setPhaseState(next);
+    detectorRef.current?.setSensitivity(next === 'speaking' ? BARGE_IN_SENSITIVITY : 1);
+  };
+
+  const stopPlayback = () => {
+    const source = playbackSourceRef.current;
+    playbackSourceRef.current = null;
+    if (!source) return;
+    source.onended = null;
+    try {
+      source.stop();
+    } catch (e) {
+      // Already stopped
+    }
+  };
+
+  const startTurn = () => {
+    const stream = streamRef.current;
+    if (!stream) return;
+
+    const mimeType = getRecordingMimeType();
+    const recorder = new MediaRecorder(stream, { mimeType });
+    chunksRef.current = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunksRef.current.push(event.data);
+    };
+    recorder.start();
+    recorderRef.current = recorder;
+    turnStartRef.current = Date.now();
+    turnTimerRef.current = setTimeout(endTurn, MAX_TURN_MS);
+    setPhase('recording');
+  };
+
+  const endTurn = () => {
+    clearTimeout(turnTimerRef.current);
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    if (!recorder || recorder.state === 'inactive') return;
+
+    if (Date.now() - turnStartRef.current < MIN_TURN_MS) {
+      recorder.onstop = null;
+      recorder.stop();
+      setPhase('listening');
+      return;
+    }
+
+    recorder.onstop = () => {
+      onSendRef.current('', new Blob(chunksRef.current, { type: recorder.mimeType || getRecordingMimeType() }));
+    };
+    setPhase('waiting');
+    recorder.stop();
+  };
+
+  const handleEvent = (event: HandsFreeEvent) => {
+    switch (handsFreeAction(phaseRef.current, event)) {
+      case 'bargeIn':
+        stopPlayback();
+        startTurn();
+        break;
+      case 'startTurn':
+        startTurn();
+        break;
+      case 'endTurn':
+        endTurn();
+        break;
+      case 'listen':
+        setPhase('listening');
+        break;
+    }
+  };
+
+  const speak = async (text: string) => {
+    setPhase('speaking');
+    try {
+      const audioResponse = await generateSpeech(text);
+      if (phaseRef.current !== 'speaking') return; // Barged in while the audio loaded
+
+      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+      let ctx = playbackContextRef.current;
+      if (!ctx || ctx.state === 'closed') {
+        ctx = new AudioContextClass();
+        playbackContextRef.current = ctx;
+      }
+      if (ctx.state === 'suspended') await ctx.resume();
+
+      const source = ctx.createBufferSource();
+      source.buffer = await toAudioBuffer(ctx, audioResponse);
+      source.connect(ctx.destination);
+      source.onended = () => {
+        playbackSourceRef.current = null;
+        handleEvent('playbackEnded');
+      };
+      playbackSourceRef.current = source;
+      source.start(0);
+    } catch (err) {
+      console.error("Failed to play tutor reply:", err);
+      if (phaseRef.current === 'speaking') setPhase('listening');
+    }
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } })
+      .then(stream => {
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        detectorRef.current = createVoiceActivityDetector(stream, {
+          onSpeechStart: () => handleEvent('speechStart'),
+          onSpeechEnd: () => handleEvent('speechEnd'),
+        });
+        setPhase('listening');
+      })
+      .catch(err => {
+        console.error("Error accessing microphone:", err);
+        setError("Could not access microphone.");
+      });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(turnTimerRef.current);
+      detectorRef.current?.stop();
+      const recorder = recorderRef.current;
+      if (recorder && recorder.state !== 'inactive') {
+        recorder.onstop = null;
+        recorder.stop();
+      }
+      stopPlayback();
+      playbackContextRef.current?.close().catch(() => { });
+      streamRef.current?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  // Once the tutor has answered, read the reply out; if the turn failed, listen again
+  useEffect(() => {
+    if (phaseRef.current !== 'waiting' || isWaiting) return;
+    if (reply && reply.id !== spokenReplyRef.current) {
+      spokenReplyRef.current = reply.id;
+      speak(reply.text);
+    } else {
+      setPhase('listening');
+    }
+  }, [isWaiting, reply?.id]);
+
+  const skipReply = () => {
+    stopPlayback();
+    setPhase('listening');
+  };
+
+  const status = error ? { icon: <Mic className="w-5 h-5" />, text: error, tone: 'text-red-500' }
+    : phase === 'starting' ? { icon: <Loader2 className="w-5 h-5 animate-spin" />, text: 'Opening microphone...', tone: 'text-slate-400' }
+    : phase === 'listening' ? { icon: <Mic className="w-5 h-5" />, text: 'Listening... just start talking', tone: 'text-blue-600' }
+    : phase === 'recording' ? { icon: <AudioLines className="w-5 h-5 animate-pulse" />, text: 'Hearing you... pause to send', tone: 'text-red-500' }
+    : phase === 'waiting' ? { icon: <Loader2 className="w-5 h-5 animate-spin" />, text: `${tutorName} is thinking...`, tone: 'text-slate-500' }
+    : { icon: <Volume2 className="w-5 h-5 animate-pulse" />, text: `${tutorName} is speaking. Talk to interrupt`, tone: 'text-blue-600' };
+
+  return (
+    <div className="bg-white border-t border-slate-200 p-3 pb-5 sm:p-4 sm:pb-6">
+      <div className="max-w-3xl mx-auto">
+        <div className={`flex items-center space-x-3 border rounded-2xl p-2 pl-4 shadow-sm transition-all ${phase === 'recording' ? 'border-red-300 ring-1 ring-red-100 bg-red-50/30' : 'border-blue-200 bg-blue-50/40'}`}>
+          <Headphones className="w-5 h-5 text-blue-500 flex-shrink-0" />
+          <div className={`flex-1 flex items-center font-medium text-sm py-3 ${status.tone}`}>
+            <span className="mr-2">{status.icon}</span>
+            {status.text}
+          </div>
+
+          {phase === 'recording' && (
+            <button
+              onClick={endTurn}
+              className="p-3 rounded-xl bg-blue-600 text-white shadow-md hover:bg-blue-700 transition-all flex-shrink-0"
+              title="Send now"
+            >
+              <Send className="w-5 h-5" />
+            </button>
+          )}
+          {phase === 'speaking' && (
+            <button
+              onClick={skipReply}
+              className="p-3 rounded-xl text-slate-500 hover:bg-white hover:text-blue-600 transition-all flex-shrink-0"
+              title="Skip reply"
+            >
+              <SkipForward className="w-5 h-5" />
+            </button>
+          )}
+          <button
+            onClick={onExit}
+            className="p-3 rounded-xl text-slate-400 hover:bg-white hover:text-slate-700 transition-all flex-shrink-0"
+            title="Leave hands-free mode"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HandsFreeVoice;
@@ -1,18 +1,37 @@
 import React, { useState } from 'react';
-import { Languages, RefreshCcw, ArrowLeft, LogIn, LogOut, User as UserIcon } from 'lucide-react';
-import { LanguageConfig, User } from '../types';
+import { Languages, RefreshCcw, ArrowLeft, LogIn, LogOut, User as UserIcon, Download, Loader2, BarChart3, Flame } from 'lucide-react';
+import { LanguageConfig, LearnerProgress, User } from '../types';
 import AuthModal from './AuthModal';
 import { supabase } from '../services/supabaseClient';
+import { EXPORT_OPTIONS, ExportFormat } from '../services/exportService';
 
 interface HeaderProps {
   onReset: () => void;
   onBack?: () => void;
   config?: LanguageConfig;
   user: User | null;
+  onExport?: (format: ExportFormat) => Promise<void>;
+  readingAidOn?: boolean;
+  onToggleReadingAid?: () => void; // Only for languages with a reading aid
+  onOpenStats?: () => void; // Progress dashboard, for signed-in learners
+  progress?: LearnerProgress | null; // Streak badge, for signed-in learners
 }
 
-const Header: React.FC<HeaderProps> = ({ onReset, onBack, config, user }) => {
+const Header: React.FC<HeaderProps> = ({ onReset, onBack, config, user, onExport, readingAidOn, onToggleReadingAid, onOpenStats, progress }) => {
   const [isAuthOpen, setIsAuthOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!onExport || exportingFormat) return;
+    setExportingFormat(format);
+    try {
+      await onExport(format);
+      setIsExportOpen(false);
+    } finally {
+      setExportingFormat(null);
+    }
+  };
 
   const handleLogout = async () => {
     await supabase.auth.signOut();
@@ -57,6 +76,75 @@ const Header: React.FC<HeaderProps> = ({ onReset, onBack, config, user }) => {
           </div>
 
           <div className="flex items-center space-x-2">
+            {onToggleReadingAid && config?.readingAid && (
+              <button
+                onClick={onToggleReadingAid}
+                className={`px-2.5 py-1 rounded-full text-xs font-bold border transition-all ${readingAidOn
+                    ? 'bg-blue-50 text-blue-600 border-blue-200'
+                    : 'bg-white text-slate-400 border-slate-200 hover:text-slate-600'
+                  }`}
+                title={`${readingAidOn ? 'Hide' : 'Show'} ${config.readingAid.label}`}
+                aria-pressed={readingAidOn}
+              >
+                {config.readingAid.label}
+              </button>
+            )}
+
+            {onExport && (
+              <div className="relative">
+                <button
+                  onClick={() => setIsExportOpen(open => !open)}
+                  className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-all"
+                  title="Export Conversation"
+                >
+                  <Download className="w-5 h-5" />
+                </button>
+                {isExportOpen && (
+                  <div className="absolute right-0 mt-2 w-64 bg-white rounded-xl shadow-xl border border-slate-200 py-2 animate-fade-in">
+                    {EXPORT_OPTIONS.map(option => (
+                      <button
+                        key={option.format}
+                        onClick={() => handleExport(option.format)}
+                        disabled={exportingFormat !== null}
+                        className="w-full text-left px-4 py-2 hover:bg-slate-50 transition-colors disabled:opacity-50 flex items-start"
+                      >
+                        <div className="flex-1">
+                          <p className="text-sm font-bold text-slate-700">{option.label}</p>
+                          <p className="text-xs text-slate-400">{option.description}</p>
+                        </div>
+                        {exportingFormat === option.format && <Loader2 className="w-4 h-4 text-blue-500 animate-spin mt-0.5" />}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {user && progress && (
+              <div
+                className={`flex items-center px-2.5 py-1 rounded-full text-xs font-bold border ${progress.today.met
+                    ? 'bg-orange-50 text-orange-600 border-orange-200'
+                    : 'bg-white text-slate-400 border-slate-200'
+                  }`}
+                title={progress.today.met
+                  ? `Goal reached today · ${progress.xp} XP`
+                  : `Reach today's goal to ${progress.streak.current > 0 ? 'extend' : 'start'} your streak · ${progress.xp} XP`}
+              >
+                <Flame className={`w-4 h-4 mr-1 ${progress.streak.current > 0 ? 'text-orange-500' : ''}`} />
+                {progress.streak.current}
+              </div>
+            )}
+
+            {user && onOpenStats && (
+              <button
+                onClick={onOpenStats}
+                className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-all"
+                title="My Progress"
+              >
+                <BarChart3 className="w-5 h-5" />
+              </button>
+            )}
+
             {config && (
               <button
                 onClick={onReset}
@@ -0,0 +1,46 @@
+import React from 'react';
+import { HELPER_LANGUAGES, MAX_HELPER_LANGUAGES } from '../services/helperLanguages';
+
+interface HelperLanguagePickerProps {
+  selected: string[];
+  onChange: (codes: string[]) => void;
+}
+
+// Chips in selection order; the first pick is the main language used for explanations.
+const HelperLanguagePicker: React.FC<HelperLanguagePickerProps> = ({ selected, onChange }) => {
+  const toggle = (code: string) => {
+    if (selected.includes(code)) {
+      if (selected.length > 1) onChange(selected.filter(c => c !== code));
+      return;
+    }
+    if (selected.length < MAX_HELPER_LANGUAGES) onChange([...selected, code]);
+  };
+
+  return (
+    <div className="flex flex-col items-center">
+      <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">
+        Translations &amp; explanations in (up to {MAX_HELPER_LANGUAGES})
+      </p>
+      <div className="flex flex-wrap justify-center gap-1.5 max-w-2xl">
+        {HELPER_LANGUAGES.map(language => {
+          const position = selected.indexOf(language.code);
+          const isSelected = position !== -1;
+          return (
+            <button
+              key={language.code}
+              onClick={() => toggle(language.code)}
+              disabled={!isSelected && selected.length >= MAX_HELPER_LANGUAGES}
+              className={`px-3 py-1 rounded-full text-xs font-bold border transition-all disabled:opacity-40 ${isSelected ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:border-blue-300'}`}
+              title={position === 0 ? 'Main language: explanations are written in it' : undefined}
+            >
+              {isSelected && <span className="mr-1 opacity-70">{position + 1}</span>}
+              {language.name}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default HelperLanguagePicker;
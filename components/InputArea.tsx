@@ -1,14 +1,16 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Mic, AudioLines } from 'lucide-react';
+import { Send, Mic, AudioLines, Headphones } from 'lucide-react';
+import { getRecordingMimeType } from '../services/voiceInput';
 
 interface InputAreaProps {
   onSend: (text: string, audioBlob?: Blob) => void;
   disabled: boolean;
   tutorName?: string;
   languageCode?: string; // Kept for consistency, though native MediaRecorder auto-detects
+  onStartHandsFree?: () => void;
 }
 
-const InputArea: React.FC<InputAreaProps> = ({ onSend, disabled, tutorName = "Tutor" }) => {
+const InputArea: React.FC<InputAreaProps> = ({ onSend, disabled, tutorName = "Tutor", onStartHandsFree }) => {
   const [text, setText] = useState('');
   const [isRecording, setIsRecording] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -46,17 +48,7 @@ const InputArea: React.FC<InputAreaProps> = ({ onSend, disabled, tutorName = "Tu
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
 
-      // Check supported MIME types for Safari compatibility
-      let mimeType = 'audio/webm';
-      if (typeof MediaRecorder !== 'undefined') {
-        if (!MediaRecorder.isTypeSupported('audio/webm')) {
-          if (MediaRecorder.isTypeSupported('audio/mp4')) {
-            mimeType = 'audio/mp4';
-          } else if (MediaRecorder.isTypeSupported('audio/aac')) {
-            mimeType = 'audio/aac';
-          }
-        }
-      }
+      const mimeType = getRecordingMimeType();
       mimeTypeRef.current = mimeType;
 
       const mediaRecorder = new MediaRecorder(stream, { mimeType });
@@ -166,6 +158,16 @@ const InputArea: React.FC<InputAreaProps> = ({ onSend, disabled, tutorName = "Tu
             />
           </div>
 
+          {!isRecording && onStartHandsFree && !text.trim() && (
+            <button
+              onClick={onStartHandsFree}
+              className="p-3 rounded-xl transition-all flex-shrink-0 text-slate-400 hover:bg-white hover:text-blue-600"
+              title="Hands-free conversation"
+            >
+              <Headphones className="w-5 h-5" />
+            </button>
+          )}
+
           {!isRecording && (
             <button
               onClick={handleSend}
@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, Brain, Loader2, Trash2 } from 'lucide-react';
+import { LanguageConfig, LearnerFact, LearnerFactKind, SupportedLanguage, User } from '../types';
+import { fetchLearnerFacts, deleteLearnerFact } from '../services/profileService';
+
+interface LearnerProfileProps {
+  user: User;
+  languageConfigs: Record<SupportedLanguage, LanguageConfig>;
+  onClose: () => void;
+}
+
+const SECTIONS: { kind: LearnerFactKind; title: string; empty: string }[] = [
+  { kind: 'personal', title: 'About you', empty: 'Things you mention about yourself, like your job or your pets.' },
+  { kind: 'learning', title: 'Learning notes', empty: 'What you find hard, and what you are working towards.' },
+];
+
+/**
+ * What the tutors remember about the learner across conversations.
+ * Every fact here is part of each new conversation, so deleting one makes the tutors forget it.
+ */
+const LearnerProfile: React.FC<LearnerProfileProps> = ({ user, languageConfigs, onClose }) => {
+  const [facts, setFacts] = useState<LearnerFact[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    fetchLearnerFacts(user.id)
+      .then(data => { if (!cancelled) setFacts(data); })
+      .catch(err => { if (!cancelled) setError(err.message); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [user.id]);
+
+  const handleDelete = async (fact: LearnerFact) => {
+    setDeletingId(fact.id);
+    setError(null);
+    try {
+      await deleteLearnerFact(user.id, fact.id);
+      setFacts(prev => prev.filter(f => f.id !== fact.id));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-2xl w-full mx-auto animate-fade-in flex flex-col pb-8">
+      <div className="flex items-center justify-between mb-6">
+        <button
+          onClick={onClose}
+          className="flex items-center text-sm font-semibold text-slate-500 hover:text-slate-800 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" /> Languages
+        </button>
+        <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">
+          {facts.length} remembered
+        </span>
+      </div>
+
+      <p className="text-sm text-slate-500 mb-6">
+        Your tutors note things worth remembering as you chat, and bring them up in every language and scenario.
+        Delete anything you would rather they forgot.
+      </p>
+
+      {error && (
+        <div className="mb-4 bg-red-50 text-red-600 p-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="w-8 h-8 text-blue-500 animate-spin" />
+        </div>
+      ) : facts.length === 0 ? (
+        <div className="text-center py-16 bg-white rounded-2xl border border-slate-200 shadow-sm">
+          <Brain className="w-12 h-12 text-slate-300 mx-auto mb-4" />
+          <h3 className="text-xl font-bold text-slate-800 mb-1">Nothing remembered yet</h3>
+          <p className="text-sm text-slate-500">Tell your tutor about yourself and it will show up here.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {SECTIONS.map(section => {
+            const sectionFacts = facts.filter(fact => fact.kind === section.kind);
+            return (
+              <div key={section.kind} className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+                <div className="px-5 py-3 flex items-center justify-between border-b border-slate-100 bg-slate-50">
+                  <h3 className="font-bold text-slate-800">{section.title}</h3>
+                  <span className="text-xs font-bold text-slate-400">{sectionFacts.length}</span>
+                </div>
+                {sectionFacts.length === 0 ? (
+                  <p className="px-5 py-3 text-xs text-slate-400 italic">{section.empty}</p>
+                ) : (
+                  <div className="divide-y divide-slate-100">
+                    {sectionFacts.map(fact => (
+                      <div key={fact.id} className="group px-5 py-3 flex items-center text-sm">
+                        <span className="flex-1 text-slate-700">{fact.text}</span>
+                        {fact.language && languageConfigs[fact.language] && (
+                          <span className="text-base mr-2" title={`Came up in ${languageConfigs[fact.language].name}`}>
+                            {languageConfigs[fact.language].flag}
+                          </span>
+                        )}
+                        <button
+                          onClick={() => handleDelete(fact)}
+                          disabled={deletingId !== null}
+                          className="p-1.5 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-full transition-all disabled:opacity-50"
+                          title="Forget this"
+                        >
+                          {deletingId === fact.id
+                            ? <Loader2 className="w-4 h-4 animate-spin" />
+                            : <Trash2 className="w-4 h-4" />}
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LearnerProfile;
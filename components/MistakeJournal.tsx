@@ -0,0 +1,123 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, Loader2, NotebookPen, Repeat, Sparkles } from 'lucide-react';
+import { LanguageConfig, MistakeGroup, SupportedLanguage, User } from '../types';
+import { fetchMistakes, MISTAKE_CATEGORY_LABELS } from '../services/mistakeService';
+
+interface MistakeJournalProps {
+  user: User;
+  languageConfigs: Record<SupportedLanguage, LanguageConfig>;
+  onClose: () => void;
+}
+
+const MistakeJournal: React.FC<MistakeJournalProps> = ({ user, languageConfigs, onClose }) => {
+  const [languageFilter, setLanguageFilter] = useState<SupportedLanguage | null>(null);
+  const [groups, setGroups] = useState<MistakeGroup[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    fetchMistakes(user.id, languageFilter || undefined)
+      .then(data => {
+        if (cancelled) return;
+        setGroups(data.groups);
+        setTotal(data.mistakes.length);
+      })
+      .catch(err => { if (!cancelled) setError(err.message); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [user.id, languageFilter]);
+
+  return (
+    <div className="max-w-2xl w-full mx-auto animate-fade-in flex flex-col pb-8">
+      <div className="flex items-center justify-between mb-6">
+        <button
+          onClick={onClose}
+          className="flex items-center text-sm font-semibold text-slate-500 hover:text-slate-800 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" /> Languages
+        </button>
+        <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">
+          {total} corrections
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        <button
+          onClick={() => setLanguageFilter(null)}
+          className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-all ${languageFilter === null ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:border-blue-300'}`}
+        >
+          All
+        </button>
+        {(Object.values(languageConfigs) as LanguageConfig[]).map(config => (
+          <button
+            key={config.id}
+            onClick={() => setLanguageFilter(config.id)}
+            className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-all ${languageFilter === config.id ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:border-blue-300'}`}
+          >
+            {config.flag} {config.name}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 text-red-600 p-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="w-8 h-8 text-blue-500 animate-spin" />
+        </div>
+      ) : groups.length === 0 ? (
+        <div className="text-center py-16 bg-white rounded-2xl border border-slate-200 shadow-sm">
+          <NotebookPen className="w-12 h-12 text-slate-300 mx-auto mb-4" />
+          <h3 className="text-xl font-bold text-slate-800 mb-1">No mistakes yet</h3>
+          <p className="text-sm text-slate-500">Corrections from your conversations will be collected here.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {groups.map(group => (
+            <div key={group.category} className="bg-white rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+              <div className="px-5 py-3 flex items-center justify-between border-b border-slate-100 bg-slate-50">
+                <div className="flex items-center space-x-2">
+                  <h3 className="font-bold text-slate-800">{MISTAKE_CATEGORY_LABELS[group.category]}</h3>
+                  {group.recurring && (
+                    <span className="inline-flex items-center text-[10px] uppercase tracking-wider bg-orange-100 text-orange-600 px-1.5 py-0.5 rounded-full font-bold">
+                      <Repeat className="w-3 h-3 mr-1" /> Recurring
+                    </span>
+                  )}
+                </div>
+                <span className="text-xs font-bold text-slate-400">
+                  {group.count}× in {group.sessionCount || 1} session{group.sessionCount === 1 ? '' : 's'}
+                </span>
+              </div>
+              <div className="divide-y divide-slate-100">
+                {group.examples.map(example => (
+                  <div key={example.id} className="px-5 py-3 text-sm">
+                    {example.original_text && (
+                      <span className="text-red-500 line-through opacity-60 mr-2">{example.original_text}</span>
+                    )}
+                    <span className="text-green-700 font-bold">{example.corrected_text}</span>
+                    {example.explanation && (
+                      <p className="text-xs text-slate-500 italic mt-1 flex items-start">
+                        <Sparkles className="w-3 h-3 mr-1 mt-0.5 text-orange-400 flex-shrink-0" />
+                        {example.explanation}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MistakeJournal;
@@ -0,0 +1,224 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, CheckCircle2, Compass, Loader2, XCircle } from 'lucide-react';
+import ChatBubble from './ChatBubble';
+import InputArea from './InputArea';
+import { CefrLevel, LanguageConfig, Message, PlacementItem, PlacementResult, Sender, SupportedLanguage } from '../types';
+import { startPlacement, answerPlacement } from '../services/placementService';
+import { blobToBase64, setSpeechVoice } from '../services/geminiService';
+import { CEFR_LEVELS } from '../services/profileService';
+
+interface PlacementTestProps {
+  languageConfigs: Record<SupportedLanguage, LanguageConfig>;
+  onComplete: (language: SupportedLanguage, level: CefrLevel) => void;
+  onClose: () => void;
+}
+
+// One answered (or current) item, with the learner's answer as shown in the chat
+interface PlacementTurn {
+  item: PlacementItem;
+  answer?: Message;
+  result?: PlacementResult;
+}
+
+const itemToMessage = (item: PlacementItem): Message => ({
+  id: `placement-${item.id}`,
+  sender: Sender.TUTOR,
+  text: item.prompt,
+  timestamp: Date.now(),
+  tutorResponse: { targetText: item.prompt, translations: { en: item.question } },
+});
+
+const PlacementTest: React.FC<PlacementTestProps> = ({ languageConfigs, onComplete, onClose }) => {
+  const [language, setLanguage] = useState<SupportedLanguage | null>(null);
+  const [testId, setTestId] = useState<string | null>(null);
+  const [turns, setTurns] = useState<PlacementTurn[]>([]);
+  const [results, setResults] = useState<PlacementResult[]>([]);
+  const [recommendedLevel, setRecommendedLevel] = useState<CefrLevel | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  const config = language ? languageConfigs[language] : null;
+  const current = turns[turns.length - 1];
+  const awaitingAnswer = Boolean(current && !current.answer && !recommendedLevel);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [turns, recommendedLevel]);
+
+  const startTest = async (selected: SupportedLanguage) => {
+    setLanguage(selected);
+    setSpeechVoice(languageConfigs[selected].voiceName);
+    setTestId(null);
+    setTurns([]);
+    setResults([]);
+    setRecommendedLevel(null);
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const step = await startPlacement(selected);
+      setTestId(step.testId);
+      if (step.nextItem) setTurns([{ item: step.nextItem }]);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAnswer = async (text: string, audioBlob?: Blob) => {
+    if (!testId || !current || isLoading) return;
+    setError(null);
+
+    const answer: Message = {
+      id: `placement-${current.item.id}-answer`,
+      sender: Sender.USER,
+      text,
+      timestamp: Date.now(),
+      userAudioUrl: audioBlob ? URL.createObjectURL(audioBlob) : undefined,
+    };
+    setTurns(prev => prev.map(turn => turn === current ? { ...turn, answer } : turn));
+    setIsLoading(true);
+
+    try {
+      const audioData = audioBlob ? await blobToBase64(audioBlob) : undefined;
+      const step = await answerPlacement(testId, {
+        answer: text || undefined,
+        audioData,
+        audioMimeType: audioBlob?.type,
+      });
+
+      setResults(step.results);
+      setTurns(prev => {
+        const scored = prev.map(turn => turn.item.id === current.item.id ? { ...turn, answer, result: step.result || undefined } : turn);
+        return step.nextItem ? [...scored, { item: step.nextItem }] : scored;
+      });
+      if (step.done && step.recommendedLevel) setRecommendedLevel(step.recommendedLevel);
+    } catch (err: any) {
+      // Let the learner answer the same item again
+      setTurns(prev => prev.map(turn => turn.item.id === current.item.id ? { item: turn.item } : turn));
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const recommendedLabel = CEFR_LEVELS.find(option => option.level === recommendedLevel)?.label;
+
+  return (
+    <div className="max-w-3xl w-full mx-auto animate-fade-in flex flex-col pb-8">
+      <div className="flex items-center justify-between mb-6">
+        <button
+          onClick={onClose}
+          className="flex items-center text-sm font-semibold text-slate-500 hover:text-slate-800 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" /> Languages
+        </button>
+        {config && (
+          <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">
+            {config.flag} {results.length} answered
+          </span>
+        )}
+      </div>
+
+      {!language ? (
+        <div className="text-center py-10 bg-white rounded-2xl border border-slate-200 shadow-sm px-6">
+          <Compass className="w-12 h-12 text-blue-500 mx-auto mb-4" />
+          <h3 className="text-xl font-bold text-slate-800 mb-1">Find your level</h3>
+          <p className="text-sm text-slate-500 mb-6">
+            A few short questions that get harder or easier as you go. Answer by typing or holding the mic.
+          </p>
+          <div className="flex flex-wrap justify-center gap-2">
+            {(Object.values(languageConfigs) as LanguageConfig[]).map(option => (
+              <button
+                key={option.id}
+                onClick={() => startTest(option.id)}
+                className="px-4 py-2 rounded-full text-sm font-bold border bg-white text-slate-600 border-slate-200 hover:border-blue-400 hover:text-blue-600 transition-all"
+              >
+                {option.flag} {option.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <>
+          {turns.map(turn => (
+            <div key={turn.item.id}>
+              <ChatBubble message={itemToMessage(turn.item)} languageConfig={config || undefined} glossEnabled={false} />
+              <div className="-mt-5 mb-6 ml-2 bg-blue-50 border border-blue-100 rounded-xl px-4 py-3 text-sm text-blue-800 font-medium max-w-[92%]">
+                <span className="text-[10px] font-bold uppercase tracking-wider text-blue-400 mr-2">
+                  {turn.item.type === 'comprehension' ? 'Understand' : 'Respond'}
+                </span>
+                {turn.item.question}
+              </div>
+              {turn.answer && <ChatBubble message={turn.answer} languageConfig={config || undefined} />}
+              {turn.result && (
+                <div className={`-mt-4 mb-8 ml-auto max-w-[85%] rounded-xl border px-4 py-3 text-sm ${turn.result.correct ? 'bg-green-50 border-green-200 text-green-800' : 'bg-orange-50 border-orange-200 text-orange-800'}`}>
+                  <div className="flex items-start">
+                    {turn.result.correct
+                      ? <CheckCircle2 className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                      : <XCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />}
+                    <div>
+                      <p>{turn.result.feedback}</p>
+                      {!turn.result.correct && turn.result.expected && (
+                        <p className="mt-1 font-semibold">{turn.result.expected}</p>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+
+          {isLoading && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 text-blue-500 animate-spin" />
+            </div>
+          )}
+
+          {error && (
+            <div className="mb-4 bg-red-50 text-red-600 p-3 rounded-lg text-sm">{error}</div>
+          )}
+
+          {recommendedLevel && config && (
+            <div className="text-center py-8 bg-white rounded-2xl border border-slate-200 shadow-sm px-6">
+              <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Recommended level</p>
+              <p className="text-4xl font-bold text-blue-600 mb-1">{recommendedLevel}</p>
+              <p className="text-sm text-slate-500 mb-6">{recommendedLabel} · {config.name}</p>
+              <div className="flex justify-center gap-3">
+                <button
+                  onClick={() => startTest(config.id)}
+                  className="px-5 py-2.5 rounded-full text-sm font-bold border border-slate-200 text-slate-600 hover:border-blue-400 hover:text-blue-600 transition-all"
+                >
+                  Retake
+                </button>
+                <button
+                  onClick={() => onComplete(config.id, recommendedLevel)}
+                  className="px-5 py-2.5 rounded-full text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 shadow-sm transition-all"
+                >
+                  Start at {recommendedLevel}
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div ref={endRef} />
+
+          {awaitingAnswer && config && (
+            <div className="sticky bottom-0 mt-4 rounded-2xl overflow-hidden shadow-lg">
+              <InputArea
+                onSend={handleAnswer}
+                disabled={isLoading}
+                tutorName={config.tutorName}
+                languageCode={config.speechCode}
+              />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PlacementTest;
@@ -0,0 +1,250 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, BarChart3, Loader2 } from 'lucide-react';
+import { LanguageConfig, LanguageStats, ProgressStats, StatsDay, SupportedLanguage, User } from '../types';
+import { fetchStats, STATS_RANGES } from '../services/statsService';
+import { MISTAKE_CATEGORY_LABELS } from '../services/mistakeService';
+
+interface ProgressDashboardProps {
+  user: User;
+  languageConfigs: Record<SupportedLanguage, LanguageConfig>;
+  onClose: () => void;
+}
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+const ChartCard: React.FC<{ title: string; summary: string; children: React.ReactNode }> = ({ title, summary, children }) => (
+  <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-5">
+    <div className="flex items-baseline justify-between mb-4">
+      <h3 className="font-bold text-slate-800">{title}</h3>
+      <span className="text-xs font-bold text-slate-400">{summary}</span>
+    </div>
+    {children}
+  </div>
+);
+
+// One bar per day; the first and last dates label the axis
+const DailyBars: React.FC<{ daily: StatsDay[]; value: (day: StatsDay) => number; unit: string; color: string }> = ({ daily, value, unit, color }) => {
+  const max = Math.max(...daily.map(value), 1);
+  return (
+    <div>
+      <div className="flex items-end h-32 gap-px">
+        {daily.map(day => (
+          <div key={day.date} className="flex-1 h-full flex items-end" title={`${formatDay(day.date)}: ${value(day)} ${unit}`}>
+            <div className={`w-full rounded-t-sm ${color}`} style={{ height: `${(value(day) / max) * 100}%`, minHeight: value(day) > 0 ? 2 : 0 }} />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between mt-2 text-[10px] font-bold text-slate-400">
+        <span>{formatDay(daily[0].date)}</span>
+        <span>{formatDay(daily[daily.length - 1].date)}</span>
+      </div>
+    </div>
+  );
+};
+
+// Corrections per turn; days without turns leave a gap in the line
+const MistakeRateLine: React.FC<{ daily: StatsDay[] }> = ({ daily }) => {
+  const max = Math.max(...daily.map(day => day.mistakeRate || 0), 1);
+  const x = (i: number) => (daily.length === 1 ? 50 : (i / (daily.length - 1)) * 100);
+  const y = (rate: number) => 100 - (rate / max) * 100;
+
+  // Runs of consecutive days with turns
+  const segments: { x: number; y: number }[][] = [[]];
+  daily.forEach((day, i) => {
+    if (day.mistakeRate === null) {
+      if (segments[segments.length - 1].length > 0) segments.push([]);
+    } else {
+      segments[segments.length - 1].push({ x: x(i), y: y(day.mistakeRate) });
+    }
+  });
+
+  return (
+    <div>
+      <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="w-full h-32 overflow-visible">
+        <line x1="0" y1="100" x2="100" y2="100" className="stroke-slate-200" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+        {segments.filter(points => points.length > 0).map((points, i) => (
+          points.length === 1 ? (
+            <circle key={i} cx={points[0].x} cy={points[0].y} r="1.5" className="fill-orange-500" />
+          ) : (
+            <polyline
+              key={i}
+              points={points.map(p => `${p.x},${p.y}`).join(' ')}
+              fill="none"
+              className="stroke-orange-500"
+              strokeWidth="2"
+              vectorEffect="non-scaling-stroke"
+            />
+          )
+        ))}
+      </svg>
+      <div className="flex justify-between mt-2 text-[10px] font-bold text-slate-400">
+        <span>{formatDay(daily[0].date)}</span>
+        <span>up to {max.toFixed(1)} per turn</span>
+        <span>{formatDay(daily[daily.length - 1].date)}</span>
+      </div>
+    </div>
+  );
+};
+
+const RankedBars: React.FC<{ rows: { key: string; label: string; count: number }[]; color: string; empty: string }> = ({ rows, color, empty }) => {
+  if (rows.length === 0) return <p className="text-sm text-slate-400 italic">{empty}</p>;
+  const max = Math.max(...rows.map(row => row.count));
+  return (
+    <div className="space-y-2">
+      {rows.map(row => (
+        <div key={row.key} className="text-sm">
+          <div className="flex justify-between mb-1">
+            <span className="text-slate-700 font-medium truncate mr-2">{row.label}</span>
+            <span className="text-slate-400 font-bold">{row.count}</span>
+          </div>
+          <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+            <div className={`h-full rounded-full ${color}`} style={{ width: `${(row.count / max) * 100}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const LanguageProgress: React.FC<{ stats: LanguageStats }> = ({ stats }) => {
+  const { totals, daily } = stats;
+  const tiles = [
+    { label: 'Turns', value: totals.turns },
+    { label: 'Voice minutes', value: totals.voiceMinutes },
+    { label: 'Active days', value: totals.activeDays },
+    { label: 'Corrections per turn', value: totals.mistakeRate === null ? '–' : totals.mistakeRate.toFixed(2) },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {tiles.map(tile => (
+          <div key={tile.label} className="bg-white rounded-2xl border border-slate-200 shadow-sm p-4 text-center">
+            <p className="text-2xl font-bold text-slate-800">{tile.value}</p>
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mt-1">{tile.label}</p>
+          </div>
+        ))}
+      </div>
+
+      <ChartCard title="Turns per day" summary={`${totals.turns} total`}>
+        <DailyBars daily={daily} value={day => day.turns} unit="turns" color="bg-blue-500" />
+      </ChartCard>
+
+      <ChartCard title="Voice practice" summary={`≈ ${totals.voiceMinutes} min`}>
+        <DailyBars daily={daily} value={day => day.voiceMinutes} unit="min" color="bg-emerald-500" />
+      </ChartCard>
+
+      <ChartCard title="Mistake rate" summary={`${totals.mistakes} corrections`}>
+        <MistakeRateLine daily={daily} />
+      </ChartCard>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <ChartCard title="Scenarios" summary={`${totals.scenarios} covered`}>
+          <RankedBars
+            rows={stats.scenarios.map(s => ({ key: s.id, label: s.title, count: s.turns }))}
+            color="bg-blue-400"
+            empty="No scenarios yet."
+          />
+        </ChartCard>
+        <ChartCard title="Frequent errors" summary={`${stats.errorTypes.length} types`}>
+          <RankedBars
+            rows={stats.errorTypes.slice(0, 6).map(e => ({ key: e.category, label: MISTAKE_CATEGORY_LABELS[e.category] || e.category, count: e.count }))}
+            color="bg-orange-400"
+            empty="No corrections in this period."
+          />
+        </ChartCard>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * The learner's progress per language over the last week, month or quarter,
+ * aggregated by the server from their turns and corrections.
+ */
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ user, languageConfigs, onClose }) => {
+  const [days, setDays] = useState(30);
+  const [stats, setStats] = useState<ProgressStats | null>(null);
+  const [language, setLanguage] = useState<SupportedLanguage | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    fetchStats(user.id, days)
+      .then(data => {
+        if (cancelled) return;
+        setStats(data);
+        // Keep the selected language if it still has activity, otherwise show the busiest one
+        setLanguage(current => (data.languages.some(l => l.language === current) ? current : data.languages[0]?.language || null));
+      })
+      .catch(err => { if (!cancelled) setError(err.message); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [user.id, days]);
+
+  const selected = stats?.languages.find(l => l.language === language);
+
+  return (
+    <div className="max-w-2xl w-full mx-auto animate-fade-in flex flex-col pb-8">
+      <div className="flex items-center justify-between mb-6">
+        <button
+          onClick={onClose}
+          className="flex items-center text-sm font-semibold text-slate-500 hover:text-slate-800 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" /> Languages
+        </button>
+        <div className="flex bg-white border border-slate-200 rounded-full p-0.5">
+          {STATS_RANGES.map(range => (
+            <button
+              key={range}
+              onClick={() => setDays(range)}
+              className={`px-3 py-1 rounded-full text-xs font-bold transition-all ${days === range ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {range} days
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {stats && stats.languages.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-6">
+          {stats.languages.map(l => (
+            <button
+              key={l.language}
+              onClick={() => setLanguage(l.language)}
+              className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-all ${language === l.language ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:border-blue-300'}`}
+            >
+              {languageConfigs[l.language]?.flag} {languageConfigs[l.language]?.name || l.language}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 bg-red-50 text-red-600 p-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="w-8 h-8 text-blue-500 animate-spin" />
+        </div>
+      ) : selected ? (
+        <LanguageProgress stats={selected} />
+      ) : !error && (
+        <div className="text-center py-16 bg-white rounded-2xl border border-slate-200 shadow-sm">
+          <BarChart3 className="w-12 h-12 text-slate-300 mx-auto mb-4" />
+          <h3 className="text-xl font-bold text-slate-800 mb-1">No practice in the last {days} days</h3>
+          <p className="text-sm text-slate-500">Have a conversation and your progress will show up here.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProgressDashboard;
@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, Eye, Loader2, CheckCircle2, Layers } from 'lucide-react';
+import { LanguageConfig, ReviewQuality, SupportedLanguage, User, VocabItem } from '../types';
+import { fetchDueReviews, submitReview } from '../services/vocabService';
+
+interface ReviewSessionProps {
+  user: User;
+  languageConfigs: Record<SupportedLanguage, LanguageConfig>;
+  onClose: () => void;
+}
+
+const GRADE_OPTIONS: { quality: ReviewQuality; label: string; className: string }[] = [
+  { quality: 1, label: 'Again', className: 'bg-red-50 text-red-600 border-red-200 hover:bg-red-100' },
+  { quality: 3, label: 'Hard', className: 'bg-orange-50 text-orange-600 border-orange-200 hover:bg-orange-100' },
+  { quality: 4, label: 'Good', className: 'bg-blue-50 text-blue-600 border-blue-200 hover:bg-blue-100' },
+  { quality: 5, label: 'Easy', className: 'bg-green-50 text-green-600 border-green-200 hover:bg-green-100' },
+];
+
+const ReviewSession: React.FC<ReviewSessionProps> = ({ user, languageConfigs, onClose }) => {
+  const [languageFilter, setLanguageFilter] = useState<SupportedLanguage | null>(null);
+  const [queue, setQueue] = useState<VocabItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    fetchDueReviews(user.id, languageFilter || undefined)
+      .then(items => { if (!cancelled) setQueue(items); })
+      .catch(err => { if (!cancelled) setError(err.message); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [user.id, languageFilter]);
+
+  const current = queue[0];
+
+  const handleGrade = async (quality: ReviewQuality) => {
+    if (!current || isSubmitting) return;
+    setIsSubmitting(true);
+
+    try {
+      await submitReview(user.id, current.id, quality);
+      setQueue(prev => {
+        const [head, ...rest] = prev;
+        // Failed cards come back at the end of this session
+        return quality < 3 ? [...rest, head] : rest;
+      });
+      setReviewedCount(prev => prev + 1);
+      setShowAnswer(false);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-2xl w-full mx-auto animate-fade-in flex flex-col pb-8">
+      <div className="flex items-center justify-between mb-6">
+        <button
+          onClick={onClose}
+          className="flex items-center text-sm font-semibold text-slate-500 hover:text-slate-800 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" /> Languages
+        </button>
+        <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">
+          {reviewedCount} reviewed • {queue.length} due
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        <button
+          onClick={() => setLanguageFilter(null)}
+          className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-all ${languageFilter === null ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:border-blue-300'}`}
+        >
+          All
+        </button>
+        {(Object.values(languageConfigs) as LanguageConfig[]).map(config => (
+          <button
+            key={config.id}
+            onClick={() => setLanguageFilter(config.id)}
+            className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-all ${languageFilter === config.id ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:border-blue-300'}`}
+          >
+            {config.flag} {config.name}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 text-red-600 p-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="w-8 h-8 text-blue-500 animate-spin" />
+        </div>
+      ) : !current ? (
+        <div className="text-center py-16 bg-white rounded-2xl border border-slate-200 shadow-sm">
+          <CheckCircle2 className="w-12 h-12 text-green-500 mx-auto mb-4" />
+          <h3 className="text-xl font-bold text-slate-800 mb-1">All caught up!</h3>
+          <p className="text-sm text-slate-500">Save words and phrases from your conversations to build your deck.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden">
+          <div className="p-8 text-center">
+            <p className="text-xs font-bold text-blue-600 uppercase tracking-widest mb-4 flex items-center justify-center">
+              <Layers className="w-3 h-3 mr-1" />
+              {languageConfigs[current.language]?.flag} {current.language}
+            </p>
+            <p className="text-2xl font-medium text-slate-800 leading-relaxed mb-6">{current.text}</p>
+
+            {showAnswer ? (
+              <p className="text-slate-600 leading-relaxed animate-fade-in">
+                {current.translation || <span className="italic text-slate-400">No translation saved</span>}
+              </p>
+            ) : (
+              <button
+                onClick={() => setShowAnswer(true)}
+                className="inline-flex items-center px-4 py-2 bg-slate-50 border border-dashed border-slate-300 rounded-xl text-sm font-bold text-slate-500 hover:border-blue-300 hover:text-blue-600 transition-all"
+              >
+                <Eye className="w-4 h-4 mr-2" /> Show answer
+              </button>
+            )}
+          </div>
+
+          {showAnswer && (
+            <div className="grid grid-cols-4 gap-2 p-4 bg-slate-50 border-t border-slate-100">
+              {GRADE_OPTIONS.map(option => (
+                <button
+                  key={option.quality}
+                  onClick={() => handleGrade(option.quality)}
+                  disabled={isSubmitting}
+                  className={`py-2 rounded-xl border text-sm font-bold transition-all disabled:opacity-50 ${option.className}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewSession;
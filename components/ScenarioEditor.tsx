@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { X, Loader2, Save, AlertCircle } from 'lucide-react';
+import { CefrLevel, ScenarioDefinition, ScenarioDraft, ScenarioIcon } from '../types';
+import { SCENARIO_ICONS } from './scenarioIcons';
+
+interface ScenarioEditorProps {
+  scenario?: ScenarioDefinition | null; // Omit to create a new one
+  onSave: (draft: ScenarioDraft) => Promise<void>;
+  onClose: () => void;
+}
+
+const LEVELS: CefrLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+const inputClassName = "w-full px-3 py-2 border border-slate-300 rounded-xl focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all outline-none text-sm";
+
+const ScenarioEditor: React.FC<ScenarioEditorProps> = ({ scenario, onSave, onClose }) => {
+  const [title, setTitle] = useState(scenario?.title || '');
+  const [description, setDescription] = useState(scenario?.description || '');
+  const [setting, setSetting] = useState(scenario?.setting || '');
+  const [tutorRole, setTutorRole] = useState(scenario?.tutorRole || '');
+  const [goals, setGoals] = useState((scenario?.goals || []).join('\n'));
+  const [targetVocabulary, setTargetVocabulary] = useState((scenario?.targetVocabulary || []).join(', '));
+  const [level, setLevel] = useState<CefrLevel>(scenario?.level || 'A2');
+  const [icon, setIcon] = useState<ScenarioIcon>(scenario?.icon || 'message');
+  const [isPublic, setIsPublic] = useState(scenario?.isPublic || false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await onSave({
+        title,
+        description,
+        setting,
+        tutorRole,
+        goals: goals.split('\n').map(g => g.trim()).filter(Boolean),
+        targetVocabulary: targetVocabulary.split(',').map(v => v.trim()).filter(Boolean),
+        level,
+        icon,
+        isPublic
+      });
+      onClose();
+    } catch (err: any) {
+      setError(err.message || "Failed to save scenario");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full overflow-hidden">
+        <div className="px-6 py-4 flex items-center justify-between border-b border-slate-100 bg-slate-50">
+          <h3 className="text-lg font-bold text-slate-800">
+            {scenario ? 'Edit Scenario' : 'New Scenario'}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4 max-h-[75vh] overflow-y-auto">
+          {error && (
+            <div className="bg-red-50 text-red-600 p-3 rounded-lg text-sm flex items-start">
+              <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Title</label>
+            <input required maxLength={80} value={title} onChange={(e) => setTitle(e.target.value)} className={inputClassName} placeholder="Job interview" />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Short description</label>
+            <input maxLength={200} value={description} onChange={(e) => setDescription(e.target.value)} className={inputClassName} placeholder="Talk about your experience" />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Setting</label>
+            <textarea rows={2} value={setting} onChange={(e) => setSetting(e.target.value)} className={inputClassName} placeholder="A small design agency, second-round interview" />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Tutor's role</label>
+            <input value={tutorRole} onChange={(e) => setTutorRole(e.target.value)} className={inputClassName} placeholder="The hiring manager" />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Learner goals (one per line)</label>
+            <textarea rows={3} value={goals} onChange={(e) => setGoals(e.target.value)} className={inputClassName} placeholder={"Describe past jobs\nAsk about the team"} />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Target vocabulary (comma separated)</label>
+            <input value={targetVocabulary} onChange={(e) => setTargetVocabulary(e.target.value)} className={inputClassName} placeholder="CV, salary, strengths" />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Difficulty</label>
+            <div className="flex flex-wrap gap-2">
+              {LEVELS.map(option => (
+                <button
+                  type="button"
+                  key={option}
+                  onClick={() => setLevel(option)}
+                  className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-all ${level === option ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:border-blue-300'}`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Icon</label>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(SCENARIO_ICONS) as ScenarioIcon[]).map(name => {
+                const Icon = SCENARIO_ICONS[name];
+                return (
+                  <button
+                    type="button"
+                    key={name}
+                    onClick={() => setIcon(name)}
+                    className={`w-9 h-9 rounded-full flex items-center justify-center border transition-all ${icon === name ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:border-blue-300'}`}
+                    title={name}
+                  >
+                    <Icon className="w-4 h-4" />
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-slate-700">
+            <input type="checkbox" checked={isPublic} onChange={(e) => setIsPublic(e.target.checked)} className="rounded border-slate-300" />
+            <span>Visible to all learners</span>
+          </label>
+
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="w-full bg-blue-600 text-white py-3 rounded-xl font-semibold shadow-lg shadow-blue-600/20 hover:bg-blue-700 transition-all active:scale-[0.98] flex items-center justify-center"
+          >
+            {isSaving ? <Loader2 className="w-5 h-5 animate-spin" /> : <>Save Scenario <Save className="w-4 h-4 ml-2" /></>}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioEditor;
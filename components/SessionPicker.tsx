@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { Archive, ArchiveRestore, ArrowLeft, Check, ChevronDown, Loader2, MessageSquare, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { ChatSession, ScenarioDefinition, User } from '../types';
+import { updateSession, deleteSession, MAX_SESSION_TITLE_LENGTH } from '../services/sessionService';
+
+interface SessionPickerProps {
+  user: User;
+  scenario: ScenarioDefinition;
+  sessions: ChatSession[];
+  onResume: (session: ChatSession) => void;
+  onStartNew: () => void;
+  onClose: () => void;
+}
+
+const formatWhen = (iso: string) => new Date(iso).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Lists the learner's saved conversations for one scenario: resume one, start a
+ * new one, or rename, archive and delete them.
+ */
+const SessionPicker: React.FC<SessionPickerProps> = ({ user, scenario, sessions: initialSessions, onResume, onStartNew, onClose }) => {
+  const [sessions, setSessions] = useState<ChatSession[]>(initialSessions);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const active = sessions.filter(session => !session.archived);
+  const archived = sessions.filter(session => session.archived);
+
+  const run = async (session: ChatSession, action: () => Promise<void>) => {
+    setBusyId(session.id);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const startRename = (session: ChatSession) => {
+    setEditingId(session.id);
+    setDraftTitle(session.title || '');
+  };
+
+  const saveRename = (session: ChatSession) => run(session, async () => {
+    const updated = await updateSession(user.id, session.id, { title: draftTitle });
+    setSessions(prev => prev.map(s => s.id === session.id ? { ...s, title: updated.title } : s));
+    setEditingId(null);
+  });
+
+  const toggleArchived = (session: ChatSession) => run(session, async () => {
+    const updated = await updateSession(user.id, session.id, { archived: !session.archived });
+    setSessions(prev => prev.map(s => s.id === session.id ? { ...s, archived: updated.archived } : s));
+  });
+
+  const remove = (session: ChatSession) => {
+    if (!window.confirm(`Delete "${session.title || session.preview || 'this conversation'}" for good?`)) return;
+    run(session, async () => {
+      await deleteSession(user.id, session.id);
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+    });
+  };
+
+  const renderSession = (session: ChatSession) => {
+    const isBusy = busyId === session.id;
+    const isEditing = editingId === session.id;
+
+    return (
+      <div key={session.id} className="group flex items-center bg-white border border-slate-200 rounded-xl p-3 pl-4 hover:border-blue-300 transition-all">
+        {isEditing ? (
+          <form
+            className="flex-1 flex items-center space-x-2 min-w-0"
+            onSubmit={(e) => { e.preventDefault(); saveRename(session); }}
+          >
+            <input
+              autoFocus
+              value={draftTitle}
+              onChange={(e) => setDraftTitle(e.target.value)}
+              maxLength={MAX_SESSION_TITLE_LENGTH}
+              placeholder={session.preview || 'Conversation name'}
+              className="flex-1 min-w-0 px-3 py-1.5 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button type="submit" disabled={isBusy} className="p-1.5 rounded-full text-blue-600 hover:bg-blue-50" title="Save name">
+              {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+            </button>
+            <button type="button" onClick={() => setEditingId(null)} className="p-1.5 rounded-full text-slate-400 hover:bg-slate-100" title="Cancel">
+              <X className="w-4 h-4" />
+            </button>
+          </form>
+        ) : (
+          <>
+            <button
+              onClick={() => onResume(session)}
+              disabled={isBusy}
+              className="flex-1 flex items-center text-left min-w-0"
+              title="Resume this conversation"
+            >
+              <MessageSquare className="w-5 h-5 text-blue-500 mr-3 flex-shrink-0" />
+              <div className="min-w-0">
+                <p className="font-semibold text-slate-800 truncate">{session.title || session.preview || 'Untitled conversation'}</p>
+                <p className="text-xs text-slate-400 truncate">
+                  {formatWhen(session.updatedAt)} · {session.messageCount} message{session.messageCount === 1 ? '' : 's'}
+                </p>
+              </div>
+            </button>
+            <div className="flex items-center space-x-1 ml-2 flex-shrink-0 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+              {isBusy ? (
+                <Loader2 className="w-4 h-4 text-blue-500 animate-spin m-1.5" />
+              ) : (
+                <>
+                  <button onClick={() => startRename(session)} className="p-1.5 rounded-full text-slate-400 hover:text-blue-600 hover:bg-blue-50" title="Rename">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => toggleArchived(session)} className="p-1.5 rounded-full text-slate-400 hover:text-blue-600 hover:bg-blue-50" title={session.archived ? 'Restore' : 'Archive'}>
+                    {session.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                  </button>
+                  <button onClick={() => remove(session)} className="p-1.5 rounded-full text-slate-400 hover:text-red-600 hover:bg-red-50" title="Delete">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-full max-w-2xl px-4 animate-fade-in">
+      <div className="flex items-center justify-between mb-4">
+        <button
+          onClick={onClose}
+          className="flex items-center text-sm font-semibold text-slate-500 hover:text-slate-800 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" /> Scenarios
+        </button>
+        <span className="text-xs font-bold text-slate-400 uppercase tracking-widest truncate ml-4">{scenario.title}</span>
+      </div>
+
+      <button
+        onClick={onStartNew}
+        className="w-full flex items-center justify-center p-4 mb-4 bg-blue-600 hover:bg-blue-700 text-white rounded-xl font-bold shadow-md transition-all"
+      >
+        <Plus className="w-5 h-5 mr-2" /> New conversation
+      </button>
+
+      {error && (
+        <div className="mb-4 bg-red-50 text-red-600 p-3 rounded-lg text-sm">{error}</div>
+      )}
+
+      <div className="space-y-2">
+        {active.map(renderSession)}
+        {active.length === 0 && (
+          <p className="text-sm text-slate-400 text-center py-4">No open conversations. Start a new one above.</p>
+        )}
+      </div>
+
+      {archived.length > 0 && (
+        <div className="mt-6">
+          <button
+            onClick={() => setShowArchived(prev => !prev)}
+            className="flex items-center text-xs font-bold text-slate-400 uppercase tracking-widest hover:text-slate-600 mb-2"
+          >
+            <ChevronDown className={`w-4 h-4 mr-1 transition-transform ${showArchived ? '' : '-rotate-90'}`} />
+            Archived ({archived.length})
+          </button>
+          {showArchived && <div className="space-y-2 opacity-75">{archived.map(renderSession)}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionPicker;
@@ -0,0 +1,17 @@
+import { BookOpen, Briefcase, Coffee, Home, LucideIcon, MessageCircle, Plane, ShoppingBag, Sparkles, Stethoscope, Train, Users, Utensils } from 'lucide-react';
+import { ScenarioIcon } from '../types';
+
+export const SCENARIO_ICONS: Record<ScenarioIcon, LucideIcon> = {
+  'sparkles': Sparkles,
+  'coffee': Coffee,
+  'plane': Plane,
+  'book': BookOpen,
+  'briefcase': Briefcase,
+  'stethoscope': Stethoscope,
+  'shopping-bag': ShoppingBag,
+  'home': Home,
+  'utensils': Utensils,
+  'train': Train,
+  'users': Users,
+  'message': MessageCircle,
+};
@@ -1,57 +1,132 @@
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import { GoogleGenAI, Modality } from '@google/genai';
 import { initSupabase, createScopedSupabase } from './supabase.js';
+import { createCardSchedule, scheduleReview, isReviewQuality, validateVocabItem } from './srs.js';
+import { MISTAKE_CATEGORIES, normalizeCategory, groupMistakes } from './mistakes.js';
+import { openSseStream, writeSseEvent, extractPartialString } from './streaming.js';
+import { createTtsCacheKey, createTtsStoreFromEnv } from './ttsCache.js';
+import { createAudioStoreFromEnv, audioContentTypeFor } from './audioStorage.js';
+import { createProviderFromEnv, CHAT_TASKS, REPLY_FIELDS } from './providers/index.js';
+import {
+    BUILT_IN_SCENARIOS, findBuiltInScenario, validateScenario,
+    toScenarioRow, fromScenarioRow, describeScenario
+} from './scenarios.js';
+import { isCefrLevel, describeLevel } from './proficiency.js';
+import { normalizePronunciation } from './pronunciation.js';
+import {
+    HELPER_LANGUAGES, normalizeHelperLanguages, normalizeTutorResponse,
+    describeHelperLanguages, translationsSchema
+} from './helperLanguages.js';
+import { findLanguage, listLanguages, describeLanguageRules } from './languages.js';
+import { readingSchema, describeReadingAid } from './readingAids.js';
+import {
+    MAX_GLOSS_WORD_LENGTH, MAX_GLOSS_SENTENCE_LENGTH, createGlossCacheKey,
+    buildGlossInstruction, buildGlossContent, normalizeGloss, createGlossStoreFromEnv
+} from './gloss.js';
+import { buildExport, historyRowsToMessages, sanitizeMessages, EXPORT_FORMATS } from './exporters.js';
+import { createUsageLimiterFromEnv, rateLimit } from './rateLimit.js';
+import { createTokenVerifierFromEnv, authenticate } from './auth.js';
+import {
+    isSessionId, validateSessionUpdate, sessionPreview, fromSessionRow, recordingKeys,
+    SESSION_COLUMNS, MAX_LISTED_SESSIONS
+} from './sessions.js';
+import {
+    REPLY_ERROR_CODES, parseModelJson, checkTutorReply, buildRepairContents, degradedReply, logReplyFailure
+} from './tutorReply.js';
+import {
+    readMemoryConfig, maxContextTurns, turnsToSummarize, buildSummaryInstruction,
+    buildSummaryContent, normalizeSummary, describeMemory
+} from './memory.js';
+import {
+    normalizeProfileUpdates, newLearnerFacts, describeLearnerProfile, profileUpdatesSchema,
+    describeProfileUpdates, MAX_PROMPT_FACTS
+} from './learnerProfile.js';
+import { buildStats, readStatsDays, statsWindowStart, isTimeZone, dayKey, STATS_PAGE_SIZE } from './stats.js';
+import {
+    validateGoal, readGoal, turnActivity, summarizeProgress, completionSchema, describeCompletion
+} from './progress.js';
+import {
+    PLACEMENT_LENGTH, START_LEVEL, MAX_PLACEMENT_ANSWER_LENGTH, stepLevel, itemTypeFor, recommendLevel,
+    buildScoringInstruction, buildItemInstruction, createPlacementStore, publicItem, publicResult
+} from './placement.js';
 
 dotenv.config();
 
 const app = express();
 const port = process.env.PORT || 3000;
 
-// --- Configuration ---
-const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY; // Support both names
-
 // Initialize Supabase
 const supabase = initSupabase();
 
-// Allow all origins
+// CORS_ORIGINS: comma-separated allow-list; only the Vite dev server when unset
+const DEFAULT_CORS_ORIGINS = ['http://localhost:5173', 'http://127.0.0.1:5173'];
+const corsOrigins = (process.env.CORS_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean);
 app.use(cors({
-    origin: '*',
-    methods: ['GET', 'POST', 'OPTIONS'],
+    origin: corsOrigins.length > 0 ? corsOrigins : DEFAULT_CORS_ORIGINS,
+    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    exposedHeaders: ['Retry-After', 'X-Quota-Remaining'],
 }));
 
+// TRUST_PROXY: hops in front of the server (e.g. 1 on Render), so req.ip is the caller's address
+if (process.env.TRUST_PROXY) {
+    const hops = parseInt(process.env.TRUST_PROXY, 10);
+    app.set('trust proxy', Number.isNaN(hops) ? process.env.TRUST_PROXY : hops);
+}
+
 app.use(express.json({ limit: '10mb' })); // Increase limit for audio blobs
 
-// --- AI Client ---
-const ai = new GoogleGenAI({ apiKey: apiKey });
+// --- Rate limits and daily quotas (RATE_LIMITS, RATE_LIMIT_<BUCKET>) ---
+const usageLimiter = createUsageLimiterFromEnv();
+
+// Token checks are counted by IP before they happen, so bogus tokens can't flood Supabase Auth
+const limitTokenChecks = rateLimit(usageLimiter, 'auth');
+app.use('/api', (req, res, next) => (req.headers.authorization ? limitTokenChecks(req, res, next) : next()));
+
+// --- Caller identity (SUPABASE_JWT_SECRET, or Supabase Auth) ---
+// Routes read the user from req.user; a userId in the body or query must match it.
+app.use('/api', authenticate(createTokenVerifierFromEnv(process.env, supabase)));
+
+app.use('/api', rateLimit(usageLimiter, 'api'));
+
+// --- AI Provider (LLM_PROVIDER, CHAT_MODEL, TTS_MODEL) ---
+const provider = createProviderFromEnv();
 
 // --- STATEFUL STORAGE (In-Memory) ---
+// Visitors' conversations: sessionId -> { history, summary, summarizing }
 const chatSessions = new Map();
 
-const LANGUAGE_CONFIGS = {
-    French: { name: 'French', tutorName: 'Pierre' },
-    English: { name: 'English', tutorName: 'James' },
-    Spanish: { name: 'Spanish', tutorName: 'Sofia' },
-    German: { name: 'German', tutorName: 'Hans' },
-    Russian: { name: 'Russian', tutorName: 'Dimitri' },
-    Japanese: { name: 'Japanese', tutorName: 'Yuki' },
-    Cantonese: { name: 'Cantonese', tutorName: 'Ka-ming' },
-    Chinese: { name: 'Chinese', tutorName: 'Li Wei' },
-};
+// Rolling context: recent turns verbatim, older ones summarized (CONTEXT_RECENT_TURNS, CONTEXT_SUMMARY_BATCH)
+const memoryConfig = readMemoryConfig();
+const compactingSessions = new Set(); // `${userId}|${sessionId}` being summarized
 
-const getSystemInstruction = (langConfig) => `
+// Generated speech, keyed by hash of (text, voiceName, format)
+const ttsStore = createTtsStoreFromEnv();
+
+// Recorded voice turns of signed-in users
+const audioStore = createAudioStoreFromEnv();
+
+// Word glosses, keyed by hash of (language, word, sentence, helper language)
+const glossStore = createGlossStoreFromEnv();
+
+const getSystemInstruction = (langConfig, scenario, level, helpers, summary, facts, askCompletion) => `
 You are ${langConfig.tutorName}, a friendly, charming, and patient ${langConfig.name} tutor. 
 Your goal is to help the user learn ${langConfig.name} through natural conversation.
 
 Interaction Protocol:
 1. **Normal Conversation**: If the user speaks ${langConfig.name}, respond naturally. Check for grammar mistakes.
-2. **Language Bridge**: If the user speaks English/Chinese asking how to say something, provide the translation in ${langConfig.name} and ask them to repeat it.
+2. **Language Bridge**: If the user speaks ${describeHelperLanguages(helpers)} asking how to say something, provide the translation in ${langConfig.name} and ask them to repeat it.
 3. **Audio Input**: If the user sends an audio message, listen carefully to what they say (even if it is imperfect) and respond accordingly.
 4. **Correction**: Always provide a JSON response with corrections.
 
-Specific Language Instructions:
-${langConfig.name === 'Cantonese' ? '- You MUST use Traditional Chinese characters and colloquial Cantonese grammar/particles (e.g., 唔, 係, 嘅) instead of standard written Chinese.' : ''}
+Scenario:
+${describeScenario(scenario) || '- Free conversation'}
+
+Learner Level:
+${describeLevel(level) || '- Unknown. Start simple and adapt to how the learner writes.'}
+
+${describeLearnerProfile(facts)}${describeMemory(summary)}Specific Language Instructions:
+${describeLanguageRules(langConfig)}
 
 Output Format:
 You MUST respond using a valid JSON object with the following schema:
@@ -59,173 +134,527 @@ You MUST respond using a valid JSON object with the following schema:
   "correction": {
     "hasMistake": boolean,
     "correctedText": string | null, 
-    "explanation": string | null
+    "explanation": string | null,
+    "category": string | null,
+    "pronunciation": {
+      "score": number,
+      "issues": [{ "word": string, "expected": string, "heard": string | null }]
+    } | null
   },
+  "transcript": string | null,
   "response": {
     "targetText": string, 
-    "english": string, 
-    "chinese": string 
-  }
+    "translations": ${translationsSchema(helpers)}${readingSchema(langConfig)}
+  }${profileUpdatesSchema(facts)}${completionSchema(askCompletion)}
 }
+
+"translations" holds "targetText" translated into each of the learner's helper languages (${describeHelperLanguages(helpers)}), keyed by language code.
+Write "explanation" in ${HELPER_LANGUAGES[helpers[0]]}.
+${describeReadingAid(langConfig)}
+
+When the latest user message is audio, set "transcript" to exactly what the learner said, word for word and mistakes included, in the language they spoke. For text messages set "transcript" to null.
+When "hasMistake" is true, set "category" to the single best match from: ${MISTAKE_CATEGORIES.join(', ')}. Otherwise set it to null.
+When the latest user message is audio, fill "pronunciation": "score" rates overall accuracy from 0 to 100, and "issues" lists each mispronounced word as it should be written in ${langConfig.name}, with "expected" briefly describing the correct sound (in ${HELPER_LANGUAGES[helpers[0]]}, with IPA where helpful) and "heard" describing what the learner said. Use an empty "issues" list if nothing was wrong. For text messages set "pronunciation" to null.
+${describeProfileUpdates(facts)}
+${describeCompletion(askCompletion)}
 `;
 
-const parseGeminiJson = (text) => {
+// The tutor request for a turn. `replyFields` names the optional parts of the schema above.
+const buildTutorRequest = (turn) => ({
+    task: CHAT_TASKS.tutor,
+    systemInstruction: getSystemInstruction(turn.config, turn.scenario, turn.level, turn.helpers, turn.memory.summary, turn.facts, turn.askCompletion),
+    contents: turn.contents,
+    replyFields: [
+        turn.config.readingAid && REPLY_FIELDS.reading,
+        turn.facts && REPLY_FIELDS.profileUpdates,
+        turn.askCompletion && REPLY_FIELDS.scenarioComplete,
+    ].filter(Boolean),
+});
+
+// Validates the model's reply. An invalid one gets a single repair re-prompt; if that fails too,
+// the turn degrades to an empty reply flagged with the failure code instead of a 500.
+// `responseText` is the canonical JSON to store, or null for a degraded turn.
+const resolveTutorReply = async (turn, tutorRequest, responseText) => {
+    const first = checkTutorReply(responseText);
+    if (first.reply) return { responseText: JSON.stringify(first.reply), responseJson: first.reply };
+    logReplyFailure(first.error, { attempt: 1, provider: provider.name });
+
+    let code;
     try {
-        return JSON.parse(text);
-    } catch (e) {
-        const cleaned = text.replace(/```json\n?|```/g, '').trim();
-        const firstBrace = cleaned.indexOf('{');
-        const lastBrace = cleaned.lastIndexOf('}');
-        if (firstBrace !== -1 && lastBrace !== -1) {
-            return JSON.parse(cleaned.substring(firstBrace, lastBrace + 1));
-        }
-        throw new Error("No JSON found in response");
+        const repairedText = await provider.chat({
+            ...tutorRequest,
+            contents: buildRepairContents(turn.contents, responseText, first.error)
+        });
+        const repaired = checkTutorReply(repairedText);
+        if (repaired.reply) return { responseText: JSON.stringify(repaired.reply), responseJson: repaired.reply };
+        logReplyFailure(repaired.error, { attempt: 2, provider: provider.name });
+        code = repaired.error.code;
+    } catch (error) {
+        logReplyFailure({ code: REPLY_ERROR_CODES.repairFailed, message: error.message }, { attempt: 2, provider: provider.name });
+        code = REPLY_ERROR_CODES.repairFailed;
     }
+    return { responseText: null, responseJson: degradedReply(code) };
 };
 
-const checkConnectivity = async () => {
-    if (!apiKey) {
-        console.error("❌ ERROR: API_KEY is missing in .env file.");
-        return;
+// Brings the model's reply into the shape clients expect:
+// translations keyed by helper language, transcript and pronunciation only for voice turns,
+// profile updates only when they are new to a signed-in learner's profile, and scenarioComplete
+// only when it was asked for.
+const normalizeReply = (turn, responseJson) => {
+    const hasAudio = turn.parts.some(part => part.inlineData);
+    responseJson.response = normalizeTutorResponse(responseJson.response);
+    responseJson.transcript = hasAudio && typeof responseJson.transcript === 'string' && responseJson.transcript.trim()
+        ? responseJson.transcript.trim()
+        : null;
+    if (responseJson.correction) {
+        responseJson.correction.pronunciation = normalizePronunciation(responseJson.correction.pronunciation, hasAudio);
+    }
+    responseJson.profileUpdates = turn.facts ? newLearnerFacts(turn.facts, normalizeProfileUpdates(responseJson.profileUpdates)) : [];
+    responseJson.scenarioComplete = Boolean(turn.askCompletion && responseJson.scenarioComplete === true);
+    return responseJson;
+};
+
+// Forwards the verified caller's token so Supabase RLS applies; anonymous callers get the server client.
+const getScopedClient = (req) => {
+    if (req.user) {
+        const scoped = createScopedSupabase(req.user.token);
+        if (scoped) return scoped;
+    }
+    return supabase;
+};
+
+// Looks up a scenario by id: built-ins first, then the scenarios table.
+// Unknown ids (older clients sending a free-form title) become a bare scenario.
+const resolveScenario = async (scenarioId, db) => {
+    if (!scenarioId) return null;
+    const builtIn = findBuiltInScenario(scenarioId);
+    if (builtIn) return builtIn;
+
+    if (db) {
+        const { data, error } = await db.from('scenarios').select('*').eq('id', scenarioId).maybeSingle();
+        if (error) console.error("Scenario Fetch Error:", error);
+        if (data) return fromScenarioRow(data);
     }
+    return { id: scenarioId, title: scenarioId };
+};
 
-    console.log("📡 Checking connectivity to Google Gemini...");
+const checkConnectivity = async () => {
+    console.log(`📡 Checking connectivity to ${provider.name} (chat: ${provider.models.chat}, tts: ${provider.models.tts || 'n/a'})...`);
     try {
-        // Correct usage for SDK 0.2.0+
-        await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: "Hi",
-        });
-        console.log("✅ Connection Successful! Gemini is reachable.");
+        await provider.checkConnectivity();
+        console.log(`✅ Connection Successful! ${provider.name} is reachable.`);
     } catch (error) {
-        console.error("❌ Gemini Connection Failed:", error.message);
+        console.error(`❌ ${provider.name} Connection Failed:`, error.message);
     }
 };
 
 // --- ROUTES ---
 
-app.post('/api/chat', async (req, res) => {
-    try {
-        const { message, audioData, audioMimeType, sessionId, language, scenario, userId, history: clientHistory } = req.body;
-        const config = LANGUAGE_CONFIGS[language] || LANGUAGE_CONFIGS.French;
-        let history = [];
+// Stored user turns reference their recording by storage key, which the model cannot read;
+// it gets the transcript instead, when there is one.
+const toModelParts = (content) => {
+    const stored = Array.isArray(content) ? content : [];
+    const parts = stored.filter(part => part.text);
+    if (parts.length > 0) return parts;
+    const transcript = stored.find(part => part.transcript)?.transcript;
+    return [{ text: transcript ? `(voice message) ${transcript}` : '(voice message)' }];
+};
+
+// Adds `audio_url` to chat_history rows that reference a stored recording.
+const withAudioUrls = async (rows, db) => {
+    const audioKeyOf = (row) => (Array.isArray(row.content) ? row.content.find(part => part.audio?.key)?.audio.key : null);
+    const keys = (rows || []).map(audioKeyOf).filter(Boolean);
 
-        // 1. Try to use Client History first (Optimization)
-        if (clientHistory && Array.isArray(clientHistory)) {
-            history = clientHistory;
+    let urls = {};
+    if (audioStore && keys.length > 0) {
+        try {
+            urls = await audioStore.resolveUrls({ db, keys });
+        } catch (storageError) {
+            console.error("[Storage Error] Could not resolve audio URLs:", storageError);
         }
-        // 2. Fallback: Fetch from Supabase (only if no client history provided)
-        else if (userId && supabase) {
-            // Fetch from Supabase with Scope
-            const { data: dbHistory, error } = await supabase
-                .from('chat_history')
-                .select('*')
-                .eq('user_id', userId)
-                .eq('language', language)
-                .eq('scenario', scenario)
-                .order('created_at', { ascending: true })
-                .limit(50);
+    }
 
-            if (!error && dbHistory) {
-                history = dbHistory.map(entry => ({
-                    role: entry.role,
-                    parts: entry.content
-                }));
-            } else if (error) {
-                console.error("Supabase Fetch Error:", error);
-            }
+    return (rows || []).map(row => {
+        const key = audioKeyOf(row);
+        return key ? { ...row, audio_url: urls[key] || null } : row;
+    });
+};
+
+// Resolves history and the new user turn for /api/chat and /api/chat/stream.
+// Returns null when there is nothing to send.
+const buildChatTurn = async (req) => {
+    const { message, audioData, audioMimeType, sessionId, language, scenario, history: clientHistory } = req.body;
+    const userId = req.user?.id;
+    const config = findLanguage(language) || findLanguage('French');
+    const db = getScopedClient(req);
+    const scenarioDef = await resolveScenario(scenario, db);
+    let history = [];
+    let memory = { summary: '', summarizedThrough: null, completedAt: null };
+    let facts = null; // Visitors have no long-term profile
+
+    // Signed-in sessions keep their summary in chat_sessions
+    if (userId && db && isSessionId(sessionId)) {
+        memory = await loadSessionMemory(db, userId, sessionId);
+    }
+    if (userId && db) {
+        facts = await loadLearnerFacts(db, userId);
+    }
+
+    // 1. Signed-in sessions read their unsummarized turns from Supabase; a client copy
+    // would repeat turns the running summary already covers
+    if (userId && db && isSessionId(sessionId)) {
+        // Fetch from Supabase with Scope
+        let query = db
+            .from('chat_history')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('session_id', sessionId)
+            .order('created_at', { ascending: false })
+            .limit(maxContextTurns(memoryConfig));
+        if (memory.summarizedThrough) query = query.gt('created_at', memory.summarizedThrough);
+        const { data: dbHistory, error } = await query;
+
+        if (!error && dbHistory) {
+            history = dbHistory.reverse().map(entry => ({
+                role: entry.role,
+                parts: toModelParts(entry.content)
+            }));
+        } else if (error) {
+            console.error("Supabase Fetch Error:", error);
         }
+    }
+    // 2. Fallback: Client History when there is no stored session to read
+    else if (clientHistory && Array.isArray(clientHistory)) {
+        history = clientHistory;
+    }
 
-        // Fallback or addition of in-memory for session continuity if DB fails or for anon users
-        // Note: For simplicity, if we have a userId, we rely on DB. If not, we use memory.
-        if (!userId) {
-            if (!chatSessions.has(sessionId)) {
-                chatSessions.set(sessionId, []);
-            }
-            history = chatSessions.get(sessionId);
+    // Fallback or addition of in-memory for session continuity if DB fails or for anon users
+    // Note: For simplicity, if we have a userId, we rely on DB. If not, we use memory.
+    if (!userId) {
+        if (!chatSessions.has(sessionId)) {
+            chatSessions.set(sessionId, { history: [], summary: '', summarizing: false });
+        }
+        memory = chatSessions.get(sessionId);
+        history = memory.history;
+    }
+
+    // Prepare content parts
+    const parts = [];
+    if (audioData) {
+        // Ensure we pass the correct mime type, defaulting to audio/webm if unspecified
+        parts.push({ inlineData: { mimeType: audioMimeType || 'audio/webm', data: audioData } });
+    }
+    if (message) {
+        parts.push({ text: message });
+    }
+
+    if (parts.length === 0) {
+        // Check if this is a new session (landing page)
+        if (history.length === 0) {
+            const prompt = `The user has entered the session. Scenario: "${scenarioDef?.title || 'General Chat'}". Please greet the user warmly as ${config.tutorName} and explicitly start the scenario.`;
+            parts.push({ text: prompt });
+        } else {
+            // "Continue conversation" on a resumed session: the tutor picks up where it left off
+            const prompt = `The user is back. Scenario: "${scenarioDef?.title || 'General Chat'}". As ${config.tutorName}, continue the scenario from where the conversation left off.`;
+            parts.push({ text: prompt });
         }
+    }
+
+    // Construct context for the model
+    // We send the summary (in the system instruction) plus the latest turns
+    const contents = [
+        ...history.slice(-maxContextTurns(memoryConfig)),
+        { role: 'user', parts: parts }
+    ];
+
+    return {
+        config,
+        scenario: scenarioDef,
+        level: isCefrLevel(req.body.level) ? req.body.level : null,
+        helpers: normalizeHelperLanguages(req.body.helperLanguages),
+        history,
+        memory,
+        facts,
+        // Signed-in sessions earn a one-time bonus for completing the scenario's goals
+        askCompletion: Boolean(userId && isSessionId(sessionId) && scenarioDef?.goals?.length && !memory.completedAt),
+        parts,
+        contents,
+        startedAt: new Date().toISOString() // Orders the user row before the model row
+    };
+};
 
-        // Prepare content parts
-        const parts = [];
+// Persists a completed turn: Supabase for signed-in users, memory for visitors.
+// Returns the playable URL of the stored recording, if any.
+const saveChatTurn = async (req, turn, responseText, responseJson) => {
+    const { message, audioData, audioMimeType, sessionId, language, scenario } = req.body;
+    const userId = req.user?.id;
+
+    // Update history
+    const userTurn = { role: 'user', parts: turn.parts };
+    const modelTurn = { role: 'model', parts: [{ text: responseText }] };
+
+    if (userId) {
+        // Token Forwarding for RLS
+        const scopedSupabase = getScopedClient(req);
+        if (!scopedSupabase) return { userAudioUrl: null };
+
+        // The recording goes to storage; the row only keeps its key
+        let userAudioUrl = null;
+        const userParts = message ? [{ text: message }] : [];
         if (audioData) {
-            // Ensure we pass the correct mime type, defaulting to audio/webm if unspecified
-            parts.push({ inlineData: { mimeType: audioMimeType || 'audio/webm', data: audioData } });
+            const mimeType = audioMimeType || 'audio/webm';
+            let key = null;
+            try {
+                key = audioStore
+                    ? await audioStore.save({ db: scopedSupabase, userId, data: Buffer.from(audioData, 'base64'), mimeType })
+                    : null;
+                if (key) userAudioUrl = (await audioStore.resolveUrls({ db: scopedSupabase, keys: [key] }))[key] || null;
+            } catch (storageError) {
+                console.error("[Storage Error] Audio upload failed:", storageError);
+            }
+            userParts.push({ audio: { key, mimeType } });
+            if (responseJson.transcript) userParts.push({ transcript: responseJson.transcript });
+        }
+
+        console.log(`[DB Debug] Attempting to insert for User: ${userId}, Session: ${sessionId}`);
+
+        // The auto-greeting prompt is not a user turn
+        const rows = userParts.length > 0
+            ? [{ user_id: userId, session_id: sessionId, role: 'user', content: userParts, language, scenario, created_at: turn.startedAt }]
+            : [];
+        rows.push({ user_id: userId, session_id: sessionId, role: 'model', content: modelTurn.parts, language, scenario, created_at: new Date().toISOString() });
+
+        const { data: insertData, error: insertError } = await scopedSupabase.from('chat_history').insert(rows).select();
+
+        if (insertError) {
+            console.error("[DB Error] Insert failed:", insertError);
+        } else {
+            console.log("[DB Success] Inserted:", insertData);
+        }
+
+        // The session's row in chat_sessions, created by its first turn, is what the session list reads
+        if (!insertError && isSessionId(sessionId)) {
+            const { error: sessionError } = await scopedSupabase.rpc('record_session_turn', {
+                p_session_id: sessionId,
+                p_language: language,
+                p_scenario: scenario,
+                p_preview: sessionPreview(userParts) || null,
+                p_messages: rows.length,
+                p_at: rows[rows.length - 1].created_at,
+            });
+            if (sessionError) console.error("[DB Error] Session update failed:", sessionError);
         }
-        if (message) {
-            parts.push({ text: message });
+
+        // Mistake journal: keep every correction alongside what the user actually said
+        const correction = responseJson.correction;
+        if (correction?.hasMistake) {
+            const { error: mistakeError } = await scopedSupabase.from('mistakes').insert([{
+                user_id: userId,
+                session_id: sessionId,
+                language,
+                scenario,
+                original_text: message || responseJson.transcript || null,
+                corrected_text: correction.correctedText || null,
+                explanation: correction.explanation || null,
+                category: normalizeCategory(correction.category)
+            }]);
+            if (mistakeError) console.error("[DB Error] Mistake insert failed:", mistakeError);
         }
 
-        let isAutoTrigger = false;
-        if (parts.length === 0) {
-            // Check if this is a new session (landing page)
-            if (history.length === 0) {
-                isAutoTrigger = true;
-                const prompt = `The user has entered the session. Scenario: "${scenario || 'General Chat'}". Please greet the user warmly as ${config.tutorName} and explicitly start the scenario.`;
-                parts.push({ text: prompt });
-            } else {
-                return res.status(400).json({ error: "No message or audio provided" });
-            }
+        // Learner profile: what the tutor asked to remember, already filtered to new facts
+        if (responseJson.profileUpdates.length > 0) {
+            const { error: factError } = await scopedSupabase.from('learner_facts').upsert(
+                responseJson.profileUpdates.map(update => ({ user_id: userId, kind: update.kind, text: update.text, language, session_id: sessionId })),
+                { onConflict: 'user_id,text', ignoreDuplicates: true }
+            );
+            if (factError) console.error("[DB Error] Learner fact insert failed:", factError);
         }
 
-        // Construct context for the model
-        // We send previous history to maintain conversation context
-        const contents = [
-            ...history,
-            { role: 'user', parts: parts }
-        ];
-
-        const result = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: contents,
-            config: {
-                systemInstruction: getSystemInstruction(config),
-                responseMimeType: "application/json"
+        // Goals, streaks and XP count the learner's own turns
+        if (userParts.length > 0) {
+            try {
+                await recordProgress(scopedSupabase, userId, sessionId, turn, responseJson, userParts);
+            } catch (progressError) {
+                console.error("[DB Error] Progress update failed:", progressError);
             }
-        });
+        }
+        return { userAudioUrl };
+    }
 
-        const responseText = result.text;
-        const responseJson = parseGeminiJson(responseText);
+    // Memory Fallback; compactMemory folds older turns into the summary, this only caps runaway growth
+    turn.history.push(userTurn);
+    turn.history.push(modelTurn);
+    if (turn.history.length > 2 * maxContextTurns(memoryConfig)) turn.history.splice(0, 2);
+    return { userAudioUrl: null };
+};
 
-        // Update history
-        const userTurn = { role: 'user', parts: parts };
-        const modelTurn = { role: 'model', parts: [{ text: responseText }] };
+// The session's running summary, the created_at of the last turn it covers,
+// and when the learner completed its scenario.
+const loadSessionMemory = async (db, userId, sessionId) => {
+    const { data, error } = await db
+        .from('chat_sessions')
+        .select('summary, summarized_through, completed_at')
+        .eq('user_id', userId)
+        .eq('id', sessionId)
+        .maybeSingle();
+    if (error) console.error("Session Memory Fetch Error:", error);
+    return {
+        summary: data?.summary || '',
+        summarizedThrough: data?.summarized_through || null,
+        completedAt: data?.completed_at || null,
+    };
+};
 
-        if (userId) {
-            // Token Forwarding for RLS
-            const authHeader = req.headers.authorization;
-            let scopedSupabase = supabase; // Fallback to server client (Anon) if no token
-
-            if (authHeader) {
-                const token = authHeader.split(' ')[1];
-                const scoped = createScopedSupabase(token);
-                if (scoped) {
-                    scopedSupabase = scoped;
-                    console.log("✅ Using Scoped Supabase Client for Insert");
-                }
-            } else {
-                console.warn("⚠️ No Auth Token provided. RLS might block insert.");
-            }
+// The newest facts of the learner's profile, for the system instruction.
+const loadLearnerFacts = async (db, userId) => {
+    const { data, error } = await db
+        .from('learner_facts')
+        .select('id, kind, text')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(MAX_PROMPT_FACTS);
+    if (error) console.error("Learner Facts Fetch Error:", error);
+    return data || [];
+};
 
-            // Save to Supabase (ONLY Model turn as per policy)
-            console.log(`[DB Debug] Attempting to insert for User: ${userId}, Session: ${sessionId}`);
+// Adds a learner turn to today's activity (in their time zone) and its XP to their total.
+const recordProgress = async (db, userId, sessionId, turn, responseJson, userParts) => {
+    const { data: settings, error: settingsError } = await db
+        .from('learner_progress')
+        .select('goal_type, goal_target, time_zone')
+        .eq('user_id', userId)
+        .maybeSingle();
+    if (settingsError) throw settingsError;
 
-            const { data: insertData, error: insertError } = await scopedSupabase.from('chat_history').insert([
-                { user_id: userId, session_id: sessionId, role: 'model', content: modelTurn.parts, language, scenario }
-            ]).select();
+    // Counters and the completion bonus are settled in the database, so concurrent turns can't double-count
+    const day = dayKey(turn.startedAt, isTimeZone(settings?.time_zone) ? settings.time_zone : 'UTC');
+    const activity = turnActivity({
+        content: userParts,
+        hasMistake: Boolean(responseJson.correction?.hasMistake),
+        completedScenario: responseJson.scenarioComplete,
+    });
+    const goal = readGoal(settings);
+    const { error: activityError } = await db.rpc('record_turn_activity', {
+        p_day: day,
+        p_turns: activity.turns,
+        p_voice_seconds: activity.voice_seconds,
+        p_xp: activity.xp,
+        p_goal_type: goal.type,
+        p_goal_target: goal.target,
+        p_session_id: sessionId,
+        p_completion_xp: activity.completion_xp,
+    });
+    if (activityError) throw activityError;
+};
 
-            if (insertError) {
-                console.error("[DB Error] Insert failed:", insertError);
-            } else {
-                console.log("[DB Success] Inserted:", insertData);
-            }
-        } else {
-            // Memory Fallback
-            history.push(userTurn);
-            history.push(modelTurn);
-            if (history.length > 20) history.splice(0, 2);
+// The goal, streaks and XP as the client shows them; `timeZone`, when given, becomes the learner's.
+const loadProgress = async (db, userId, timeZone) => {
+    const { data: settings, error: settingsError } = await db
+        .from('learner_progress')
+        .select('goal_type, goal_target, time_zone, xp_total')
+        .eq('user_id', userId)
+        .maybeSingle();
+    if (settingsError) throw settingsError;
+
+    if (timeZone && timeZone !== settings?.time_zone) {
+        const { error } = await db
+            .from('learner_progress')
+            .upsert([{ user_id: userId, time_zone: timeZone, updated_at: new Date().toISOString() }], { onConflict: 'user_id' });
+        if (error) throw error;
+    }
+
+    const { data: activity, error: activityError } = await db
+        .from('daily_activity')
+        .select('day, turns, voice_seconds, xp, goal_met')
+        .eq('user_id', userId)
+        .order('day', { ascending: false })
+        .limit(1000);
+    if (activityError) throw activityError;
+
+    const zone = timeZone || (isTimeZone(settings?.time_zone) ? settings.time_zone : 'UTC');
+    return summarizeProgress(settings, activity, { timeZone: zone });
+};
+
+const summarizeTurns = async (config, previousSummary, turns) => normalizeSummary(parseModelJson(await provider.chat({
+    task: CHAT_TASKS.summary,
+    systemInstruction: buildSummaryInstruction(config),
+    contents: [{ role: 'user', parts: [{ text: buildSummaryContent(previousSummary, turns) }] }]
+})));
+
+// Folds turns that slid out of the recent window into the session summary, a batch at a time.
+// Runs after the reply is sent; if it fails, the next turn tries again.
+const compactMemory = async (req, turn) => {
+    const userId = req.user?.id;
+    const { sessionId } = req.body;
+
+    if (!userId) {
+        const memory = turn.memory;
+        const count = turnsToSummarize(memory.history.length, memoryConfig);
+        if (!count || memory.summarizing) return;
+        memory.summarizing = true;
+        try {
+            memory.summary = await summarizeTurns(turn.config, memory.summary, memory.history.slice(0, count));
+            memory.history.splice(0, count);
+        } finally {
+            memory.summarizing = false;
         }
+        return;
+    }
+
+    const db = getScopedClient(req);
+    const key = `${userId}|${sessionId}`;
+    if (!db || !isSessionId(sessionId) || compactingSessions.has(key)) return;
+    compactingSessions.add(key);
+    try {
+        const { summary, summarizedThrough } = await loadSessionMemory(db, userId, sessionId);
+        let query = db
+            .from('chat_history')
+            .select('role, content, created_at')
+            .eq('user_id', userId)
+            .eq('session_id', sessionId)
+            .order('created_at', { ascending: true });
+        if (summarizedThrough) query = query.gt('created_at', summarizedThrough);
+        const { data: rows, error } = await query;
+        if (error) throw error;
+
+        const count = turnsToSummarize(rows.length, memoryConfig);
+        if (!count) return;
+        const folded = rows.slice(0, count);
+        const updated = await summarizeTurns(turn.config, summary, folded.map(row => ({ role: row.role, parts: toModelParts(row.content) })));
+
+        const { error: saveError } = await db.from('chat_sessions').upsert([{
+            id: sessionId,
+            user_id: userId,
+            summary: updated,
+            summarized_through: folded[folded.length - 1].created_at,
+            updated_at: new Date().toISOString(),
+        }], { onConflict: 'user_id,id' });
+        if (saveError) throw saveError;
+    } finally {
+        compactingSessions.delete(key);
+    }
+};
+
+app.get('/api/languages', (req, res) => {
+    res.json({ languages: listLanguages() });
+});
+
+app.post('/api/chat', rateLimit(usageLimiter, 'chat'), async (req, res) => {
+    try {
+        const turn = await buildChatTurn(req);
+
+        const tutorRequest = buildTutorRequest(turn);
+        const rawText = await provider.chat(tutorRequest);
+        const { responseText, responseJson } = await resolveTutorReply(turn, tutorRequest, rawText);
+        normalizeReply(turn, responseJson);
 
-        res.json(responseJson);
+        // A degraded turn isn't kept, so the learner can simply try again
+        const { userAudioUrl } = responseText
+            ? await saveChatTurn(req, turn, responseText, responseJson)
+            : { userAudioUrl: null };
+
+        res.json({ ...responseJson, userAudioUrl });
+        if (responseText) compactMemory(req, turn).catch(error => console.error("Memory Compaction Error:", error));
 
     } catch (error) {
         console.error("Chat Error:", error);
@@ -233,33 +662,83 @@ app.post('/api/chat', async (req, res) => {
     }
 });
 
-app.post('/api/history', async (req, res) => {
+// Streaming variant: emits `delta` events with the growing targetText,
+// then one `final` event carrying the full correction/response payload.
+app.post('/api/chat/stream', rateLimit(usageLimiter, 'chat'), async (req, res) => {
+    let streamOpen = false;
     try {
-        const { userId, language, scenario } = req.body;
+        const turn = await buildChatTurn(req);
+
+        const tutorRequest = buildTutorRequest(turn);
+        const stream = provider.chatStream(tutorRequest);
+
+        openSseStream(res);
+        streamOpen = true;
 
-        if (!userId) return res.status(400).json({ error: "User ID required" });
+        let clientGone = false;
+        req.on('close', () => { clientGone = true; });
+
+        let rawText = '';
+        let sentTargetText = '';
+        for await (const chunk of stream) {
+            rawText += chunk;
+            if (clientGone) continue; // Keep draining so the turn is still saved
+
+            const targetText = extractPartialString(rawText, 'targetText');
+            if (targetText && targetText !== sentTargetText) {
+                writeSseEvent(res, 'delta', { targetText });
+                sentTargetText = targetText;
+            }
+        }
 
-        // Token Forwarding
-        const authHeader = req.headers.authorization;
-        let scopedSupabase = supabase; // Default to anon
+        const { responseText, responseJson } = await resolveTutorReply(turn, tutorRequest, rawText);
+        normalizeReply(turn, responseJson);
+        const { userAudioUrl } = responseText
+            ? await saveChatTurn(req, turn, responseText, responseJson)
+            : { userAudioUrl: null };
 
-        if (authHeader) {
-            const token = authHeader.split(' ')[1];
-            const scoped = createScopedSupabase(token);
-            if (scoped) scopedSupabase = scoped;
+        if (!clientGone) {
+            writeSseEvent(res, 'final', { ...responseJson, userAudioUrl });
+            res.end();
         }
+        if (responseText) compactMemory(req, turn).catch(error => console.error("Memory Compaction Error:", error));
+
+    } catch (error) {
+        console.error("Chat Stream Error:", error);
+        if (streamOpen) {
+            writeSseEvent(res, 'error', { error: error.message || "Internal Server Error" });
+            res.end();
+        } else {
+            res.status(500).json({ error: error.message || "Internal Server Error" });
+        }
+    }
+});
+
+app.post('/api/history', async (req, res) => {
+    try {
+        const { language, scenario, sessionId } = req.body;
+        const userId = req.user?.id;
 
-        const { data, error } = await scopedSupabase
+        if (!userId) return res.status(401).json({ error: "Sign-in required" });
+        if (sessionId !== undefined && !isSessionId(sessionId)) return res.status(400).json({ error: "Invalid session ID" });
+        const scopedSupabase = getScopedClient(req);
+        if (!scopedSupabase) return res.status(503).json({ error: "Storage not configured" });
+
+        // One session when given, otherwise every session of the language and scenario
+        let query = scopedSupabase
             .from('chat_history')
             .select('*')
             .eq('user_id', userId)
-            .eq('language', language)
-            .eq('scenario', scenario)
             .order('created_at', { ascending: true });
+        query = sessionId
+            ? query.eq('session_id', sessionId)
+            : query.eq('language', language).eq('scenario', scenario);
+
+        const { data, error } = await query;
 
         if (error) throw error;
 
-        res.json({ history: data });
+        res.json({ history: await withAudioUrls(data, scopedSupabase) });
 
     } catch (error) {
         console.error("History Fetch Error:", error);
@@ -267,36 +746,225 @@ app.post('/api/history', async (req, res) => {
     }
 });
 
-app.post('/api/tts', async (req, res) => {
+// --- SESSIONS ---
+
+// The caller's conversations for a language and scenario, archived ones included.
+app.get('/api/sessions', async (req, res) => {
+    try {
+        const { language, scenario } = req.query;
+        const userId = req.user?.id;
+
+        if (!userId) return res.status(401).json({ error: "Sign-in required" });
+        const db = getScopedClient(req);
+        if (!db) return res.status(503).json({ error: "Storage not configured" });
+
+        let query = db
+            .from('chat_sessions')
+            .select(SESSION_COLUMNS)
+            .eq('user_id', userId)
+            .not('started_at', 'is', null)
+            .order('last_message_at', { ascending: false })
+            .limit(MAX_LISTED_SESSIONS);
+        if (language) query = query.eq('language', language);
+        if (scenario) query = query.eq('scenario', scenario);
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        res.json({ sessions: (data || []).map(fromSessionRow) });
+
+    } catch (error) {
+        console.error("Sessions Fetch Error:", error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// Renames and/or archives a session
+app.put('/api/sessions/:id', async (req, res) => {
+    try {
+        const userId = req.user?.id;
+
+        if (!userId) return res.status(401).json({ error: "Sign-in required" });
+        if (!isSessionId(req.params.id)) return res.status(400).json({ error: "Invalid session ID" });
+        const { value, error: validationError } = validateSessionUpdate(req.body);
+        if (validationError) return res.status(400).json({ error: validationError });
+        const db = getScopedClient(req);
+        if (!db) return res.status(503).json({ error: "Storage not configured" });
+
+        const { data, error } = await db
+            .from('chat_sessions')
+            .update({ ...value, updated_at: new Date().toISOString() })
+            .eq('user_id', userId)
+            .eq('id', req.params.id)
+            .select(SESSION_COLUMNS);
+        if (error) throw error;
+        if (!data?.length) return res.status(404).json({ error: "Session not found" });
+
+        res.json({ session: fromSessionRow(data[0]) });
+
+    } catch (error) {
+        console.error("Session Update Error:", error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// Deletes a conversation and its recordings for good; its corrections stay in the mistake journal
+app.delete('/api/sessions/:id', async (req, res) => {
+    try {
+        const userId = req.user?.id;
+
+        if (!userId) return res.status(401).json({ error: "Sign-in required" });
+        if (!isSessionId(req.params.id)) return res.status(400).json({ error: "Invalid session ID" });
+        const db = getScopedClient(req);
+        if (!db) return res.status(503).json({ error: "Storage not configured" });
+
+        // Recordings live outside the table, so collect their keys before the rows go
+        const { data: userRows, error: fetchError } = await db
+            .from('chat_history')
+            .select('content')
+            .eq('user_id', userId)
+            .eq('session_id', req.params.id)
+            .eq('role', 'user');
+        if (fetchError) throw fetchError;
+
+        const { error } = await db
+            .from('chat_history')
+            .delete()
+            .eq('user_id', userId)
+            .eq('session_id', req.params.id);
+        if (error) throw error;
+
+        const keys = recordingKeys(userRows);
+        if (audioStore && keys.length > 0) {
+            try {
+                await audioStore.remove({ db, keys });
+            } catch (storageError) {
+                console.error("[Storage Error] Recording delete failed:", storageError);
+            }
+        }
+
+        const { error: metaError } = await db
+            .from('chat_sessions')
+            .delete()
+            .eq('user_id', userId)
+            .eq('id', req.params.id);
+        if (metaError) console.error("Session Meta Delete Error:", metaError);
+
+        res.json({ success: true });
+
+    } catch (error) {
+        console.error("Session Delete Error:", error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// --- EXPORT ---
+
+// Downloads one conversation as a transcript, flashcard deck or JSON dump.
+// Signed-in users export their saved history; visitors send the messages on screen.
+app.post('/api/export', async (req, res) => {
+    try {
+        const { language, scenario, sessionId, format, messages } = req.body;
+        const userId = req.user?.id;
+
+        if (!EXPORT_FORMATS[format]) {
+            return res.status(400).json({ error: `Format must be one of ${Object.keys(EXPORT_FORMATS).join(', ')}` });
+        }
+        const config = findLanguage(language);
+        if (!config) return res.status(400).json({ error: "Unknown language" });
+        if (!scenario) return res.status(400).json({ error: "Scenario required" });
+        if (sessionId !== undefined && !isSessionId(sessionId)) return res.status(400).json({ error: "Invalid session ID" });
+
+        const db = getScopedClient(req);
+        let conversation;
+        if (userId) {
+            if (!db) return res.status(503).json({ error: "Storage not configured" });
+            let query = db
+                .from('chat_history')
+                .select('*')
+                .eq('user_id', userId)
+                .eq('language', language)
+                .eq('scenario', scenario)
+                .order('created_at', { ascending: true });
+            if (sessionId) query = query.eq('session_id', sessionId);
+            const { data, error } = await query;
+            if (error) throw error;
+            conversation = historyRowsToMessages(await withAudioUrls(data, db));
+        } else {
+            conversation = sanitizeMessages(messages);
+        }
+
+        const scenarioDef = await resolveScenario(scenario, db);
+        const file = buildExport(format, conversation, {
+            languageName: config.name,
+            tutorName: config.tutorName,
+            scenarioTitle: scenarioDef?.title || scenario,
+        });
+
+        res.set('Content-Type', file.contentType);
+        res.set('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(file.filename)}`);
+        res.send(file.body);
+
+    } catch (error) {
+        console.error("Export Error:", error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// Recordings kept by the fs audio store (Supabase serves its own signed URLs)
+app.get('/api/audio/:key', async (req, res) => {
+    try {
+        const data = audioStore?.read ? await audioStore.read(req.params.key) : null;
+        if (!data) return res.status(404).json({ error: "Recording not found" });
+
+        res.set('Content-Type', audioContentTypeFor(req.params.key));
+        res.set('Cache-Control', 'private, max-age=31536000, immutable');
+        res.send(data);
+
+    } catch (error) {
+        console.error("Audio Fetch Error:", error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.post('/api/tts', rateLimit(usageLimiter, 'tts'), async (req, res) => {
     try {
         const { text, voiceName } = req.body;
+        const voice = voiceName || 'Kore';
+        const format = req.body.format || 'pcm';
 
         if (!text) {
             return res.status(400).json({ error: "Text is required" });
         }
+        if (format !== 'pcm') {
+            return res.status(400).json({ error: `Unsupported audio format: ${format}` });
+        }
 
-        // Use Gemini 2.5 Flash TTS (Standard Preview Model)
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: { parts: [{ text: text }] },
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: {
-                    voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceName || 'Kore' } }
+        const cacheKey = createTtsCacheKey(provider.name, provider.models.tts, text, voice, format);
+        if (ttsStore) {
+            try {
+                const cached = await ttsStore.get(cacheKey);
+                if (cached) {
+                    res.set('X-Cache', 'HIT');
+                    return res.json({ audioData: cached.toString('base64'), format, cacheKey });
                 }
+            } catch (cacheError) {
+                console.error("TTS Cache Read Error:", cacheError);
             }
-        });
+        }
 
-        // Extract base64 audio
-        const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+        const { audioData } = await provider.tts({ text, voiceName: voice });
 
-        if (!audioData) {
-            throw new Error("No audio data generated");
+        if (ttsStore) {
+            ttsStore.set(cacheKey, Buffer.from(audioData, 'base64'))
+                .catch(cacheError => console.error("TTS Cache Write Error:", cacheError));
         }
 
+        res.set('X-Cache', 'MISS');
         res.json({
             audioData: audioData,
-            format: 'pcm' // Frontend handles PCM decoding
+            format, // Frontend handles PCM decoding
+            cacheKey
         });
 
     } catch (error) {
@@ -305,6 +973,643 @@ app.post('/api/tts', async (req, res) => {
     }
 });
 
+// --- GLOSS ---
+
+app.post('/api/gloss', rateLimit(usageLimiter, 'gloss'), async (req, res) => {
+    try {
+        const { language } = req.body;
+        const word = typeof req.body.word === 'string' ? req.body.word.trim() : '';
+        const sentence = typeof req.body.sentence === 'string' ? req.body.sentence.trim().slice(0, MAX_GLOSS_SENTENCE_LENGTH) : '';
+        const [helper] = normalizeHelperLanguages(req.body.helperLanguages);
+
+        const config = findLanguage(language);
+        if (!config) return res.status(400).json({ error: "Unknown language" });
+        if (!word) return res.status(400).json({ error: "Word is required" });
+        if (word.length > MAX_GLOSS_WORD_LENGTH) return res.status(400).json({ error: "Word is too long" });
+
+        const cacheKey = createGlossCacheKey(config.id, word, sentence, helper);
+        if (glossStore) {
+            try {
+                const cached = await glossStore.get(cacheKey);
+                if (cached) {
+                    res.set('X-Cache', 'HIT');
+                    return res.json({ gloss: JSON.parse(cached.toString('utf8')) });
+                }
+            } catch (cacheError) {
+                console.error("Gloss Cache Read Error:", cacheError);
+            }
+        }
+
+        const gloss = normalizeGloss(parseModelJson(await provider.chat({
+            task: CHAT_TASKS.gloss,
+            systemInstruction: buildGlossInstruction(config, HELPER_LANGUAGES[helper]),
+            contents: [{ role: 'user', parts: [{ text: buildGlossContent(word, sentence) }] }]
+        })), word);
+
+        if (glossStore && gloss.definition) {
+            glossStore.set(cacheKey, Buffer.from(JSON.stringify(gloss)))
+                .catch(cacheError => console.error("Gloss Cache Write Error:", cacheError));
+        }
+
+        res.set('X-Cache', 'MISS');
+        res.json({ gloss });
+
+    } catch (error) {
+        console.error("Gloss Error:", error);
+        res.status(500).json({ error: error.message || "Gloss Failed" });
+    }
+});
+
+// --- PROFICIENCY PROFILE ---
+
+app.get('/api/profile/levels', async (req, res) => {
+    try {
+        const userId = req.user?.id;
+
+        if (!userId) return res.status(401).json({ error: "Sign-in required" });
+        const db = getScopedClient(req);
+        if (!db) return res.status(503).json({ error: "Storage not configured" });
+
+        const { data, error } = await db
+            .from('language_profiles')
+            .select('language, level, updated_at')
+            .eq('user_id', userId);
+        if (error) throw error;
+
+        const levels = Object.fromEntries((data || []).map(row => [row.language, row.level]));
+        res.json({ levels });
+
+    } catch (error) {
+        console.error("Levels Fetch Error:", error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.put('/api/profile/levels', async (req, res) => {
+    try {
+        const { language, level } = req.body;
+        const userId = req.user?.id;
+
+        if (!userId) return res.status(401).json({ error: "Sign-in required" });
+        if (!findLanguage(language)) return res.status(400).json({ error: "Unknown language" });
+        if (!isCefrLevel(level)) return res.status(400).json({ error: "Level must be a CEFR level (A1-C2)" });
+        const db = getScopedClient(req);
+        if (!db) return res.status(503).json({ error: "Storage not configured" });
+
+        const { error } = await db
+            .from('language_profiles')
+            .upsert([{ user_id: userId, language, level, updated_at: new Date().toISOString() }], { onConflict: 'user_id,language' });
+        if (error) throw error;
+
+        res.json({ language, level });
+
+    } catch (error) {
+        console.error("Level Save Error:", error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// --- LEARNER PROFILE ---
+
+app.get('/api/profile/facts', async (req, res) => {
+    try {
+        const userId = req.user?.id;
+
+        if (!userId) return res.status(401).json({ error: "Sign-in required" });
+        const db = getScopedClient(req);
+        if (!db) return res.status(503).json({ error: "Storage not configured" });
+
+        const { data, error } = await db
+            .from('learner_facts')
+            .select('id, kind, text, language, created_at')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false });
+        if (error) throw error;
+
+        res.json({ facts: data || [] });
+
+    } catch (error) {
+        console.error("Learner Facts Fetch Error:", error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.delete('/api/profile/facts/:id', async (req, res) => {
+    try {
+        const userId = req.user?.id;
+
+        if (!userId) return res.status(401).json({ error: "Sign-in required" });
+        const db = getScopedClient(req);
+        if (!db) return res.status(503).json({ error: "Storage not configured" });
+
+        const { error } = await db
+            .from('learner_facts')
+            .delete()
+            .eq('id', req.params.id)
+            .eq('user_id', userId);
+        if (error) throw error;
+
+        res.json({ success: true });
+
+    } catch (error) {
+        console.error("Learner Fact Delete Error:", error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// --- PLACEMENT TEST ---
+
+// Open placement tests; items keep their answer key on the server.
+const placementStore = createPlacementStore();
+
+// One step of the adaptive placement test. `{ language }` starts a test; `{ testId, answer | audioData }`
+// scores the answer to the current item. Returns the next item, or the recommended level once the test is over.
+app.post('/api/placement', rateLimit(usageLimiter, 'chat'), async (req, res) => {
+    try {
+        const { testId, answer, audioData, audioMimeType } = req.body;
+        const userId = req.user?.id || null;
+        let test;
+        let config;
+
+        if (testId) {
+            test = placementStore.get(testId);
+            if (!test || test.userId !== userId) return res.status(404).json({ error: "Placement test not found or expired" });
+            if (!test.current) return res.status(409).json({ error: "Placement test is already finished" });
+            if (test.busy) return res.status(409).json({ error: "The previous answer is still being scored" });
+            if (!answer && !audioData) return res.status(400).json({ error: "No answer or audio provided" });
+            if (answer !== undefined && answer !== null && typeof answer !== 'string') {
+                return res.status(400).json({ error: "Answer must be a string" });
+            }
+            if (answer && answer.length > MAX_PLACEMENT_ANSWER_LENGTH) {
+                return res.status(400).json({ error: `Answer must be ${MAX_PLACEMENT_ANSWER_LENGTH} characters or fewer` });
+            }
+            config = findLanguage(test.language);
+        } else {
+            config = findLanguage(req.body.language);
+            if (!config) return res.status(400).json({ error: "Unknown language" });
+            test = placementStore.create({ language: config.id, userId });
+        }
+
+        // State only changes once the whole step succeeds, so a failed step can be retried
+        test.busy = true;
+        let result = null;
+        let nextItem = null;
+        try {
+            const results = [...test.results];
+            if (testId) {
+                const item = test.current;
+                const parts = [];
+                if (audioData) parts.push({ inlineData: { mimeType: audioMimeType || 'audio/webm', data: audioData } });
+                if (answer) parts.push({ text: answer });
+
+                const score = parseModelJson(await provider.chat({
+                    task: CHAT_TASKS.placementScore,
+                    systemInstruction: buildScoringInstruction(config, item),
+                    contents: [{ role: 'user', parts }]
+                }));
+                result = {
+                    item,
+                    answer: answer || null,
+                    correct: Boolean(score.correct),
+                    feedback: score.feedback || '',
+                    expected: score.expected || item.answerKey || null,
+                };
+                results.push(result);
+            }
+
+            if (results.length < PLACEMENT_LENGTH) {
+                const last = results[results.length - 1];
+                const level = last ? stepLevel(last.item.level, last.correct) : START_LEVEL;
+                const type = itemTypeFor(results.length);
+                const generated = parseModelJson(await provider.chat({
+                    task: CHAT_TASKS.placementItem,
+                    systemInstruction: buildItemInstruction(config, level, type),
+                    contents: [{ role: 'user', parts: [{ text: `Item ${results.length + 1} of ${PLACEMENT_LENGTH}` }] }]
+                }));
+                nextItem = {
+                    id: `${test.id}-${results.length}`,
+                    level,
+                    type,
+                    prompt: generated.prompt || '',
+                    question: generated.question || '',
+                    answerKey: typeof generated.answer === 'string' ? generated.answer : null,
+                };
+            }
+
+            test.results = results;
+            test.current = nextItem;
+        } finally {
+            test.busy = false;
+        }
+
+        const step = { testId: test.id, result: publicResult(result), results: test.results.map(publicResult) };
+        if (nextItem) {
+            return res.json({ ...step, nextItem: publicItem(nextItem), done: false, recommendedLevel: null });
+        }
+
+        placementStore.delete(test.id);
+        const recommendedLevel = recommendLevel(test.results);
+        const db = userId ? getScopedClient(req) : null;
+        if (db) {
+            const { error } = await db
+                .from('language_profiles')
+                .upsert([{ user_id: userId, language: test.language, level: recommendedLevel, updated_at: new Date().toISOString() }], { onConflict: 'user_id,language' });
+            if (error) console.error("Placement Level Save Error:", error);
+        }
+        res.json({ ...step, nextItem: null, done: true, recommendedLevel });
+
+    } catch (error) {
+        console.error("Placement Error:", error);
+        res.status(500).json({ error: error.message || "Internal Server Error" });
+    }
+});
+
+// --- SCENARIOS ---
+
+app.get('/api/scenarios', async (req, res) => {
+    try {
+        const userId = req.user?.id;
+        // userId is interpolated into a PostgREST filter, so only accept UUIDs
+        if (userId && !/^[0-9a-f-]{36}$/i.test(userId)) return res.status(400).json({ error: "Invalid user ID" });
+        const db = getScopedClient(req);
+        if (!db) return res.json({ scenarios: BUILT_IN_SCENARIOS });
+
+        // Public scenarios from any instructor, plus the caller's own drafts
+        let query = db.from('scenarios').select('*').order('created_at', { ascending: true });
+        query = userId ? query.or(`is_public.eq.true,user_id.eq.${userId}`) : query.eq('is_public', true);
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        res.json({ scenarios: [...BUILT_IN_SCENARIOS, ...(data || []).map(fromScenarioRow)] });
+
+    } catch (error) {
+        console.error("Scenarios Fetch Error:", error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.post('/api/scenarios', async (req, res) => {
+    try {
+        const { scenario } = req.body;
+        const userId = req.user?.id;
+
+        if (!userId) return res.status(401).json({ error: "Sign-in required" });
+        const { value, error: validationError } = validateScenario(scenario);
+        if (validationError) return res.status(400).json({ error: validationError });
+        const db = getScopedClient(req);
+        if (!db) return res.status(503).json({ error: "Storage not configured" });
+
+        const { data, error } = await db
+            .from('scenarios')
+            .insert([{ user_id: userId, ...toScenarioRow(value) }])
+            .select();
+        if (error) throw error;
+
+        res.json({ scenario: fromScenarioRow(data[0]) });
+
+    } catch (error) {
+        console.error("Scenario Create Error:", error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.put('/api/scenarios/:id', async (req, res) => {
+    try {
+        const { scenario } = req.body;
+        const userId = req.user?.id;
+
+        if (!userId) return res.status(401).json({ error: "Sign-in required" });
+        if (findBuiltInScenario(req.params.id)) return res.status(403).json({ error: "Built-in scenarios cannot be edited" });
+        const { value, error: validationError } = validateScenario(scenario);
+        if (validationError) return res.status(400).json({ error: validationError });
+        const db = getScopedClient(req);
+        if (!db) return res.status(503).json({ error: "Storage not configured" });
+
+        const { data, error } = await db
+            .from('scenarios')
+            .update(toScenarioRow(value))
+            .eq('id', req.params.id)
+            .eq('user_id', userId)
+            .select();
+        if (error) throw error;
+        if (!data?.length) return res.status(404).json({ error: "Scenario not found" });
+
+        res.json({ scenario: fromScenarioRow(data[0]) });
+
+    } catch (error) {
+        console.error("Scenario Update Error:", error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.delete('/api/scenarios/:id', async (req, res) => {
+    try {
+        const userId = req.user?.id;
+
+        if (!userId) return res.status(401).json({ error: "Sign-in required" });
+        if (findBuiltInScenario(req.params.id)) return res.status(403).json({ error: "Built-in scenarios cannot be deleted" });
+        const db = getScopedClient(req);
+        if (!db) return res.status(503).json({ error: "Storage not configured" });
+
+        const { error } = await db
+            .from('scenarios')
+            .delete()
+            .eq('id', req.params.id)
+            .eq('user_id', userId);
+        if (error) throw error;
+
+        res.json({ success: true });
+
+    } catch (error) {
+        console.error("Scenario Delete Error:", error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// --- MISTAKE JOURNAL ---
+
+app.get('/api/mistakes', async (req, res) => {
+    try {
+        const { language, scenario } = req.query;
+        const userId = req.user?.id;
+        const limit = Math.min(parseInt(req.query.limit || '200', 10) || 200, 1000);
+
+        if (!userId) return res.status(401).json({ error: "Sign-in required" });
+        const db = getScopedClient(req);
+        if (!db) return res.status(503).json({ error: "Storage not configured" });
+
+        let query = db
+            .from('mistakes')
+            .select('*')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false })
+            .limit(limit);
+        if (language) query = query.eq('language', language);
+        if (scenario) query = query.eq('scenario', scenario);
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        res.json({ mistakes: data, groups: groupMistakes(data || []) });
+
+    } catch (error) {
+        console.error("Mistakes Fetch Error:", error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// --- PROGRESS DASHBOARD ---
+
+// Per-language progress over the last `days` (default 30), bucketed by day in `timeZone` (IANA, default UTC)
+// Reads every row a query matches, a page at a time in created_at order, so no aggregate sees a partial window
+const fetchAllRows = async (buildQuery) => {
+    const rows = [];
+    for (let from = 0; ; from += STATS_PAGE_SIZE) {
+        const { data, error } = await buildQuery()
+            .order('created_at', { ascending: true })
+            .range(from, from + STATS_PAGE_SIZE - 1);
+        if (error) throw error;
+        rows.push(...(data || []));
+        if (!data || data.length < STATS_PAGE_SIZE) return rows;
+    }
+};
+
+app.get('/api/stats', async (req, res) => {
+    try {
+        const { language } = req.query;
+        const userId = req.user?.id;
+        const days = readStatsDays(req.query.days);
+        const timeZone = req.query.timeZone || 'UTC';
+
+        if (!userId) return res.status(401).json({ error: "Sign-in required" });
+        if (!isTimeZone(timeZone)) return res.status(400).json({ error: "Unknown time zone" });
+        const db = getScopedClient(req);
+        if (!db) return res.status(503).json({ error: "Storage not configured" });
+
+        const since = statsWindowStart(days);
+        const windowed = (query) => (language ? query.eq('language', language) : query)
+            .eq('user_id', userId)
+            .gte('created_at', since);
+        const [turns, mistakes] = await Promise.all([
+            fetchAllRows(() => windowed(db.from('chat_history').select('language, scenario, content, created_at').eq('role', 'user'))),
+            fetchAllRows(() => windowed(db.from('mistakes').select('language, category, created_at'))),
+        ]);
+
+        // Built-in titles are known here; custom scenarios are looked up
+        const scenarioTitles = {};
+        const customIds = [];
+        for (const id of new Set(turns.map(row => row.scenario).filter(Boolean))) {
+            const builtIn = findBuiltInScenario(id);
+            if (builtIn) scenarioTitles[id] = builtIn.title;
+            else customIds.push(id);
+        }
+        if (customIds.length > 0) {
+            const { data: scenarioRows, error } = await db.from('scenarios').select('*').in('id', customIds);
+            if (error) console.error("Scenario Fetch Error:", error);
+            for (const row of scenarioRows || []) scenarioTitles[row.id] = fromScenarioRow(row).title;
+        }
+
+        res.json(buildStats(turns, mistakes, { days, timeZone, scenarioTitles }));
+
+    } catch (error) {
+        console.error("Stats Fetch Error:", error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// --- GOALS, STREAKS AND XP ---
+
+app.get('/api/progress', async (req, res) => {
+    try {
+        const { timeZone } = req.query;
+        const userId = req.user?.id;
+
+        if (!userId) return res.status(401).json({ error: "Sign-in required" });
+        if (timeZone !== undefined && !isTimeZone(timeZone)) return res.status(400).json({ error: "Unknown time zone" });
+        const db = getScopedClient(req);
+        if (!db) return res.status(503).json({ error: "Storage not configured" });
+
+        res.json(await loadProgress(db, userId, timeZone));
+
+    } catch (error) {
+        console.error("Progress Fetch Error:", error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.put('/api/progress/goal', async (req, res) => {
+    try {
+        const { timeZone } = req.body;
+        const userId = req.user?.id;
+
+        if (!userId) return res.status(401).json({ error: "Sign-in required" });
+        const { value, error: validationError } = validateGoal(req.body);
+        if (validationError) return res.status(400).json({ error: validationError });
+        if (timeZone !== undefined && !isTimeZone(timeZone)) return res.status(400).json({ error: "Unknown time zone" });
+        const db = getScopedClient(req);
+        if (!db) return res.status(503).json({ error: "Storage not configured" });
+
+        const { error } = await db
+            .from('learner_progress')
+            .upsert([{ user_id: userId, goal_type: value.type, goal_target: value.target, updated_at: new Date().toISOString() }], { onConflict: 'user_id' });
+        if (error) throw error;
+
+        res.json(await loadProgress(db, userId, timeZone));
+
+    } catch (error) {
+        console.error("Goal Save Error:", error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// --- VOCABULARY DECK ---
+
+app.get('/api/vocab', async (req, res) => {
+    try {
+        const { language } = req.query;
+        const userId = req.user?.id;
+
+        if (!userId) return res.status(401).json({ error: "Sign-in required" });
+        const db = getScopedClient(req);
+        if (!db) return res.status(503).json({ error: "Storage not configured" });
+
+        let query = db
+            .from('vocab_items')
+            .select('*')
+            .eq('user_id', userId)
+            .order('created_at', { ascending: false });
+        if (language) query = query.eq('language', language);
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        res.json({ items: data });
+
+    } catch (error) {
+        console.error("Vocab Fetch Error:", error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.post('/api/vocab', async (req, res) => {
+    try {
+        const { language } = req.body;
+        const userId = req.user?.id;
+
+        if (!userId) return res.status(401).json({ error: "Sign-in required" });
+        if (!findLanguage(language)) return res.status(400).json({ error: "Unknown language" });
+        const { value, error: validationError } = validateVocabItem(req.body);
+        if (validationError) return res.status(400).json({ error: validationError });
+        const db = getScopedClient(req);
+        if (!db) return res.status(503).json({ error: "Storage not configured" });
+
+        const { data, error } = await db.from('vocab_items').upsert([{
+            user_id: userId,
+            language,
+            ...value,
+            ...createCardSchedule()
+        }], { onConflict: 'user_id,language,text', ignoreDuplicates: true }).select();
+
+        if (error) throw error;
+
+        res.json({ item: data?.[0] || null });
+
+    } catch (error) {
+        console.error("Vocab Save Error:", error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.delete('/api/vocab/:id', async (req, res) => {
+    try {
+        const userId = req.user?.id;
+
+        if (!userId) return res.status(401).json({ error: "Sign-in required" });
+        const db = getScopedClient(req);
+        if (!db) return res.status(503).json({ error: "Storage not configured" });
+
+        const { error } = await db
+            .from('vocab_items')
+            .delete()
+            .eq('id', req.params.id)
+            .eq('user_id', userId);
+        if (error) throw error;
+
+        res.json({ success: true });
+
+    } catch (error) {
+        console.error("Vocab Delete Error:", error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.get('/api/review', async (req, res) => {
+    try {
+        const { language } = req.query;
+        const userId = req.user?.id;
+        const limit = Math.min(parseInt(req.query.limit || '20', 10) || 20, 100);
+
+        if (!userId) return res.status(401).json({ error: "Sign-in required" });
+        const db = getScopedClient(req);
+        if (!db) return res.status(503).json({ error: "Storage not configured" });
+
+        let query = db
+            .from('vocab_items')
+            .select('*')
+            .eq('user_id', userId)
+            .lte('due_at', new Date().toISOString())
+            .order('due_at', { ascending: true })
+            .limit(limit);
+        if (language) query = query.eq('language', language);
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        res.json({ items: data });
+
+    } catch (error) {
+        console.error("Review Fetch Error:", error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+app.post('/api/review', async (req, res) => {
+    try {
+        const { itemId, quality } = req.body;
+        const userId = req.user?.id;
+
+        if (!userId) return res.status(401).json({ error: "Sign-in required" });
+        if (!itemId || quality === undefined) return res.status(400).json({ error: "Item ID and quality are required" });
+        if (!isReviewQuality(quality)) return res.status(400).json({ error: "Quality must be a whole number from 0 to 5" });
+        const db = getScopedClient(req);
+        if (!db) return res.status(503).json({ error: "Storage not configured" });
+
+        const { data: card, error: fetchError } = await db
+            .from('vocab_items')
+            .select('*')
+            .eq('id', itemId)
+            .eq('user_id', userId)
+            .maybeSingle();
+        if (fetchError) throw fetchError;
+        if (!card) return res.status(404).json({ error: "Item not found" });
+
+        const { data, error } = await db
+            .from('vocab_items')
+            .update(scheduleReview(card, quality))
+            .eq('id', itemId)
+            .eq('user_id', userId)
+            .select();
+        if (error) throw error;
+
+        res.json({ item: data?.[0] || null });
+
+    } catch (error) {
+        console.error("Review Submit Error:", error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
 // Run check on startup
 checkConnectivity();
 
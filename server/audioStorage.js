@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+// Storage for recorded voice turns. chat_history rows keep the storage key;
+// playable URLs are resolved when history is read, so they can be short-lived.
+// A store has async save({ db, userId, data, mimeType }) -> key | null,
+// async resolveUrls({ db, keys }) -> { [key]: url } and async remove({ db, keys }).
+
+const EXTENSIONS = {
+    'audio/webm': 'webm',
+    'audio/ogg': 'ogg',
+    'audio/mp4': 'm4a',
+    'audio/aac': 'aac',
+    'audio/mpeg': 'mp3',
+    'audio/wav': 'wav',
+};
+
+const CONTENT_TYPES = Object.fromEntries(Object.entries(EXTENSIONS).map(([type, ext]) => [ext, type]));
+
+// Recorders report e.g. "audio/webm;codecs=opus"
+export const audioExtensionFor = (mimeType) =>
+    EXTENSIONS[String(mimeType || '').split(';')[0].trim().toLowerCase()] || 'bin';
+
+export const audioContentTypeFor = (key) =>
+    CONTENT_TYPES[path.extname(key).slice(1)] || 'application/octet-stream';
+
+/**
+ * Supabase Storage. Uploads go through the caller's scoped client so bucket
+ * policies can restrict each user to their own `<userId>/` folder.
+ */
+export const createSupabaseAudioStore = ({ bucket = 'chat-audio', signedUrlSeconds = 60 * 60 } = {}) => ({
+    name: 'supabase',
+
+    async save({ db, userId, data, mimeType }) {
+        if (!db) return null;
+        const key = `${userId}/${crypto.randomUUID()}.${audioExtensionFor(mimeType)}`;
+        const { error } = await db.storage.from(bucket).upload(key, data, { contentType: mimeType });
+        if (error) throw error;
+        return key;
+    },
+
+    async resolveUrls({ db, keys }) {
+        if (!db || keys.length === 0) return {};
+        const { data, error } = await db.storage.from(bucket).createSignedUrls(keys, signedUrlSeconds);
+        if (error) throw error;
+        return Object.fromEntries((data || []).filter(entry => entry.signedUrl).map(entry => [entry.path, entry.signedUrl]));
+    },
+
+    async remove({ db, keys }) {
+        if (!db || keys.length === 0) return;
+        const { error } = await db.storage.from(bucket).remove(keys);
+        if (error) throw error;
+    },
+});
+
+// Local disk, served back by GET /api/audio/:key. Keys are random UUIDs, so they are not guessable.
+const FS_KEY_PATTERN = /^[0-9a-f-]{36}\.[a-z0-9]+$/;
+
+export const createFileSystemAudioStore = ({ dir, publicPath = '/api/audio' }) => ({
+    name: 'fs',
+
+    async save({ data, mimeType }) {
+        await fs.mkdir(dir, { recursive: true });
+        const key = `${crypto.randomUUID()}.${audioExtensionFor(mimeType)}`;
+        await fs.writeFile(path.join(dir, key), data);
+        return key;
+    },
+
+    async resolveUrls({ keys }) {
+        return Object.fromEntries(keys.map(key => [key, `${publicPath}/${key}`]));
+    },
+
+    async read(key) {
+        if (!FS_KEY_PATTERN.test(key)) return null;
+        try {
+            return await fs.readFile(path.join(dir, key));
+        } catch (e) {
+            return null;
+        }
+    },
+
+    async remove({ keys }) {
+        await Promise.all(keys.filter(key => FS_KEY_PATTERN.test(key))
+            .map(key => fs.rm(path.join(dir, key), { force: true })));
+    },
+});
+
+/**
+ * Picks the store from env:
+ * AUDIO_STORAGE_BACKEND = supabase (default) | fs | none
+ * AUDIO_STORAGE_BUCKET (default chat-audio), AUDIO_STORAGE_DIR (default .data/audio)
+ */
+export const createAudioStoreFromEnv = (env = process.env) => {
+    const backend = (env.AUDIO_STORAGE_BACKEND || 'supabase').toLowerCase();
+
+    if (backend === 'none') return null;
+    if (backend === 'fs') return createFileSystemAudioStore({ dir: path.resolve(env.AUDIO_STORAGE_DIR || '.data/audio') });
+    return createSupabaseAudioStore({ bucket: env.AUDIO_STORAGE_BUCKET || 'chat-audio' });
+};
@@ -0,0 +1,116 @@
+// Identifies the caller from their Supabase access token, so routes never trust a user id from the request.
+import crypto from 'crypto';
+
+const CLOCK_SKEW_SECONDS = 30;
+const REMOTE_CACHE_MS = 5 * 60 * 1000;
+const REMOTE_CACHE_MAX_ENTRIES = 1000;
+
+const decodeSegment = (segment) => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+// Reads the claims without checking the signature; only for tokens the auth server already vouched for.
+const readClaims = (token) => {
+    try {
+        return decodeSegment(token.split('.')[1]);
+    } catch (e) {
+        return null;
+    }
+};
+
+/**
+ * Verifies an HS256 Supabase access token against the project's JWT secret.
+ * Returns { claims } for a signed-in user's unexpired token, otherwise { error }.
+ */
+export const verifyAccessToken = (token, secret, now = Date.now()) => {
+    const segments = typeof token === 'string' ? token.split('.') : [];
+    if (segments.length !== 3) return { error: "Malformed token" };
+    const [headerSegment, payloadSegment, signatureSegment] = segments;
+
+    let header, claims;
+    try {
+        header = decodeSegment(headerSegment);
+        claims = decodeSegment(payloadSegment);
+    } catch (e) {
+        return { error: "Malformed token" };
+    }
+    if (header.alg !== 'HS256') return { error: `Unsupported token algorithm: ${header.alg}` };
+
+    const expected = crypto.createHmac('sha256', secret).update(`${headerSegment}.${payloadSegment}`).digest();
+    const signature = Buffer.from(signatureSegment, 'base64url');
+    if (signature.length !== expected.length || !crypto.timingSafeEqual(signature, expected)) {
+        return { error: "Invalid token signature" };
+    }
+
+    const seconds = now / 1000;
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS <= seconds) return { error: "Token expired" };
+    if (typeof claims.nbf === 'number' && claims.nbf - CLOCK_SKEW_SECONDS > seconds) return { error: "Token not yet valid" };
+    // The anon and service keys are JWTs too, but they don't identify a user
+    if (claims.role !== 'authenticated' || typeof claims.sub !== 'string' || !claims.sub) {
+        return { error: "Token does not belong to a signed-in user" };
+    }
+    return { claims };
+};
+
+/**
+ * Picks how access tokens are checked:
+ * - SUPABASE_JWT_SECRET set: verified locally (HS256), no network round trip.
+ * - Otherwise, with a Supabase client: asked of Supabase Auth, cached until the token expires.
+ * - Neither: null, and every caller is anonymous.
+ * The verifier resolves to { user: { id } } or { error }.
+ */
+export const createTokenVerifierFromEnv = (env = process.env, supabase = null, now = () => Date.now()) => {
+    const secret = env.SUPABASE_JWT_SECRET;
+    if (secret) {
+        return async (token) => {
+            const { claims, error } = verifyAccessToken(token, secret, now());
+            return error ? { error } : { user: { id: claims.sub } };
+        };
+    }
+    if (!supabase?.auth) return null;
+
+    const verified = new Map(); // token -> { user, expiresAt }
+    return async (token) => {
+        const time = now();
+        const cached = verified.get(token);
+        if (cached && cached.expiresAt > time) return { user: cached.user };
+        if (cached) verified.delete(token);
+
+        const { data, error } = await supabase.auth.getUser(token);
+        if (error || !data?.user) return { error: error?.message || "Invalid token" };
+
+        const user = { id: data.user.id };
+        const exp = readClaims(token)?.exp;
+        if (verified.size >= REMOTE_CACHE_MAX_ENTRIES) verified.clear();
+        verified.set(token, { user, expiresAt: Math.min(time + REMOTE_CACHE_MS, typeof exp === 'number' ? exp * 1000 : time) });
+        return { user };
+    };
+};
+
+/**
+ * Express middleware: sets `req.user = { id, token }` from a valid bearer token,
+ * or null for anonymous callers. A bad token is a 401, and so is a `userId`
+ * without one; a `userId` naming someone else is a 403.
+ */
+export const authenticate = (verifyToken) => async (req, res, next) => {
+    try {
+        const [scheme, token] = (req.headers.authorization || '').split(' ');
+        req.user = null;
+
+        if (verifyToken && scheme?.toLowerCase() === 'bearer' && token) {
+            const { user, error } = await verifyToken(token);
+            if (error) return res.status(401).json({ error: `Invalid access token: ${error}`, code: 'invalid_token' });
+            req.user = { id: user.id, token };
+        }
+
+        const claimedUserId = req.body?.userId || req.query?.userId;
+        if (claimedUserId && !req.user) {
+            return res.status(401).json({ error: "Sign-in required", code: 'unauthenticated' });
+        }
+        if (claimedUserId && claimedUserId !== req.user.id) {
+            return res.status(403).json({ error: "User ID does not match the access token", code: 'forbidden' });
+        }
+        next();
+    } catch (error) {
+        console.error("Auth Error:", error);
+        res.status(500).json({ error: error.message || "Authentication failed" });
+    }
+};
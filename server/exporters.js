@@ -0,0 +1,150 @@
+// Conversation export: transcript (Markdown), flashcard decks (CSV, Anki text import) and raw JSON.
+// Everything works on client-shaped Message objects so visitors can export what is on screen.
+
+import { HELPER_LANGUAGES, normalizeTutorResponse, primaryTranslation } from './helperLanguages.js';
+
+export const EXPORT_FORMATS = {
+    markdown: { extension: 'md', contentType: 'text/markdown; charset=utf-8' },
+    csv: { extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+    anki: { extension: 'txt', contentType: 'text/plain; charset=utf-8' },
+    json: { extension: 'json', contentType: 'application/json; charset=utf-8' },
+};
+
+/**
+ * Rebuilds Message[] from chat_history rows, mirroring App.tsx's fetchChatHistory.
+ * Model rows hold the raw JSON reply; user rows hold text and/or an audio reference.
+ */
+export const historyRowsToMessages = (rows) => (rows || []).map(row => {
+    const parts = Array.isArray(row.content) ? row.content : [];
+    const text = parts.find(part => part.text)?.text || '';
+    const base = { id: String(row.id), timestamp: new Date(row.created_at).getTime() };
+
+    if (row.role === 'user') {
+        const transcript = parts.find(part => part.transcript)?.transcript;
+        return { ...base, sender: 'USER', text, userAudioUrl: row.audio_url || undefined, transcript };
+    }
+
+    try {
+        const parsed = JSON.parse(text);
+        const tutorResponse = normalizeTutorResponse(parsed.response);
+        return { ...base, sender: 'TUTOR', text: tutorResponse.targetText, tutorResponse, correction: parsed.correction };
+    } catch (e) {
+        return { ...base, sender: 'TUTOR', text, tutorResponse: { targetText: text, translations: {} } };
+    }
+});
+
+const isTutor = (message) => message.sender === 'TUTOR';
+
+// Keeps only the fields worth exporting; drops blob: URLs that mean nothing outside the browser.
+export const sanitizeMessages = (messages) => (Array.isArray(messages) ? messages : [])
+    .filter(message => message && (message.sender === 'USER' || message.sender === 'TUTOR') && !message.isLoading)
+    .map(message => ({
+        id: String(message.id),
+        sender: message.sender,
+        text: typeof message.text === 'string' ? message.text : '',
+        timestamp: Number(message.timestamp) || 0,
+        userAudioUrl: typeof message.userAudioUrl === 'string' && !message.userAudioUrl.startsWith('blob:') ? message.userAudioUrl : undefined,
+        transcript: typeof message.transcript === 'string' && message.transcript ? message.transcript : undefined,
+        correction: message.correction || undefined,
+        tutorResponse: message.tutorResponse ? normalizeTutorResponse(message.tutorResponse) : undefined,
+    }));
+
+const oneLine = (text) => String(text || '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Markdown transcript with corrections inline, ready for pandoc or print-to-PDF.
+ */
+export const toMarkdownTranscript = (messages, { languageName, tutorName, scenarioTitle, exportedAt = new Date() }) => {
+    const lines = [
+        `# ${languageName} conversation: ${scenarioTitle}`,
+        '',
+        `_Tutor: ${tutorName} · Exported ${exportedAt.toISOString().slice(0, 10)}_`,
+        '',
+    ];
+
+    for (const message of messages) {
+        if (!isTutor(message)) {
+            const said = message.text
+                ? `> ${oneLine(message.text)}`
+                : message.transcript ? `> 🎙️ ${oneLine(message.transcript)}` : '> _(voice message)_';
+            lines.push('**You**', '', said, '');
+            continue;
+        }
+
+        const { correction, tutorResponse } = message;
+        if (correction?.hasMistake && correction.correctedText) {
+            const explanation = correction.explanation ? ` (${oneLine(correction.explanation)})` : '';
+            lines.push(`> ✏️ **Correction:** ${oneLine(correction.correctedText)}${explanation}`, '');
+        }
+        for (const issue of correction?.pronunciation?.issues || []) {
+            lines.push(`> 🔈 **Pronunciation:** ${oneLine(issue.word)}: ${oneLine(issue.expected)}`, '');
+        }
+
+        lines.push(`**${tutorName}**`, '', oneLine(tutorResponse?.targetText || message.text));
+        for (const [code, translation] of Object.entries(tutorResponse?.translations || {})) {
+            lines.push('', `_${HELPER_LANGUAGES[code] || code}: ${oneLine(translation)}_`);
+        }
+        lines.push('');
+    }
+
+    return lines.join('\n');
+};
+
+/**
+ * Tutor lines paired with their main translation, first occurrence only.
+ */
+export const toDeckPairs = (messages) => {
+    const seen = new Set();
+    const pairs = [];
+    for (const message of messages) {
+        const front = oneLine(message.tutorResponse?.targetText);
+        const back = oneLine(primaryTranslation(message.tutorResponse));
+        if (!isTutor(message) || !front || !back || seen.has(front)) continue;
+        seen.add(front);
+        pairs.push({ front, back });
+    }
+    return pairs;
+};
+
+const csvField = (value) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const toCsv = (pairs) => [
+    'Front,Back',
+    ...pairs.map(pair => `${csvField(pair.front)},${csvField(pair.back)}`)
+].join('\n');
+
+/**
+ * Anki's plain-text import format: the header lines pick the deck, note type and tags,
+ * so File > Import needs no further setup.
+ */
+export const toAnkiText = (pairs, { deckName, tags = [] }) => [
+    '#separator:tab',
+    '#html:false',
+    '#notetype:Basic',
+    `#deck:${oneLine(deckName)}`,
+    `#tags:${tags.map(tag => oneLine(tag).replace(/\s+/g, '_')).join(' ')}`,
+    ...pairs.map(pair => `${pair.front.replace(/\t/g, ' ')}\t${pair.back.replace(/\t/g, ' ')}`)
+].join('\n');
+
+const slugify = (text) => oneLine(text).toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '') || 'conversation';
+
+/**
+ * Returns { body, contentType, filename } for a known format, or null.
+ */
+export const buildExport = (format, messages, meta) => {
+    const spec = EXPORT_FORMATS[format];
+    if (!spec) return null;
+
+    let body;
+    if (format === 'markdown') body = toMarkdownTranscript(messages, meta);
+    else if (format === 'csv') body = toCsv(toDeckPairs(messages));
+    else if (format === 'anki') {
+        body = toAnkiText(toDeckPairs(messages), {
+            deckName: `Polyglot Pal::${meta.languageName}::${meta.scenarioTitle}`,
+            tags: ['polyglot-pal', meta.languageName.toLowerCase()]
+        });
+    } else body = JSON.stringify(messages, null, 2);
+
+    const filename = `${slugify(meta.languageName)}-${slugify(meta.scenarioTitle)}.${spec.extension}`;
+    return { body, contentType: spec.contentType, filename };
+};
@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+import path from 'path';
+import { createMemoryTtsStore, createFileSystemTtsStore } from './ttsCache.js';
+
+// Tap-to-gloss: a short dictionary entry for one word of a tutor message.
+// Entries are cached as JSON in the same content-addressed stores the TTS cache uses.
+
+export const MAX_GLOSS_WORD_LENGTH = 40;
+export const MAX_GLOSS_SENTENCE_LENGTH = 500;
+
+const DEFAULT_MAX_BYTES = 20 * 1024 * 1024;
+
+// The sentence is part of the key: the same word can mean something else elsewhere.
+export const createGlossCacheKey = (language, word, sentence, helper) =>
+    crypto.createHash('sha256').update(JSON.stringify([language, word, sentence, helper])).digest('hex');
+
+export const buildGlossInstruction = (langConfig, helperName) => `
+You are a ${langConfig.name} learner's dictionary. Write a short dictionary entry for one word, in the sense it has in the given sentence.
+
+Reply with a JSON object:
+{
+  "lemma": string,
+  "partOfSpeech": string,
+  "definition": string,
+  "grammar": string | null,
+  "reading": string | null
+}
+
+"lemma" is the dictionary form, in ${langConfig.name}. "partOfSpeech" and "definition" are in ${helperName}; keep the definition under 15 words.
+"grammar" notes what a learner needs to use the word, in ${helperName}: gender and plural for nouns, tense, person and infinitive for conjugated verbs, measure words for Chinese nouns. Use null if there is nothing worth noting.
+${langConfig.readingAid ? `"reading" is the word's ${langConfig.readingAid.label}.` : 'Set "reading" to null.'}
+`;
+
+export const buildGlossContent = (word, sentence) =>
+    sentence ? `Word: "${word}"\nSentence: "${sentence}"` : `Word: "${word}"`;
+
+const textOrNull = (value) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+export const normalizeGloss = (json, word) => ({
+    word,
+    lemma: textOrNull(json?.lemma) || word,
+    partOfSpeech: textOrNull(json?.partOfSpeech),
+    definition: textOrNull(json?.definition) || '',
+    grammar: textOrNull(json?.grammar),
+    reading: textOrNull(json?.reading),
+});
+
+/**
+ * Picks the store from env:
+ * GLOSS_CACHE_BACKEND = fs (default) | memory | none
+ * GLOSS_CACHE_DIR (default .cache/gloss), GLOSS_CACHE_MAX_BYTES (default 20MB)
+ */
+export const createGlossStoreFromEnv = (env = process.env) => {
+    const backend = (env.GLOSS_CACHE_BACKEND || 'fs').toLowerCase();
+    const maxBytes = parseInt(env.GLOSS_CACHE_MAX_BYTES || '', 10) || DEFAULT_MAX_BYTES;
+
+    if (backend === 'none') return null;
+    if (backend === 'memory') return createMemoryTtsStore({ maxBytes });
+    return createFileSystemTtsStore({ dir: path.resolve(env.GLOSS_CACHE_DIR || '.cache/gloss'), maxBytes });
+};
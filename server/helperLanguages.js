@@ -0,0 +1,67 @@
+// Helper (native) languages: the languages translations and explanations are written in.
+
+import { normalizeReading } from './readingAids.js';
+
+export const HELPER_LANGUAGES = {
+    en: 'English',
+    zh: 'Chinese (Simplified)',
+    es: 'Spanish',
+    pt: 'Portuguese',
+    fr: 'French',
+    de: 'German',
+    it: 'Italian',
+    ru: 'Russian',
+    ja: 'Japanese',
+    ko: 'Korean',
+    ar: 'Arabic',
+    hi: 'Hindi',
+    tr: 'Turkish',
+    vi: 'Vietnamese',
+};
+
+// The original response shape carried exactly these two translations.
+export const DEFAULT_HELPER_LANGUAGES = ['en', 'zh'];
+
+export const MAX_HELPER_LANGUAGES = 3;
+
+/**
+ * Known codes only, first occurrence wins, order kept: the first code is the
+ * learner's main language and is used for explanations.
+ */
+export const normalizeHelperLanguages = (codes) => {
+    const valid = [...new Set((Array.isArray(codes) ? codes : []).filter(code => HELPER_LANGUAGES[code]))];
+    return valid.length > 0 ? valid.slice(0, MAX_HELPER_LANGUAGES) : DEFAULT_HELPER_LANGUAGES;
+};
+
+/**
+ * Maps either response shape onto { targetText, translations, reading? }.
+ * Stored history still holds the legacy { english, chinese } fields.
+ */
+export const normalizeTutorResponse = (response) => {
+    if (!response || typeof response !== 'object') return { targetText: '', translations: {} };
+
+    const translations = {};
+    if (response.translations && typeof response.translations === 'object') {
+        for (const [code, text] of Object.entries(response.translations)) {
+            if (typeof text === 'string' && text.trim()) translations[code] = text;
+        }
+    }
+    if (typeof response.english === 'string' && response.english && !translations.en) translations.en = response.english;
+    if (typeof response.chinese === 'string' && response.chinese && !translations.zh) translations.zh = response.chinese;
+
+    const targetText = typeof response.targetText === 'string' ? response.targetText : '';
+    const reading = normalizeReading(response.reading, targetText);
+    return reading ? { targetText, translations, reading } : { targetText, translations };
+};
+
+// First available translation in helper order, for flashcard backs and the like.
+export const primaryTranslation = (response, helpers = DEFAULT_HELPER_LANGUAGES) => {
+    const { translations } = normalizeTutorResponse(response);
+    const code = helpers.find(helper => translations[helper]) || Object.keys(translations)[0];
+    return code ? translations[code] : '';
+};
+
+// Prompt fragments for getSystemInstruction.
+export const describeHelperLanguages = (helpers) => helpers.map(code => HELPER_LANGUAGES[code]).join(', ');
+
+export const translationsSchema = (helpers) => `{ ${helpers.map(code => `"${code}": string`).join(', ')} }`;
@@ -0,0 +1,55 @@
+// The one language registry. The server builds prompts from it and serves it to the
+// client at /api/languages, so adding a language is a data change here.
+//
+// script: writing system of targetText, for reading aids and word segmentation
+//   latin | cyrillic | hans (Simplified Chinese) | hant (Traditional Chinese) | japanese
+// promptRules: extra lines for the system prompt's language-specific section
+// readingAid: per-token pronunciation guide the tutor adds to targetText, shown as ruby text
+
+export const LANGUAGES = {
+    French: {
+        name: 'French', flag: '🇫🇷', tutorName: 'Pierre', voiceName: 'Puck', speechCode: 'fr-FR',
+        greeting: 'Bonjour! Ça va?', script: 'latin', promptRules: [],
+    },
+    English: {
+        name: 'English', flag: '🇬🇧', tutorName: 'James', voiceName: 'Fenrir', speechCode: 'en-US',
+        greeting: 'Hello! How are you?', script: 'latin', promptRules: [],
+    },
+    Spanish: {
+        name: 'Spanish', flag: '🇪🇸', tutorName: 'Sofia', voiceName: 'Kore', speechCode: 'es-ES',
+        greeting: '¡Hola! ¿Cómo estás?', script: 'latin', promptRules: [],
+    },
+    German: {
+        name: 'German', flag: '🇩🇪', tutorName: 'Hans', voiceName: 'Charon', speechCode: 'de-DE',
+        greeting: 'Hallo! Wie geht es dir?', script: 'latin', promptRules: [],
+    },
+    Russian: {
+        name: 'Russian', flag: '🇷🇺', tutorName: 'Dimitri', voiceName: 'Zephyr', speechCode: 'ru-RU',
+        greeting: 'Привет! Как дела?', script: 'cyrillic', promptRules: [],
+        readingAid: { label: 'Transliteration', instruction: 'its Latin-alphabet transliteration (BGN/PCGN), with an acute accent on the stressed vowel' },
+    },
+    Japanese: {
+        name: 'Japanese', flag: '🇯🇵', tutorName: 'Yuki', voiceName: 'Puck', speechCode: 'ja-JP',
+        greeting: 'こんにちは！元気ですか？', script: 'japanese', promptRules: [],
+        readingAid: { label: 'Furigana', instruction: 'its reading in hiragana (furigana) if the token contains kanji; leave the reading empty for tokens written only in kana' },
+    },
+    Cantonese: {
+        name: 'Cantonese', flag: '🇭🇰', tutorName: 'Ka-ming', voiceName: 'Fenrir', speechCode: 'zh-HK',
+        greeting: '你好！食咗飯未呀？', script: 'hant',
+        promptRules: ['You MUST use Traditional Chinese characters and colloquial Cantonese grammar/particles (e.g., 唔, 係, 嘅) instead of standard written Chinese.'],
+        readingAid: { label: 'Jyutping', instruction: 'its Jyutping romanization with tone numbers, one syllable per character separated by spaces (e.g. 食飯 → "sik6 faan6")' },
+    },
+    Chinese: {
+        name: 'Chinese', flag: '🇨🇳', tutorName: 'Li Wei', voiceName: 'Kore', speechCode: 'zh-CN',
+        greeting: '你好！很高兴见到你。', script: 'hans', promptRules: [],
+        readingAid: { label: 'Pinyin', instruction: 'its Hanyu Pinyin with tone marks, one syllable per character separated by spaces (e.g. 高兴 → "gāo xìng")' },
+    },
+};
+
+export const findLanguage = (id) => (Object.hasOwn(LANGUAGES, id) ? { id, ...LANGUAGES[id] } : null);
+
+export const listLanguages = () => Object.keys(LANGUAGES).map(findLanguage);
+
+// Prompt block for getSystemInstruction.
+export const describeLanguageRules = (language) =>
+    language.promptRules.map(rule => `- ${rule}`).join('\n');
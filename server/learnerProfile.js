@@ -0,0 +1,58 @@
+// Long-term learner profile: facts about the learner and notes on their learning, kept in the
+// `learner_facts` table. The tutor proposes new ones in its reply; every conversation, in any
+// language or scenario, starts with them in the system instruction.
+
+// 'personal': about the learner's life (a dog, a job). 'learning': how they learn (struggles, goals).
+export const LEARNER_FACT_KINDS = ['personal', 'learning'];
+
+export const MAX_FACT_LENGTH = 200;
+export const MAX_PROMPT_FACTS = 40; // Newest first; older ones stay listed in the profile panel
+const MAX_UPDATES_PER_TURN = 3;
+
+const normalizeText = (text) => text.replace(/\s+/g, ' ').trim();
+const sameFact = (a, b) => normalizeText(a).toLowerCase() === normalizeText(b).toLowerCase();
+
+/**
+ * Reads the "profileUpdates" field of a tutor reply into [{ kind, text }].
+ * Anything misshapen is dropped rather than failing the turn.
+ */
+export const normalizeProfileUpdates = (value) => {
+    if (!Array.isArray(value)) return [];
+    const updates = [];
+    for (const entry of value) {
+        if (typeof entry?.text !== 'string') continue;
+        const text = normalizeText(entry.text).slice(0, MAX_FACT_LENGTH);
+        if (!text || updates.some(update => sameFact(update.text, text))) continue;
+        updates.push({ kind: LEARNER_FACT_KINDS.includes(entry.kind) ? entry.kind : 'personal', text });
+        if (updates.length === MAX_UPDATES_PER_TURN) break;
+    }
+    return updates;
+};
+
+// Updates the profile doesn't already hold (case and spacing aside)
+export const newLearnerFacts = (facts, updates) =>
+    updates.filter(update => !facts.some(fact => sameFact(fact.text, update.text)));
+
+// Prompt section for getSystemInstruction; empty until the profile has facts.
+export const describeLearnerProfile = (facts) => {
+    if (!facts?.length) return '';
+    const lines = (kind) => facts.filter(fact => fact.kind === kind).map(fact => `- ${fact.text}`);
+    const personal = lines('personal');
+    const learning = lines('learning');
+    return [
+        'Learner Profile (remembered from earlier conversations; bring it up naturally, never list it):',
+        ...(personal.length ? ['About them:', ...personal] : []),
+        ...(learning.length ? ['Learning notes:', ...learning] : []),
+        '',
+        '',
+    ].join('\n');
+};
+
+// Only signed-in learners have a profile (`facts` is null for visitors), so only they get the field.
+export const profileUpdatesSchema = (facts) => (facts
+    ? `,\n  "profileUpdates": [{ "kind": ${LEARNER_FACT_KINDS.map(kind => `"${kind}"`).join(' | ')}, "text": string }]`
+    : '');
+
+export const describeProfileUpdates = (facts) => (facts
+    ? `Use "profileUpdates" to remember lasting things for future conversations: "personal" for facts the learner shares about themselves (family, pets, job, hobbies, plans), "learning" for notes on their learning (recurring struggles, goals, preferences). Write each as one short sentence in English, e.g. "Has a dog named Rex" or "Struggles with the subjunctive". Only add what is new and not already in the Learner Profile; usually the list is empty.`
+    : '');
@@ -0,0 +1,67 @@
+// Rolling conversation memory: the model sees a running summary of older turns plus the
+// most recent ones, so long role-plays keep their plot without the prompt growing forever.
+import { parseModelJson } from './tutorReply.js';
+
+export const MAX_SUMMARY_LENGTH = 2000;
+const MAX_TURN_TEXT_LENGTH = 500;
+
+/**
+ * CONTEXT_RECENT_TURNS (default 12): turns always sent verbatim.
+ * CONTEXT_SUMMARY_BATCH (default 8): older turns wait until this many have piled up,
+ * then are folded into the summary in one model call.
+ */
+export const readMemoryConfig = (env = process.env) => {
+    const read = (value, fallback) => {
+        const parsed = parseInt(value, 10);
+        return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+    };
+    return {
+        recentTurns: read(env.CONTEXT_RECENT_TURNS, 12),
+        summaryBatch: read(env.CONTEXT_SUMMARY_BATCH, 8),
+    };
+};
+
+// Most turns a request carries: the recent window plus a batch not yet summarized.
+export const maxContextTurns = ({ recentTurns, summaryBatch }) => recentTurns + summaryBatch;
+
+// How many of the oldest unsummarized turns to fold now; 0 until a full batch is waiting.
+export const turnsToSummarize = (unsummarizedCount, { recentTurns, summaryBatch }) =>
+    unsummarizedCount >= recentTurns + summaryBatch ? unsummarizedCount - recentTurns : 0;
+
+// Plain text of a turn in model format. Tutor turns hold the raw JSON reply; only its targetText matters.
+export const turnText = (turn) => {
+    const text = (turn?.parts || []).filter(part => part.text).map(part => part.text).join(' ').trim();
+    if (turn?.role === 'model') {
+        try {
+            const targetText = parseModelJson(text)?.response?.targetText;
+            if (typeof targetText === 'string') return targetText.slice(0, MAX_TURN_TEXT_LENGTH);
+        } catch (e) {
+            // Not JSON: keep the text as it is
+        }
+    }
+    return (text || '(voice message)').slice(0, MAX_TURN_TEXT_LENGTH);
+};
+
+export const buildSummaryInstruction = (langConfig) => `
+You maintain the conversation summary for a ${langConfig.name} tutoring role-play between ${langConfig.tutorName} (the tutor) and a learner.
+Merge the previous summary with the new turns into one updated summary of at most 150 words, written in English.
+Keep what later turns depend on: the plot and setting of the role-play, names, facts and preferences the learner shared, decisions made, and open threads. Skip greetings and small talk.
+Respond with JSON only: { "summary": string }
+`;
+
+export const buildSummaryContent = (previousSummary, turns) => [
+    `Previous summary: ${previousSummary || '(none)'}`,
+    '',
+    'New turns:',
+    ...turns.map(turn => `${turn.role === 'model' ? 'Tutor' : 'Learner'}: ${turnText(turn)}`),
+].join('\n');
+
+export const normalizeSummary = (reply) => {
+    const summary = typeof reply?.summary === 'string' ? reply.summary.trim() : '';
+    return summary.slice(0, MAX_SUMMARY_LENGTH);
+};
+
+// Prompt section for getSystemInstruction; empty until there is a summary.
+export const describeMemory = (summary) => (summary
+    ? `Conversation So Far (older turns, summarized; the latest turns follow as messages):\n${summary}\n\n`
+    : '');
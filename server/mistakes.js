@@ -0,0 +1,58 @@
+// Mistake journal helpers: category normalization and grouping for analytics.
+
+export const MISTAKE_CATEGORIES = [
+    'gender_agreement',
+    'verb_tense',
+    'conjugation',
+    'word_order',
+    'particle',
+    'preposition',
+    'article',
+    'vocabulary',
+    'spelling',
+    'pronunciation',
+    'other',
+];
+
+export const normalizeCategory = (category) => {
+    if (!category || typeof category !== 'string') return 'other';
+    const key = category.trim().toLowerCase().replace(/[\s-]+/g, '_');
+    return MISTAKE_CATEGORIES.includes(key) ? key : 'other';
+};
+
+/**
+ * Groups journal rows by category, most frequent first.
+ * Each group keeps the most recent examples and how many sessions it showed up in,
+ * so recurring errors stand out from one-off slips.
+ */
+export const groupMistakes = (rows, maxExamples = 3) => {
+    const groups = new Map();
+
+    for (const row of rows) {
+        const category = normalizeCategory(row.category);
+        if (!groups.has(category)) {
+            groups.set(category, { category, count: 0, sessions: new Set(), lastSeenAt: null, examples: [] });
+        }
+        const group = groups.get(category);
+        group.count += 1;
+        if (row.session_id) group.sessions.add(row.session_id);
+        if (!group.lastSeenAt || row.created_at > group.lastSeenAt) group.lastSeenAt = row.created_at;
+        group.examples.push(row);
+    }
+
+    return [...groups.values()]
+        .map(group => ({
+            category: group.category,
+            count: group.count,
+            sessionCount: group.sessions.size,
+            recurring: group.sessions.size > 1,
+            lastSeenAt: group.lastSeenAt,
+            examples: group.examples
+                .sort((a, b) => (a.created_at < b.created_at ? 1 : -1))
+                .slice(0, maxExamples)
+                .map(({ id, original_text, corrected_text, explanation, scenario, created_at }) => ({
+                    id, original_text, corrected_text, explanation, scenario, created_at
+                })),
+        }))
+        .sort((a, b) => b.count - a.count);
+};
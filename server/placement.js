@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import { CEFR_LEVELS } from './proficiency.js';
+
+// Adaptive placement test: a short staircase over CEFR levels.
+// Open tests, answer keys and scores live on the server; the client only sends answers.
+
+export const PLACEMENT_LENGTH = 6;
+export const START_LEVEL = 'A2';
+export const MAX_PLACEMENT_ANSWER_LENGTH = 1000;
+
+const PLACEMENT_TTL_MS = 60 * 60 * 1000;
+const MAX_OPEN_TESTS = 10000;
+
+export const stepLevel = (level, correct) => {
+    const index = CEFR_LEVELS.indexOf(level);
+    const from = index === -1 ? CEFR_LEVELS.indexOf(START_LEVEL) : index;
+    const next = Math.max(0, Math.min(CEFR_LEVELS.length - 1, from + (correct ? 1 : -1)));
+    return CEFR_LEVELS[next];
+};
+
+// Alternate reading/listening items with production items.
+export const itemTypeFor = (index) => (index % 2 === 0 ? 'comprehension' : 'production');
+
+/**
+ * Recommends the highest level where the learner got more items right than wrong.
+ * Falls back to A1 when nothing was answered correctly.
+ */
+export const recommendLevel = (results) => {
+    let recommended = CEFR_LEVELS[0];
+    for (const level of CEFR_LEVELS) {
+        const atLevel = results.filter(r => r.item?.level === level);
+        const correct = atLevel.filter(r => r.correct).length;
+        if (atLevel.length > 0 && correct > atLevel.length - correct) recommended = level;
+    }
+    return recommended;
+};
+
+/**
+ * Open tests, in memory per server instance and dropped after an hour.
+ * A test is { id, language, userId, current, results, busy }: `current` is the
+ * item awaiting an answer, answer key included.
+ */
+export const createPlacementStore = ({ ttlMs = PLACEMENT_TTL_MS, maxTests = MAX_OPEN_TESTS, now = () => Date.now() } = {}) => {
+    const tests = new Map(); // id -> test, oldest first
+
+    const sweep = (time) => {
+        for (const [id, test] of tests) if (test.expiresAt <= time) tests.delete(id);
+    };
+
+    return {
+        create({ language, userId }) {
+            const time = now();
+            if (tests.size >= maxTests) sweep(time);
+            if (tests.size >= maxTests) tests.delete(tests.keys().next().value);
+
+            const test = { id: crypto.randomUUID(), language, userId, current: null, results: [], busy: false, expiresAt: time + ttlMs };
+            tests.set(test.id, test);
+            return test;
+        },
+        get(id) {
+            const test = tests.get(id);
+            if (!test) return null;
+            if (test.expiresAt <= now()) {
+                tests.delete(id);
+                return null;
+            }
+            return test;
+        },
+        delete(id) {
+            tests.delete(id);
+        },
+    };
+};
+
+// What the client sees of an item: everything but the answer key.
+export const publicItem = ({ answerKey, ...item }) => item;
+
+export const publicResult = (result) => (result ? { ...result, item: publicItem(result.item) } : null);
+
+export const buildScoringInstruction = (langConfig, item) => `
+You are ${langConfig.tutorName}, scoring one answer in a ${langConfig.name} placement test.
+- Item type: ${item.type} (CEFR ${item.level})
+- Item: ${item.prompt}
+- Question: ${item.question}${item.answerKey ? `\n- Answer key: ${item.answerKey}` : ''}
+The learner's answer is in the user message (text or audio).
+Mark it correct if it shows the item's skill at that level, even with small slips.
+
+Respond ONLY with JSON:
+{ "correct": boolean, "feedback": string, "expected": string | null }
+"feedback" is one encouraging English sentence. "expected" is a model answer in ${langConfig.name}.
+`;
+
+export const buildItemInstruction = (langConfig, level, type) => `
+You are ${langConfig.tutorName}, writing one item for a ${langConfig.name} placement test.
+Write a ${type} item at CEFR ${level}:
+${type === 'comprehension'
+        ? `- "prompt": a short ${langConfig.name} text typical of ${level}.\n- "question": a question about it, in English.`
+        : `- "prompt": a short ${langConfig.name} line that sets the scene.\n- "question": an English instruction asking the learner to say or write something in ${langConfig.name} at ${level}.`}
+- "answer": ${type === 'comprehension' ? 'the correct answer to the question' : `a model answer in ${langConfig.name}`}. It is used for scoring and never shown before the learner answers.
+
+Respond ONLY with JSON:
+{ "prompt": string, "question": string, "answer": string }
+`;
@@ -0,0 +1,56 @@
+// CEFR proficiency levels and how each one constrains the tutor's language.
+
+export const CEFR_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+export const isCefrLevel = (level) => CEFR_LEVELS.includes(level);
+
+const LEVEL_GUIDELINES = {
+    A1: {
+        label: 'Beginner',
+        vocabulary: 'Only the most common ~500 words: greetings, numbers, family, food, everyday objects.',
+        grammar: 'Present tense only. Simple subject-verb-object sentences. No subordinate clauses.',
+        length: '1-2 very short sentences (under 10 words each).',
+    },
+    A2: {
+        label: 'Elementary',
+        vocabulary: 'High-frequency everyday vocabulary (~1000 words). Avoid idioms.',
+        grammar: 'Present tense, simple past and near future. Short sentences joined with "and", "but", "because".',
+        length: '2-3 short sentences.',
+    },
+    B1: {
+        label: 'Intermediate',
+        vocabulary: 'Everyday and familiar-topic vocabulary. Common idioms only if you explain them.',
+        grammar: 'All common tenses; occasional conditional. Simple relative clauses are fine.',
+        length: '2-4 sentences.',
+    },
+    B2: {
+        label: 'Upper intermediate',
+        vocabulary: 'Broad vocabulary including abstract topics and common idioms.',
+        grammar: 'Full tense range including subjunctive/conditional where natural. Complex sentences are fine.',
+        length: '3-5 sentences.',
+    },
+    C1: {
+        label: 'Advanced',
+        vocabulary: 'Rich, precise and idiomatic vocabulary, including register shifts.',
+        grammar: 'Any structure a native speaker would use naturally.',
+        length: 'Natural conversational length; up to a short paragraph.',
+    },
+    C2: {
+        label: 'Proficient',
+        vocabulary: 'Native-level vocabulary, nuance, humour and cultural references.',
+        grammar: 'Unrestricted. Correct even subtle stylistic slips.',
+        length: 'Whatever a native speaker would say.',
+    },
+};
+
+// Prompt block for getSystemInstruction; empty when the level is unknown.
+export const describeLevel = (level) => {
+    if (!isCefrLevel(level)) return '';
+    const guide = LEVEL_GUIDELINES[level];
+    return [
+        `The learner is at CEFR level ${level} (${guide.label}). Keep "targetText" within these limits:`,
+        `- Vocabulary: ${guide.vocabulary}`,
+        `- Grammar & tenses: ${guide.grammar}`,
+        `- Reply length: ${guide.length}`,
+    ].join('\n');
+};
@@ -0,0 +1,112 @@
+// Daily goals, streaks and XP for signed-in learners. The goal, time zone and XP total live in
+// `learner_progress` (one row per user), activity in `daily_activity` (one row per user and
+// day, where the day is counted in the learner's time zone).
+import { dayKey, estimateVoiceSeconds } from './stats.js';
+
+export const GOAL_TYPES = {
+    turns: { label: 'turns', min: 1, max: 200 },
+    minutes: { label: 'minutes spoken', min: 1, max: 120 },
+};
+export const DEFAULT_GOAL = { type: 'turns', target: 10 };
+
+export const XP_REWARDS = {
+    turn: 5,
+    errorFree: 5, // A reply without a correction
+    scenarioComplete: 25, // Once per session, when the tutor says the scenario's goals are met
+};
+
+/**
+ * Validates a goal update. Returns { value } or { error }.
+ */
+export const validateGoal = (input) => {
+    const rules = GOAL_TYPES[input?.type];
+    if (!rules) return { error: `Goal type must be one of: ${Object.keys(GOAL_TYPES).join(', ')}` };
+    const target = Number(input.target);
+    if (!Number.isInteger(target) || target < rules.min || target > rules.max) {
+        return { error: `Target must be a whole number from ${rules.min} to ${rules.max}` };
+    }
+    return { value: { type: input.type, target } };
+};
+
+export const readGoal = (row) => (row && validateGoal({ type: row.goal_type, target: row.goal_target }).value) || DEFAULT_GOAL;
+
+const goalAmount = (goal, activity) => (goal.type === 'minutes'
+    ? (activity?.voice_seconds || 0) / 60
+    : activity?.turns || 0);
+
+/**
+ * What one learner turn adds to the day's activity row and XP total, for the
+ * record_turn_activity function. `completion_xp` is the bonus offered when the tutor
+ * reports the scenario complete; the function only awards it to the turn that marks
+ * the session completed.
+ */
+export const turnActivity = ({ content, hasMistake, completedScenario }) => ({
+    turns: 1,
+    voice_seconds: estimateVoiceSeconds(content),
+    xp: XP_REWARDS.turn + (hasMistake ? 0 : XP_REWARDS.errorFree),
+    completion_xp: completedScenario ? XP_REWARDS.scenarioComplete : 0,
+});
+
+const shiftDay = (day, delta) => {
+    const [year, month, date] = day.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, date + delta)).toISOString().slice(0, 10);
+};
+
+/**
+ * Streaks count consecutive days with the goal met. Today doesn't break the current
+ * streak until it is over, so it runs back from today if met, otherwise from yesterday.
+ */
+export const computeStreaks = (activityRows, today) => {
+    const metDays = new Set((activityRows || []).filter(row => row.goal_met).map(row => row.day));
+
+    let current = 0;
+    let day = metDays.has(today) ? today : shiftDay(today, -1);
+    while (metDays.has(day)) {
+        current += 1;
+        day = shiftDay(day, -1);
+    }
+
+    let longest = 0;
+    for (const start of metDays) {
+        if (metDays.has(shiftDay(start, -1))) continue; // Not the first day of a run
+        let length = 0;
+        while (metDays.has(shiftDay(start, length))) length += 1;
+        longest = Math.max(longest, length);
+    }
+
+    return { current, longest };
+};
+
+/**
+ * What the client shows: today's progress towards the goal, streaks and XP.
+ * `settingsRow` is the learner_progress row (goal and XP total), `activityRows`
+ * their daily_activity rows.
+ */
+export const summarizeProgress = (settingsRow, activityRows, { timeZone = 'UTC', now = Date.now() } = {}) => {
+    const goal = readGoal(settingsRow);
+    const today = dayKey(now, timeZone);
+    const todayRow = (activityRows || []).find(row => row.day === today);
+    const amount = goalAmount(goal, todayRow);
+
+    return {
+        goal,
+        timeZone,
+        today: {
+            date: today,
+            turns: todayRow?.turns || 0,
+            voiceMinutes: Math.round(((todayRow?.voice_seconds || 0) / 60) * 10) / 10,
+            xp: todayRow?.xp || 0,
+            progress: Math.min(1, Math.round((amount / goal.target) * 100) / 100),
+            met: Boolean(todayRow?.goal_met) || amount >= goal.target,
+        },
+        streak: computeStreaks(activityRows, today),
+        xp: settingsRow?.xp_total || 0,
+    };
+};
+
+// Only asked while a signed-in learner's session can still earn the completion bonus
+export const completionSchema = (ask) => (ask ? ',\n  "scenarioComplete": boolean' : '');
+
+export const describeCompletion = (ask) => (ask
+    ? 'Set "scenarioComplete" to true once the learner has accomplished all of the learner goals of the scenario in this conversation, otherwise false.'
+    : '');
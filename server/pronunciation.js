@@ -0,0 +1,28 @@
+// Pronunciation assessment for voice turns, returned inside `correction.pronunciation`.
+
+const MAX_ISSUES = 8;
+
+const cleanText = (value, maxLength) => (typeof value === 'string' ? value.trim().slice(0, maxLength) : '');
+
+/**
+ * Coerces the model's pronunciation block into { score, issues } or null.
+ * Text-only turns never carry an assessment, whatever the model returned.
+ */
+export const normalizePronunciation = (value, hasAudio) => {
+    if (!hasAudio || !value || typeof value !== 'object') return null;
+
+    const rawScore = Number(value.score);
+    const score = Number.isFinite(rawScore) ? Math.round(Math.max(0, Math.min(100, rawScore))) : null;
+
+    const issues = (Array.isArray(value.issues) ? value.issues : [])
+        .map(issue => ({
+            word: cleanText(issue?.word, 60),
+            expected: cleanText(issue?.expected, 200),
+            heard: cleanText(issue?.heard, 200) || null,
+        }))
+        .filter(issue => issue.word && issue.expected)
+        .slice(0, MAX_ISSUES);
+
+    if (score === null && issues.length === 0) return null;
+    return { score, issues };
+};
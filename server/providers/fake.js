@@ -0,0 +1,113 @@
+import { CHAT_TASKS, REPLY_FIELDS } from './tasks.js';
+
+// Deterministic provider for offline development and tests. Never calls the network.
+// Answers by request task and reply fields, never by reading the prompt.
+
+const MISTAKE_TRIGGERS = ['mistake', 'wrong', 'error'];
+const GARBLE_TRIGGER = 'garble'; // Misshapen reply; the repair re-prompt gets a valid one
+const CONFUSE_TRIGGER = 'confuse'; // Never valid JSON, repair included
+const REMEMBER_TRIGGER = 'remember'; // Proposes a learner profile fact, when the prompt asks for them
+const COMPLETE_TRIGGER = 'goodbye'; // Completes the scenario, when the prompt asks about it
+
+const lastUserText = (contents) => {
+    const last = [...contents].reverse().find(turn => turn.role === 'user');
+    const textPart = last?.parts?.find(part => part.text);
+    if (textPart) return textPart.text;
+    return last?.parts?.some(part => part.inlineData) ? '[voice message]' : '';
+};
+
+// One token per word, read back in lowercase, when the prompt asks for a reading guide.
+const fakeReading = (targetText) => targetText.split(/\s+/).filter(Boolean)
+    .map((word, i) => ({ text: word, reading: i === 0 ? '' : word.toLowerCase() }));
+
+const mentions = (contents, word) => contents.some(turn => turn.role === 'user'
+    && turn.parts?.some(part => part.text?.toLowerCase().includes(word)));
+
+export const buildFakeReply = (contents, { withReading = false, withProfile = false, withCompletion = false } = {}) => {
+    const text = lastUserText(contents);
+    if (mentions(contents, CONFUSE_TRIGGER)) return "Sorry, I lost my train of thought.";
+    if (text.toLowerCase().includes(GARBLE_TRIGGER)) return JSON.stringify({ correction: { hasMistake: 'no' }, response: {} });
+    const targetText = `Echo: ${text}`;
+    const hasMistake = MISTAKE_TRIGGERS.some(word => text.toLowerCase().includes(word));
+    const pronunciation = text === '[voice message]'
+        ? { score: 80, issues: [{ word: 'bonjour', expected: 'Nasal /ɔ̃/ in "bon"', heard: 'bone' }] }
+        : null;
+
+    return JSON.stringify({
+        correction: hasMistake
+            ? { hasMistake: true, correctedText: text.replace(/mistake|wrong|error/gi, 'correct'), explanation: "Fake correction.", category: 'other', pronunciation }
+            : { hasMistake: false, correctedText: null, explanation: null, category: null, pronunciation },
+        transcript: text === '[voice message]' ? 'Bonjour, je suis fake' : null,
+        response: {
+            targetText,
+            translations: { en: `Echo: ${text}`, zh: `回声: ${text}` },
+            ...(withReading && { reading: fakeReading(targetText) })
+        },
+        ...(withProfile && {
+            profileUpdates: text.toLowerCase().includes(REMEMBER_TRIGGER) ? [{ kind: 'personal', text: `Fake fact: ${text}` }] : []
+        }),
+        ...(withCompletion && { scenarioComplete: text.toLowerCase().includes(COMPLETE_TRIGGER) })
+    });
+};
+
+// Placement prompts (server/placement.js) expect their own JSON shapes.
+const buildFakePlacementScore = (contents) => {
+    const text = lastUserText(contents);
+    const correct = !MISTAKE_TRIGGERS.some(word => text.toLowerCase().includes(word));
+    return JSON.stringify({ correct, feedback: correct ? "Fake: well done." : "Fake: not quite.", expected: "Fake answer." });
+};
+
+const buildFakePlacementItem = (contents) => {
+    const text = lastUserText(contents);
+    return JSON.stringify({ prompt: `Fake item (${text})`, question: "Fake question?", answer: "Fake item answer" });
+};
+
+// Gloss prompts (server/gloss.js) ask for a dictionary entry.
+const buildFakeGlossReply = (contents) => {
+    const word = lastUserText(contents).match(/Word: "([^"]*)"/)?.[1] || '';
+    return JSON.stringify({ lemma: word.toLowerCase(), partOfSpeech: 'noun', definition: `Fake definition of ${word}`, grammar: null, reading: null });
+};
+
+// Summary prompts (server/memory.js) get a summary that counts the turns folded so far.
+const buildFakeSummaryReply = (contents) => {
+    const text = lastUserText(contents);
+    const previous = Number(text.match(/Fake summary of (\d+) turns/)?.[1] || 0);
+    const folded = text.split('\n').filter(line => /^(Learner|Tutor): /.test(line)).length;
+    return JSON.stringify({ summary: `Fake summary of ${previous + folded} turns` });
+};
+
+const replyOptions = (replyFields) => ({
+    withReading: replyFields.includes(REPLY_FIELDS.reading),
+    withProfile: replyFields.includes(REPLY_FIELDS.profileUpdates),
+    withCompletion: replyFields.includes(REPLY_FIELDS.scenarioComplete),
+});
+
+export const createFakeProvider = ({ chunkSize = 16 } = {}) => ({
+    name: 'fake',
+    models: { chat: 'fake-chat', tts: 'fake-tts' },
+
+    async chat({ task = CHAT_TASKS.tutor, contents, replyFields = [] }) {
+        switch (task) {
+            case CHAT_TASKS.placementItem: return buildFakePlacementItem(contents);
+            case CHAT_TASKS.placementScore: return buildFakePlacementScore(contents);
+            case CHAT_TASKS.gloss: return buildFakeGlossReply(contents);
+            case CHAT_TASKS.summary: return buildFakeSummaryReply(contents);
+            default: return buildFakeReply(contents, replyOptions(replyFields));
+        }
+    },
+
+    async *chatStream({ contents, replyFields = [] }) {
+        const reply = buildFakeReply(contents, replyOptions(replyFields));
+        for (let i = 0; i < reply.length; i += chunkSize) {
+            yield reply.slice(i, i + chunkSize);
+        }
+    },
+
+    async tts({ text }) {
+        // Silence, 50ms per character (24kHz, 16-bit mono)
+        const samples = Math.max(1, text.length) * 1200;
+        return { audioData: Buffer.alloc(samples * 2).toString('base64'), format: 'pcm' };
+    },
+
+    async checkConnectivity() { },
+});
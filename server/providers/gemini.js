@@ -0,0 +1,66 @@
+import { GoogleGenAI, Modality } from '@google/genai';
+
+export const createGeminiProvider = ({ apiKey, chatModel, ttsModel }) => {
+    const ai = new GoogleGenAI({ apiKey: apiKey });
+
+    return {
+        name: 'gemini',
+        models: { chat: chatModel, tts: ttsModel },
+
+        async chat({ systemInstruction, contents }) {
+            const result = await ai.models.generateContent({
+                model: chatModel,
+                contents: contents,
+                config: {
+                    systemInstruction,
+                    responseMimeType: "application/json"
+                }
+            });
+            return result.text;
+        },
+
+        async *chatStream({ systemInstruction, contents }) {
+            const stream = await ai.models.generateContentStream({
+                model: chatModel,
+                contents: contents,
+                config: {
+                    systemInstruction,
+                    responseMimeType: "application/json"
+                }
+            });
+            for await (const chunk of stream) {
+                if (chunk.text) yield chunk.text;
+            }
+        },
+
+        async tts({ text, voiceName }) {
+            const response = await ai.models.generateContent({
+                model: ttsModel,
+                contents: { parts: [{ text: text }] },
+                config: {
+                    responseModalities: [Modality.AUDIO],
+                    speechConfig: {
+                        voiceConfig: { prebuiltVoiceConfig: { voiceName } }
+                    }
+                }
+            });
+
+            // Extract base64 audio
+            const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+            if (!audioData) {
+                throw new Error("No audio data generated");
+            }
+            return { audioData, format: 'pcm' };
+        },
+
+        async checkConnectivity() {
+            if (!apiKey) {
+                throw new Error("API_KEY is missing in .env file.");
+            }
+            await ai.models.generateContent({
+                model: chatModel,
+                contents: "Hi",
+            });
+        },
+    };
+};
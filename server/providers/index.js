@@ -0,0 +1,40 @@
+import { createGeminiProvider } from './gemini.js';
+import { createOpenAiCompatibleProvider } from './openaiCompatible.js';
+import { createFakeProvider } from './fake.js';
+
+export { CHAT_TASKS, REPLY_FIELDS } from './tasks.js';
+
+// A provider exposes: name, models, chat(), chatStream(), tts() and checkConnectivity().
+// chat/chatStream take { task, systemInstruction, contents, replyFields } with Gemini-style
+// contents and return the raw JSON text of the reply. `task` is one of CHAT_TASKS (default
+// tutor); `replyFields` lists the REPLY_FIELDS a tutor prompt asked for.
+
+/**
+ * Picks the provider from env:
+ * LLM_PROVIDER = gemini (default) | openai | fake
+ * CHAT_MODEL, TTS_MODEL override the provider's default models.
+ * OPENAI_BASE_URL (default Ollama at http://localhost:11434/v1), OPENAI_API_KEY for openai.
+ */
+export const createProviderFromEnv = (env = process.env) => {
+    const name = (env.LLM_PROVIDER || 'gemini').toLowerCase();
+
+    switch (name) {
+        case 'gemini':
+            return createGeminiProvider({
+                apiKey: env.GEMINI_API_KEY || env.API_KEY, // Support both names
+                chatModel: env.CHAT_MODEL || 'gemini-2.5-flash',
+                ttsModel: env.TTS_MODEL || 'gemini-2.5-flash-preview-tts',
+            });
+        case 'openai':
+            return createOpenAiCompatibleProvider({
+                baseUrl: env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+                apiKey: env.OPENAI_API_KEY,
+                chatModel: env.CHAT_MODEL || 'llama3.1',
+                ttsModel: env.TTS_MODEL,
+            });
+        case 'fake':
+            return createFakeProvider();
+        default:
+            throw new Error(`Unknown LLM_PROVIDER "${name}". Use gemini, openai or fake.`);
+    }
+};
@@ -0,0 +1,110 @@
+// Talks to any OpenAI-compatible HTTP API (OpenAI, Ollama, llama.cpp server, vLLM...).
+
+const AUDIO_FORMATS = { 'audio/wav': 'wav', 'audio/x-wav': 'wav', 'audio/mpeg': 'mp3', 'audio/mp3': 'mp3' };
+
+// Gemini-style contents -> OpenAI chat messages.
+export const toOpenAiMessages = (systemInstruction, contents) => {
+    const messages = [];
+    if (systemInstruction) messages.push({ role: 'system', content: systemInstruction });
+
+    for (const turn of contents) {
+        const role = turn.role === 'model' ? 'assistant' : 'user';
+        const content = [];
+        for (const part of turn.parts || []) {
+            if (part.text) {
+                content.push({ type: 'text', text: part.text });
+            } else if (part.inlineData && role === 'user') {
+                const format = AUDIO_FORMATS[part.inlineData.mimeType];
+                content.push(format
+                    ? { type: 'input_audio', input_audio: { data: part.inlineData.data, format } }
+                    : { type: 'text', text: '[The user sent a voice message in a format this model cannot hear.]' });
+            }
+        }
+        if (content.length === 0) continue;
+
+        // Plain strings are the most widely supported shape for text-only turns
+        const textOnly = content.every(c => c.type === 'text');
+        messages.push({ role, content: textOnly ? content.map(c => c.text).join('\n') : content });
+    }
+    return messages;
+};
+
+export const createOpenAiCompatibleProvider = ({ baseUrl, apiKey, chatModel, ttsModel }) => {
+    const root = baseUrl.replace(/\/$/, '');
+
+    const request = async (path, body) => {
+        const headers = { 'Content-Type': 'application/json' };
+        if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+        const response = await fetch(`${root}${path}`, { method: 'POST', headers, body: JSON.stringify(body) });
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            throw new Error(`Provider request failed (${response.status}): ${detail || response.statusText}`);
+        }
+        return response;
+    };
+
+    return {
+        name: 'openai',
+        models: { chat: chatModel, tts: ttsModel },
+
+        async chat({ systemInstruction, contents }) {
+            const response = await request('/chat/completions', {
+                model: chatModel,
+                messages: toOpenAiMessages(systemInstruction, contents),
+                response_format: { type: 'json_object' },
+            });
+            const data = await response.json();
+            return data.choices?.[0]?.message?.content || '';
+        },
+
+        async *chatStream({ systemInstruction, contents }) {
+            const response = await request('/chat/completions', {
+                model: chatModel,
+                messages: toOpenAiMessages(systemInstruction, contents),
+                response_format: { type: 'json_object' },
+                stream: true,
+            });
+
+            const decoder = new TextDecoder();
+            let buffer = '';
+            for await (const chunk of response.body) {
+                buffer += decoder.decode(chunk, { stream: true });
+                const lines = buffer.split('\n');
+                buffer = lines.pop();
+                for (const line of lines) {
+                    const trimmed = line.trim();
+                    if (!trimmed.startsWith('data:')) continue;
+                    const payload = trimmed.slice(5).trim();
+                    if (payload === '[DONE]') return;
+                    const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+                    if (delta) yield delta;
+                }
+            }
+        },
+
+        async tts({ text, voiceName }) {
+            if (!ttsModel) {
+                throw new Error("TTS_MODEL is not configured for the OpenAI-compatible provider");
+            }
+            // 'pcm' is 24kHz 16-bit mono, the same shape the frontend decodes for Gemini
+            const response = await request('/audio/speech', {
+                model: ttsModel,
+                input: text,
+                voice: voiceName,
+                response_format: 'pcm',
+            });
+            const buffer = Buffer.from(await response.arrayBuffer());
+            return { audioData: buffer.toString('base64'), format: 'pcm' };
+        },
+
+        async checkConnectivity() {
+            const headers = {};
+            if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+            const response = await fetch(`${root}/models`, { headers });
+            if (!response.ok) {
+                throw new Error(`Provider unreachable (${response.status})`);
+            }
+        },
+    };
+};
@@ -0,0 +1,17 @@
+// Every chat request says what it is for, so no provider has to read the prompt to find out.
+// Real providers ignore both; the fake one answers from them.
+
+export const CHAT_TASKS = {
+    tutor: 'tutor',
+    placementItem: 'placement-item',
+    placementScore: 'placement-score',
+    gloss: 'gloss',
+    summary: 'summary',
+};
+
+// Optional fields a tutor prompt may ask for on top of the base reply schema.
+export const REPLY_FIELDS = {
+    reading: 'reading',
+    profileUpdates: 'profileUpdates',
+    scenarioComplete: 'scenarioComplete',
+};
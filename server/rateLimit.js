@@ -0,0 +1,133 @@
+// Per-client rate limits and daily quotas, counted in memory per server instance.
+// Clients are signed-in users when the request carries a verified token, otherwise IP addresses.
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SWEEP_THRESHOLD = 10000;
+
+/**
+ * Buckets group routes that spend the same budget. Each limit is
+ * { perMinute, userPerDay, anonPerDay }; 0 means unlimited.
+ */
+export const DEFAULT_LIMITS = {
+    auth: { perMinute: 240, userPerDay: 0, anonPerDay: 0 }, // Requests carrying a token, by IP before it is checked
+    api: { perMinute: 120, userPerDay: 0, anonPerDay: 0 },
+    chat: { perMinute: 20, userPerDay: 500, anonPerDay: 50 },
+    tts: { perMinute: 30, userPerDay: 1000, anonPerDay: 100 },
+    gloss: { perMinute: 60, userPerDay: 2000, anonPerDay: 200 },
+};
+
+// "20/500/50" -> { perMinute: 20, userPerDay: 500, anonPerDay: 50 }; missing parts keep the default.
+export const parseLimit = (value, fallback) => {
+    if (!value) return fallback;
+    const [perMinute, userPerDay, anonPerDay] = String(value).split('/').map(part => parseInt(part, 10));
+    const pick = (parsed, current) => (Number.isFinite(parsed) && parsed >= 0 ? parsed : current);
+    return {
+        perMinute: pick(perMinute, fallback.perMinute),
+        userPerDay: pick(userPerDay, fallback.userPerDay),
+        anonPerDay: pick(anonPerDay, fallback.anonPerDay),
+    };
+};
+
+/**
+ * Counts requests per (bucket, client). `consume` either records the request or
+ * explains why it is refused, with the seconds until it would be allowed.
+ */
+export const createUsageLimiter = ({ limits = DEFAULT_LIMITS, now = () => Date.now() } = {}) => {
+    const minutes = new Map(); // `${bucket}|${client}` -> { start, count }
+    const days = new Map(); // `${bucket}|${client}` -> { day, count }
+
+    const sweep = (time) => {
+        const today = Math.floor(time / DAY_MS);
+        for (const [key, entry] of minutes) if (time - entry.start >= MINUTE_MS) minutes.delete(key);
+        for (const [key, entry] of days) if (entry.day !== today) days.delete(key);
+    };
+
+    const consume = (bucket, client, { isUser = false } = {}) => {
+        const limit = limits[bucket];
+        if (!limit) return { allowed: true };
+
+        const time = now();
+        if (minutes.size + days.size > SWEEP_THRESHOLD) sweep(time);
+
+        const key = `${bucket}|${client}`;
+        const day = Math.floor(time / DAY_MS);
+        const dailyMax = isUser ? limit.userPerDay : limit.anonPerDay;
+
+        let minute = minutes.get(key);
+        if (!minute || time - minute.start >= MINUTE_MS) minute = { start: time, count: 0 };
+        let daily = days.get(key);
+        if (!daily || daily.day !== day) daily = { day, count: 0 };
+
+        if (dailyMax && daily.count >= dailyMax) {
+            return {
+                allowed: false,
+                code: 'daily_limit',
+                limit: dailyMax,
+                retryAfter: Math.ceil(((day + 1) * DAY_MS - time) / 1000),
+            };
+        }
+        if (limit.perMinute && minute.count >= limit.perMinute) {
+            return {
+                allowed: false,
+                code: 'rate_limited',
+                limit: limit.perMinute,
+                retryAfter: Math.max(1, Math.ceil((minute.start + MINUTE_MS - time) / 1000)),
+            };
+        }
+
+        minute.count++;
+        daily.count++;
+        minutes.set(key, minute);
+        days.set(key, daily);
+        return {
+            allowed: true,
+            remainingToday: dailyMax ? dailyMax - daily.count : null,
+        };
+    };
+
+    return { consume };
+};
+
+// Callers verified by the auth middleware are counted by account; everyone else by IP.
+export const clientFor = (req) => {
+    if (req.user?.id) return { client: `user:${req.user.id}`, isUser: true };
+    return { client: `ip:${req.ip}`, isUser: false };
+};
+
+/**
+ * Express middleware for one bucket. Refusals are 429s with Retry-After and a
+ * machine-readable `code` so the client can tell a daily cap from a burst limit.
+ */
+export const rateLimit = (limiter, bucket) => (req, res, next) => {
+    if (!limiter) return next();
+
+    const { client, isUser } = clientFor(req);
+    const result = limiter.consume(bucket, client, { isUser });
+    if (result.allowed) {
+        if (result.remainingToday !== null && result.remainingToday !== undefined) {
+            res.set('X-Quota-Remaining', String(result.remainingToday));
+        }
+        return next();
+    }
+
+    res.set('Retry-After', String(result.retryAfter));
+    res.status(429).json({
+        error: result.code === 'daily_limit'
+            ? `Daily limit of ${result.limit} requests reached. Try again tomorrow.`
+            : "Too many requests. Please slow down.",
+        code: result.code,
+        retryAfter: result.retryAfter,
+    });
+};
+
+/**
+ * RATE_LIMITS = on (default) | off
+ * RATE_LIMIT_<BUCKET> = perMinute/userPerDay/anonPerDay, e.g. RATE_LIMIT_CHAT=20/500/50
+ */
+export const createUsageLimiterFromEnv = (env = process.env) => {
+    if ((env.RATE_LIMITS || 'on').toLowerCase() === 'off') return null;
+    const limits = Object.fromEntries(Object.entries(DEFAULT_LIMITS)
+        .map(([bucket, fallback]) => [bucket, parseLimit(env[`RATE_LIMIT_${bucket.toUpperCase()}`], fallback)]));
+    return createUsageLimiter({ limits });
+};
@@ -0,0 +1,36 @@
+// Reading aids: furigana, pinyin, Jyutping or transliteration for each token of targetText.
+// The registry (languages.js) says which aid a language gets; this module builds the prompt
+// fragment and validates what the model sends back.
+
+export const MAX_READING_TOKENS = 200;
+
+const stripSpace = (text) => text.replace(/\s+/g, '');
+
+// Schema field and instructions for getSystemInstruction; empty for languages without an aid.
+export const readingSchema = (language) => (language.readingAid
+    ? ',\n    "reading": [{ "text": string, "reading": string }]'
+    : '');
+
+export const describeReadingAid = (language) => {
+    if (!language.readingAid) return '';
+    const { label, instruction } = language.readingAid;
+    return `"reading" is a ${label} guide for "targetText": split it into consecutive words or short phrases, in order, so that joining every "text" gives back "targetText" (spaces aside). Give each token ${instruction}. Use an empty "reading" for punctuation.`;
+};
+
+/**
+ * Keeps well-formed tokens only, and only when they add up to targetText;
+ * a guide that drifts from the sentence would annotate the wrong characters.
+ * Returns undefined when there is nothing usable.
+ */
+export const normalizeReading = (tokens, targetText) => {
+    if (!Array.isArray(tokens) || typeof targetText !== 'string' || !targetText) return undefined;
+
+    const reading = tokens
+        .filter(token => token && typeof token.text === 'string' && token.text)
+        .slice(0, MAX_READING_TOKENS)
+        .map(token => ({ text: token.text, reading: typeof token.reading === 'string' ? token.reading.trim() : '' }));
+
+    if (!reading.some(token => token.reading)) return undefined;
+    if (stripSpace(reading.map(token => token.text).join('')) !== stripSpace(targetText)) return undefined;
+    return reading;
+};
@@ -0,0 +1,151 @@
+import { CEFR_LEVELS } from './proficiency.js';
+
+// Scenario definitions: built-ins plus instructor-authored rows in the `scenarios` table.
+
+export const SCENARIO_ICONS = ['sparkles', 'coffee', 'plane', 'book', 'briefcase', 'stethoscope', 'shopping-bag', 'home', 'utensils', 'train', 'users', 'message'];
+
+// Built-in ids are the old Scenarios enum values so existing chat_history rows still match.
+export const BUILT_IN_SCENARIOS = [
+    {
+        id: 'Introduction & Basics',
+        title: 'Basics',
+        description: 'Start from scratch',
+        setting: 'A relaxed first meeting between two new friends.',
+        tutorRole: 'A friendly new acquaintance',
+        goals: ['Greet and introduce yourself', 'Say where you are from', 'Ask simple personal questions'],
+        targetVocabulary: [],
+        level: 'A1',
+        icon: 'sparkles',
+    },
+    {
+        id: 'Ordering at a Café',
+        title: 'At a Café',
+        description: 'Order food & drinks',
+        setting: 'A busy neighbourhood café at lunchtime.',
+        tutorRole: 'The waiter taking the order',
+        goals: ['Order food and drinks', 'Ask about the menu', 'Ask for the bill'],
+        targetVocabulary: [],
+        level: 'A2',
+        icon: 'coffee',
+    },
+    {
+        id: 'Asking for Directions',
+        title: 'Travel',
+        description: 'Ask for directions',
+        setting: 'A street corner in an unfamiliar city.',
+        tutorRole: 'A helpful local passer-by',
+        goals: ['Ask how to get somewhere', 'Understand directions', 'Ask about transport'],
+        targetVocabulary: [],
+        level: 'A2',
+        icon: 'plane',
+    },
+    {
+        id: 'Discussing Hobbies',
+        title: 'Hobbies',
+        description: 'Discussing Hobbies',
+        setting: 'A casual chat between friends over the weekend.',
+        tutorRole: 'A curious friend',
+        goals: ['Talk about what you like doing', 'Say how often you do it', 'Ask about the other person\'s hobbies'],
+        targetVocabulary: [],
+        level: 'B1',
+        icon: 'book',
+    },
+].map(scenario => ({ ...scenario, builtIn: true, isPublic: true }));
+
+export const findBuiltInScenario = (id) => BUILT_IN_SCENARIOS.find(scenario => scenario.id === id) || null;
+
+const cleanList = (value) => (value || [])
+    .map(item => String(item).trim())
+    .filter(Boolean)
+    .slice(0, 30);
+
+// Optional fields may be left out or null, but must have the right type when given.
+const TEXT_FIELDS = { description: 200, setting: 1000, tutorRole: 300 };
+const LIST_FIELDS = ['goals', 'targetVocabulary'];
+const isMissing = (value) => value === undefined || value === null;
+const isListItem = (item) => typeof item === 'string' || Number.isFinite(item);
+
+const findTypeError = (input) => {
+    for (const field of Object.keys(TEXT_FIELDS)) {
+        if (!isMissing(input[field]) && typeof input[field] !== 'string') return `${field} must be a string`;
+    }
+    for (const field of LIST_FIELDS) {
+        const value = input[field];
+        if (!isMissing(value) && (!Array.isArray(value) || !value.every(isListItem))) {
+            return `${field} must be a list of strings`;
+        }
+    }
+    if (!isMissing(input.isPublic) && typeof input.isPublic !== 'boolean') return "isPublic must be true or false";
+    return null;
+};
+
+/**
+ * Validates a create/update payload. Returns { value } or { error }.
+ */
+export const validateScenario = (input) => {
+    const title = typeof input?.title === 'string' ? input.title.trim() : '';
+    if (!title) return { error: "Title is required" };
+    if (title.length > 80) return { error: "Title must be 80 characters or fewer" };
+
+    const typeError = findTypeError(input);
+    if (typeError) return { error: typeError };
+
+    const level = input.level || 'A2';
+    if (!CEFR_LEVELS.includes(level)) return { error: `Level must be one of ${CEFR_LEVELS.join(', ')}` };
+
+    const icon = input.icon || 'message';
+    if (!SCENARIO_ICONS.includes(icon)) return { error: `Unknown icon "${icon}"` };
+
+    return {
+        value: {
+            title,
+            description: (input.description || '').trim().slice(0, TEXT_FIELDS.description),
+            setting: (input.setting || '').trim().slice(0, TEXT_FIELDS.setting),
+            tutorRole: (input.tutorRole || '').trim().slice(0, TEXT_FIELDS.tutorRole),
+            goals: cleanList(input.goals),
+            targetVocabulary: cleanList(input.targetVocabulary),
+            level,
+            icon,
+            isPublic: Boolean(input.isPublic),
+        }
+    };
+};
+
+export const toScenarioRow = (scenario) => ({
+    title: scenario.title,
+    description: scenario.description,
+    setting: scenario.setting,
+    tutor_role: scenario.tutorRole,
+    goals: scenario.goals,
+    target_vocabulary: scenario.targetVocabulary,
+    level: scenario.level,
+    icon: scenario.icon,
+    is_public: scenario.isPublic,
+});
+
+export const fromScenarioRow = (row) => ({
+    id: row.id,
+    title: row.title,
+    description: row.description || '',
+    setting: row.setting || '',
+    tutorRole: row.tutor_role || '',
+    goals: row.goals || [],
+    targetVocabulary: row.target_vocabulary || [],
+    level: row.level || 'A2',
+    icon: row.icon || 'message',
+    isPublic: Boolean(row.is_public),
+    ownerId: row.user_id,
+    builtIn: false,
+});
+
+// Prompt block describing the role-play for getSystemInstruction.
+export const describeScenario = (scenario) => {
+    if (!scenario) return '';
+    const lines = [`- Title: ${scenario.title}`];
+    if (scenario.setting) lines.push(`- Setting: ${scenario.setting}`);
+    if (scenario.tutorRole) lines.push(`- Your role: ${scenario.tutorRole}. Stay in character while still tutoring.`);
+    if (scenario.goals?.length) lines.push(`- Learner goals: ${scenario.goals.join('; ')}`);
+    if (scenario.targetVocabulary?.length) lines.push(`- Target vocabulary to weave in naturally: ${scenario.targetVocabulary.join(', ')}`);
+    if (scenario.level) lines.push(`- Scenario difficulty: ${scenario.level} (CEFR)`);
+    return lines.join('\n');
+};
@@ -0,0 +1,57 @@
+// Conversations as named sessions: chat_history rows share a session_id, and one
+// `chat_sessions` row per session holds what the list shows (title, archive flag,
+// preview, message count), created with the session's first turn.
+
+export const MAX_SESSION_TITLE_LENGTH = 80;
+export const MAX_LISTED_SESSIONS = 200;
+const PREVIEW_LENGTH = 80;
+
+export const SESSION_COLUMNS = 'id, title, archived, language, scenario, preview, message_count, started_at, last_message_at';
+
+// Session ids come from the client and end up in queries, so keep them to a plain token
+export const isSessionId = (value) => typeof value === 'string' && /^[\w-]{1,64}$/.test(value);
+
+/**
+ * Validates a rename/archive payload. Returns { value } or { error }.
+ * An empty title clears it, so the list falls back to the preview.
+ */
+export const validateSessionUpdate = (input) => {
+    const value = {};
+    if (input?.title !== undefined) {
+        if (input.title !== null && typeof input.title !== 'string') return { error: "Title must be a string" };
+        const title = (input.title || '').trim();
+        if (title.length > MAX_SESSION_TITLE_LENGTH) return { error: `Title must be ${MAX_SESSION_TITLE_LENGTH} characters or fewer` };
+        value.title = title || null;
+    }
+    if (input?.archived !== undefined) {
+        if (typeof input.archived !== 'boolean') return { error: "Archived must be true or false" };
+        value.archived = input.archived;
+    }
+    if (Object.keys(value).length === 0) return { error: "Nothing to update" };
+    return { value };
+};
+
+// What the learner said, typed or transcribed, shortened for the session list
+export const sessionPreview = (parts) => {
+    const list = Array.isArray(parts) ? parts : [];
+    const text = list.find(part => part.text)?.text || list.find(part => part.transcript)?.transcript || '';
+    return text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH - 1)}…` : text;
+};
+
+export const fromSessionRow = (row) => ({
+    id: row.id,
+    title: row.title || null,
+    preview: row.preview || '',
+    language: row.language,
+    scenario: row.scenario,
+    messageCount: row.message_count || 0,
+    startedAt: row.started_at,
+    updatedAt: row.last_message_at || row.started_at,
+    archived: Boolean(row.archived),
+});
+
+// Recording keys in a session's chat_history rows, for deleting them from audio storage
+export const recordingKeys = (rows) => (rows || [])
+    .flatMap(row => (Array.isArray(row.content) ? row.content : []))
+    .map(part => part.audio?.key)
+    .filter(Boolean);
@@ -0,0 +1,78 @@
+// SM-2 spaced repetition scheduling and card validation for the vocabulary deck.
+// Pure functions only, so the review routes and tests can share them.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const MIN_EASE_FACTOR = 1.3;
+export const DEFAULT_EASE_FACTOR = 2.5;
+
+export const createCardSchedule = (now = new Date()) => ({
+    ease_factor: DEFAULT_EASE_FACTOR,
+    interval_days: 0,
+    repetitions: 0,
+    due_at: now.toISOString(),
+});
+
+export const MAX_VOCAB_TEXT_LENGTH = 200;
+export const MAX_VOCAB_TRANSLATION_LENGTH = 500;
+export const VOCAB_SOURCES = ['tutor', 'correction', 'gloss'];
+
+/**
+ * Validates a card to save. Returns { value } or { error }.
+ * The language is checked against the registry by the route.
+ */
+export const validateVocabItem = (input) => {
+    if (typeof input?.text !== 'string' || !input.text.trim()) return { error: "Text is required" };
+    const text = input.text.trim();
+    if (text.length > MAX_VOCAB_TEXT_LENGTH) return { error: `Text must be ${MAX_VOCAB_TEXT_LENGTH} characters or fewer` };
+
+    const translation = input.translation ?? null;
+    if (translation !== null && typeof translation !== 'string') return { error: "Translation must be a string" };
+    if (translation && translation.length > MAX_VOCAB_TRANSLATION_LENGTH) {
+        return { error: `Translation must be ${MAX_VOCAB_TRANSLATION_LENGTH} characters or fewer` };
+    }
+
+    const source = input.source ?? 'tutor';
+    if (!VOCAB_SOURCES.includes(source)) return { error: `Source must be one of: ${VOCAB_SOURCES.join(', ')}` };
+
+    return { value: { text, translation: translation || null, source } };
+};
+
+// Review grades are whole numbers from 0 to 5.
+export const isReviewQuality = (quality) => Number.isInteger(quality) && quality >= 0 && quality <= 5;
+
+/**
+ * Applies one review to a card.
+ * quality: 0 (blackout) .. 5 (perfect recall). Anything below 3 resets the card.
+ */
+export const scheduleReview = (card, quality, now = new Date()) => {
+    const q = Math.max(0, Math.min(5, Math.round(Number(quality))));
+    if (Number.isNaN(q)) {
+        throw new Error("Quality must be a number between 0 and 5");
+    }
+
+    let easeFactor = card.ease_factor ?? DEFAULT_EASE_FACTOR;
+    let repetitions = card.repetitions ?? 0;
+    let interval = card.interval_days ?? 0;
+
+    if (q < 3) {
+        repetitions = 0;
+        interval = 1;
+    } else {
+        if (repetitions === 0) interval = 1;
+        else if (repetitions === 1) interval = 6;
+        else interval = Math.round(interval * easeFactor);
+        repetitions += 1;
+    }
+
+    easeFactor = easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02));
+    if (easeFactor < MIN_EASE_FACTOR) easeFactor = MIN_EASE_FACTOR;
+
+    return {
+        ease_factor: Number(easeFactor.toFixed(2)),
+        interval_days: interval,
+        repetitions,
+        due_at: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+        last_reviewed_at: now.toISOString(),
+    };
+};
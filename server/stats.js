@@ -0,0 +1,136 @@
+// Progress dashboard: per-language aggregates of the learner's turns (chat_history)
+// and corrections (mistakes), bucketed by day in the learner's time zone.
+
+export const DEFAULT_STATS_DAYS = 30;
+export const MAX_STATS_DAYS = 90;
+export const STATS_PAGE_SIZE = 1000; // Supabase's default cap on rows per request
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Recordings don't store their length, so voice time is estimated from the transcript
+const SPOKEN_WORDS_PER_SECOND = 2;
+const MIN_VOICE_SECONDS = 2;
+
+export const isTimeZone = (value) => {
+    if (typeof value !== 'string' || !value) return false;
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: value });
+        return true;
+    } catch (e) {
+        return false;
+    }
+};
+
+// YYYY-MM-DD of a timestamp in the given time zone
+export const dayKey = (timestamp, timeZone = 'UTC') => new Intl.DateTimeFormat('en-CA', {
+    timeZone, year: 'numeric', month: '2-digit', day: '2-digit'
+}).format(new Date(timestamp));
+
+// The last `count` day keys, oldest first, ending with today in the given time zone.
+export const lastDays = (count, timeZone = 'UTC', now = Date.now()) => {
+    const [year, month, day] = dayKey(now, timeZone).split('-').map(Number);
+    return Array.from({ length: count }, (_, i) =>
+        new Date(Date.UTC(year, month - 1, day - (count - 1 - i))).toISOString().slice(0, 10));
+};
+
+// Start of the query window: a day of slack covers any time zone's offset
+export const statsWindowStart = (days, now = Date.now()) => new Date(now - (days + 1) * DAY_MS).toISOString();
+
+export const readStatsDays = (value) => {
+    const days = parseInt(value, 10);
+    return Number.isFinite(days) && days > 0 ? Math.min(days, MAX_STATS_DAYS) : DEFAULT_STATS_DAYS;
+};
+
+const isVoiceTurn = (content) => Array.isArray(content) && content.some(part => part.audio);
+
+export const estimateVoiceSeconds = (content) => {
+    if (!isVoiceTurn(content)) return 0;
+    const transcript = content.find(part => part.transcript)?.transcript || '';
+    const words = transcript.split(/\s+/).filter(Boolean).length;
+    return Math.max(MIN_VOICE_SECONDS, words / SPOKEN_WORDS_PER_SECOND);
+};
+
+const toMinutes = (seconds) => Math.round(seconds / 6) / 10;
+const rate = (mistakes, turns) => (turns > 0 ? Math.round((mistakes / turns) * 100) / 100 : null);
+
+/**
+ * Aggregates learner turns (chat_history rows with role 'user') and mistakes rows
+ * into per-language stats, busiest language first. Every day of the window is
+ * listed, so charts get zeros instead of gaps. `scenarioTitles` maps scenario ids
+ * to display titles.
+ */
+export const buildStats = (turnRows, mistakeRows, { days = DEFAULT_STATS_DAYS, timeZone = 'UTC', now = Date.now(), scenarioTitles = {} } = {}) => {
+    const dayKeys = lastDays(days, timeZone, now);
+    const inWindow = new Set(dayKeys);
+    const byLanguage = new Map();
+
+    const statsFor = (language) => {
+        if (!byLanguage.has(language)) {
+            byLanguage.set(language, {
+                daily: new Map(dayKeys.map(date => [date, { date, turns: 0, voiceSeconds: 0, mistakes: 0 }])),
+                scenarios: new Map(),
+                errorTypes: new Map(),
+            });
+        }
+        return byLanguage.get(language);
+    };
+
+    for (const row of turnRows || []) {
+        const date = dayKey(row.created_at, timeZone);
+        if (!row.language || !inWindow.has(date)) continue;
+        const stats = statsFor(row.language);
+        const day = stats.daily.get(date);
+        day.turns += 1;
+        day.voiceSeconds += estimateVoiceSeconds(row.content);
+
+        if (row.scenario) {
+            const scenario = stats.scenarios.get(row.scenario) || { id: row.scenario, title: scenarioTitles[row.scenario] || row.scenario, turns: 0, lastPracticedAt: null };
+            scenario.turns += 1;
+            if (!scenario.lastPracticedAt || row.created_at > scenario.lastPracticedAt) scenario.lastPracticedAt = row.created_at;
+            stats.scenarios.set(row.scenario, scenario);
+        }
+    }
+
+    for (const row of mistakeRows || []) {
+        const date = dayKey(row.created_at, timeZone);
+        if (!row.language || !inWindow.has(date)) continue;
+        const stats = statsFor(row.language);
+        stats.daily.get(date).mistakes += 1;
+        const category = row.category || 'other';
+        stats.errorTypes.set(category, (stats.errorTypes.get(category) || 0) + 1);
+    }
+
+    const languages = [...byLanguage.entries()].map(([language, stats]) => {
+        const daily = [...stats.daily.values()];
+        const turns = daily.reduce((sum, day) => sum + day.turns, 0);
+        const mistakes = daily.reduce((sum, day) => sum + day.mistakes, 0);
+        const voiceSeconds = daily.reduce((sum, day) => sum + day.voiceSeconds, 0);
+        return {
+            language,
+            totals: {
+                turns,
+                voiceMinutes: toMinutes(voiceSeconds),
+                mistakes,
+                mistakeRate: rate(mistakes, turns),
+                activeDays: daily.filter(day => day.turns > 0).length,
+                scenarios: stats.scenarios.size,
+            },
+            daily: daily.map(day => ({
+                date: day.date,
+                turns: day.turns,
+                voiceMinutes: toMinutes(day.voiceSeconds),
+                mistakes: day.mistakes,
+                mistakeRate: rate(day.mistakes, day.turns),
+            })),
+            scenarios: [...stats.scenarios.values()].sort((a, b) => b.turns - a.turns),
+            errorTypes: [...stats.errorTypes.entries()]
+                .map(([category, count]) => ({ category, count }))
+                .sort((a, b) => b.count - a.count),
+        };
+    });
+
+    return {
+        days: dayKeys,
+        timeZone,
+        languages: languages.sort((a, b) => b.totals.turns - a.totals.turns),
+    };
+};
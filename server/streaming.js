@@ -0,0 +1,51 @@
+// Server-Sent Events helpers for streaming tutor replies.
+
+export const openSseStream = (res) => {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx/Render)
+    res.flushHeaders?.();
+};
+
+export const writeSseEvent = (res, event, data) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+const ESCAPES = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+/**
+ * Reads the (possibly unterminated) string value of `key` out of a partial JSON buffer.
+ * Returns null until the key has appeared. Trailing half-escapes are held back
+ * so the caller never emits a broken character.
+ */
+export const extractPartialString = (buffer, key) => {
+    const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(buffer);
+    if (!match) return null;
+
+    let out = '';
+    let i = match.index + match[0].length;
+    while (i < buffer.length) {
+        const ch = buffer[i];
+        if (ch === '"') break;
+        if (ch !== '\\') {
+            out += ch;
+            i += 1;
+            continue;
+        }
+
+        const next = buffer[i + 1];
+        if (next === undefined) break;
+        if (next === 'u') {
+            const hex = buffer.slice(i + 2, i + 6);
+            if (hex.length < 4) break;
+            out += String.fromCharCode(parseInt(hex, 16));
+            i += 6;
+        } else {
+            out += ESCAPES[next] ?? next;
+            i += 2;
+        }
+    }
+    return out;
+};
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+    audioExtensionFor,
+    audioContentTypeFor,
+    createFileSystemAudioStore,
+    createSupabaseAudioStore,
+    createAudioStoreFromEnv,
+} from '../audioStorage.js';
+
+describe('audioExtensionFor', () => {
+    it('ignores codec parameters and falls back to bin', () => {
+        expect(audioExtensionFor('audio/webm;codecs=opus')).toBe('webm');
+        expect(audioExtensionFor('audio/mp4')).toBe('m4a');
+        expect(audioExtensionFor('video/x-unknown')).toBe('bin');
+        expect(audioContentTypeFor('abc.m4a')).toBe('audio/mp4');
+        expect(audioExtensionFor('audio/aac')).toBe('aac');
+        expect(audioContentTypeFor('abc.aac')).toBe('audio/aac');
+    });
+});
+
+describe('createFileSystemAudioStore', () => {
+    let dir;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'audio-store-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('saves recordings under random keys and serves them back', async () => {
+        const store = createFileSystemAudioStore({ dir });
+        const key = await store.save({ userId: 'u1', data: Buffer.from('voice'), mimeType: 'audio/webm' });
+
+        expect(key).toMatch(/^[0-9a-f-]{36}\.webm$/);
+        expect((await store.read(key)).toString()).toBe('voice');
+        expect(await store.resolveUrls({ keys: [key] })).toEqual({ [key]: `/api/audio/${key}` });
+    });
+
+    it('refuses keys that could escape the directory', async () => {
+        const store = createFileSystemAudioStore({ dir });
+
+        expect(await store.read('../secret.webm')).toBeNull();
+    });
+
+    it('removes recordings and ignores unknown keys', async () => {
+        const store = createFileSystemAudioStore({ dir });
+        const key = await store.save({ userId: 'u1', data: Buffer.from('voice'), mimeType: 'audio/webm' });
+
+        await store.remove({ keys: [key, '../secret.webm'] });
+        expect(await store.read(key)).toBeNull();
+    });
+});
+
+describe('createSupabaseAudioStore', () => {
+    it('uploads into the user folder and signs URLs in one batch', async () => {
+        const upload = vi.fn().mockResolvedValue({ error: null });
+        const createSignedUrls = vi.fn(async (keys) => ({
+            data: keys.map(key => ({ path: key, signedUrl: `https://storage.test/${key}?token=t` })),
+            error: null
+        }));
+        const from = vi.fn(() => ({ upload, createSignedUrls }));
+        const db = { storage: { from } };
+        const store = createSupabaseAudioStore({ bucket: 'voice' });
+
+        const key = await store.save({ db, userId: 'u1', data: Buffer.from('x'), mimeType: 'audio/ogg' });
+        const urls = await store.resolveUrls({ db, keys: [key] });
+
+        expect(from).toHaveBeenCalledWith('voice');
+        expect(key).toMatch(/^u1\/[0-9a-f-]{36}\.ogg$/);
+        expect(upload).toHaveBeenCalledWith(key, expect.any(Buffer), { contentType: 'audio/ogg' });
+        expect(urls[key]).toBe(`https://storage.test/${key}?token=t`);
+    });
+
+    it('does nothing without a database client', async () => {
+        const store = createSupabaseAudioStore();
+
+        expect(await store.save({ db: null, userId: 'u1', data: Buffer.from('x'), mimeType: 'audio/webm' })).toBeNull();
+        expect(await store.resolveUrls({ db: null, keys: ['a'] })).toEqual({});
+    });
+});
+
+describe('createAudioStoreFromEnv', () => {
+    it('defaults to Supabase and honours the other backends', () => {
+        expect(createAudioStoreFromEnv({}).name).toBe('supabase');
+        expect(createAudioStoreFromEnv({ AUDIO_STORAGE_BACKEND: 'fs' }).name).toBe('fs');
+        expect(createAudioStoreFromEnv({ AUDIO_STORAGE_BACKEND: 'none' })).toBeNull();
+    });
+});
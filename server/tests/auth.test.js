@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import crypto from 'crypto';
+import request from 'supertest';
+import { verifyAccessToken, createTokenVerifierFromEnv } from '../auth.js';
+import { loadApp } from './helpers.js';
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+});
+
+const SECRET = 'test-jwt-secret-with-at-least-32-characters';
+const USER_ID = '11111111-2222-3333-4444-555555555555';
+const NOW = Date.UTC(2026, 0, 1, 12, 0, 0);
+
+const encode = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+// Signs a token the way Supabase Auth does for a signed-in user
+const signToken = (claims = {}, { secret = SECRET, alg = 'HS256' } = {}) => {
+    const body = `${encode({ alg, typ: 'JWT' })}.${encode({
+        sub: USER_ID,
+        role: 'authenticated',
+        aud: 'authenticated',
+        exp: Math.floor(NOW / 1000) + 3600,
+        ...claims,
+    })}`;
+    const signature = crypto.createHmac('sha256', secret).update(body).digest('base64url');
+    return `${body}.${signature}`;
+};
+
+describe('verifyAccessToken', () => {
+    it('accepts a valid token and returns its claims', () => {
+        const { claims, error } = verifyAccessToken(signToken(), SECRET, NOW);
+        expect(error).toBeUndefined();
+        expect(claims.sub).toBe(USER_ID);
+    });
+
+    it('rejects tokens signed with another secret or tampered with', () => {
+        expect(verifyAccessToken(signToken({}, { secret: 'another-secret' }), SECRET, NOW).error).toMatch(/signature/);
+
+        const [header, , signature] = signToken().split('.');
+        const forged = `${header}.${encode({ sub: 'someone-else', role: 'authenticated', exp: Math.floor(NOW / 1000) + 3600 })}.${signature}`;
+        expect(verifyAccessToken(forged, SECRET, NOW).error).toMatch(/signature/);
+    });
+
+    it('rejects expired, not-yet-valid and missing expiry tokens', () => {
+        expect(verifyAccessToken(signToken({ exp: Math.floor(NOW / 1000) - 60 }), SECRET, NOW).error).toBe("Token expired");
+        expect(verifyAccessToken(signToken({ nbf: Math.floor(NOW / 1000) + 600 }), SECRET, NOW).error).toBe("Token not yet valid");
+        expect(verifyAccessToken(signToken({ exp: undefined }), SECRET, NOW).error).toBe("Token expired");
+    });
+
+    it('rejects the anon key and other algorithms', () => {
+        expect(verifyAccessToken(signToken({ role: 'anon', sub: undefined }), SECRET, NOW).error).toMatch(/signed-in user/);
+        expect(verifyAccessToken(signToken({}, { alg: 'none' }), SECRET, NOW).error).toMatch(/algorithm/);
+        expect(verifyAccessToken('not-a-token', SECRET, NOW).error).toBe("Malformed token");
+    });
+});
+
+describe('createTokenVerifierFromEnv', () => {
+    it('verifies locally when the JWT secret is set', async () => {
+        const verify = createTokenVerifierFromEnv({ SUPABASE_JWT_SECRET: SECRET }, null, () => NOW);
+        expect(await verify(signToken())).toEqual({ user: { id: USER_ID } });
+        expect((await verify(signToken({}, { secret: 'nope' }))).error).toBeDefined();
+    });
+
+    it('falls back to Supabase Auth and caches the answer', async () => {
+        const getUser = vi.fn().mockResolvedValue({ data: { user: { id: USER_ID } }, error: null });
+        const verify = createTokenVerifierFromEnv({}, { auth: { getUser } }, () => NOW);
+        const token = signToken();
+
+        expect(await verify(token)).toEqual({ user: { id: USER_ID } });
+        expect(await verify(token)).toEqual({ user: { id: USER_ID } });
+        expect(getUser).toHaveBeenCalledTimes(1);
+
+        getUser.mockResolvedValueOnce({ data: { user: null }, error: { message: 'invalid JWT' } });
+        expect(await verify(signToken({ sub: 'other' }))).toEqual({ error: 'invalid JWT' });
+    });
+
+    it('has nothing to verify with when Supabase is not configured', () => {
+        expect(createTokenVerifierFromEnv({}, null)).toBeNull();
+    });
+});
+
+describe('authenticated routes', () => {
+    const liveToken = (claims = {}) => signToken({ exp: Math.floor(Date.now() / 1000) + 3600, ...claims });
+
+    it('takes the user from the token and rejects mismatched user ids', async () => {
+        const app = await loadApp({ SUPABASE_JWT_SECRET: SECRET });
+
+        const forged = await request(app)
+            .get(`/api/vocab?userId=99999999-2222-3333-4444-555555555555`)
+            .set('Authorization', `Bearer ${liveToken()}`);
+        expect(forged.status).toBe(403);
+
+        const unsigned = await request(app).get(`/api/vocab?userId=${USER_ID}`);
+        expect(unsigned.status).toBe(401);
+
+        const anonymous = await request(app).get('/api/vocab');
+        expect(anonymous.status).toBe(401);
+        expect(anonymous.body.error).toBe("Sign-in required");
+
+        // Identity checks pass; this test server simply has no database
+        const own = await request(app)
+            .get(`/api/vocab?userId=${USER_ID}`)
+            .set('Authorization', `Bearer ${liveToken()}`);
+        expect(own.status).toBe(503);
+    });
+
+    it('refuses invalid tokens but leaves anonymous routes open', async () => {
+        const app = await loadApp({ SUPABASE_JWT_SECRET: SECRET });
+
+        const expired = await request(app)
+            .post('/api/history')
+            .set('Authorization', `Bearer ${signToken({ exp: Math.floor(Date.now() / 1000) - 3600 })}`)
+            .send({ userId: USER_ID, language: 'French', scenario: 'cafe' });
+        expect(expired.status).toBe(401);
+        expect(expired.body.code).toBe('invalid_token');
+
+        expect((await request(app).get('/api/languages')).status).toBe(200);
+    });
+
+    it('counts token checks by IP so invalid tokens are throttled too', async () => {
+        const app = await loadApp({ SUPABASE_JWT_SECRET: SECRET, RATE_LIMIT_AUTH: '3/0/0' });
+
+        const statuses = [];
+        for (let i = 0; i < 4; i++) {
+            statuses.push((await request(app).get('/api/vocab').set('Authorization', `Bearer bogus-${i}`)).status);
+        }
+        expect(statuses).toEqual([401, 401, 401, 429]);
+
+        // Anonymous requests don't spend the token budget
+        expect((await request(app).get('/api/languages')).status).toBe(200);
+    });
+});
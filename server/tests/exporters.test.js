@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import request from 'supertest';
+import {
+    historyRowsToMessages,
+    sanitizeMessages,
+    toMarkdownTranscript,
+    toDeckPairs,
+    toCsv,
+    toAnkiText,
+    buildExport,
+} from '../exporters.js';
+import { loadApp } from './helpers.js';
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+});
+
+const tutor = (targetText, english, correction) => ({
+    id: targetText, sender: 'TUTOR', text: '', timestamp: 0,
+    tutorResponse: { targetText, translations: english ? { en: english } : {} }, correction
+});
+const learner = (text) => ({ id: text, sender: 'USER', text, timestamp: 0 });
+
+const meta = { languageName: 'French', tutorName: 'Pierre', scenarioTitle: 'At a Café', exportedAt: new Date('2026-01-02T10:00:00Z') };
+
+describe('historyRowsToMessages', () => {
+    it('rebuilds both sides of the dialogue, including legacy english/chinese replies', () => {
+        const messages = historyRowsToMessages([
+            { id: 1, role: 'user', content: [{ audio: { key: 'k' } }, { transcript: 'Je suis allé' }], audio_url: 'https://a/k', created_at: '2026-01-01T00:00:00Z' },
+            { id: 2, role: 'model', content: [{ text: JSON.stringify({ response: { targetText: 'Salut', english: 'Hi' }, correction: { hasMistake: false } }) }], created_at: '2026-01-01T00:00:01Z' },
+        ]);
+
+        expect(messages[0]).toMatchObject({ sender: 'USER', text: '', userAudioUrl: 'https://a/k', transcript: 'Je suis allé' });
+        expect(messages[1]).toMatchObject({ sender: 'TUTOR', text: 'Salut', tutorResponse: { translations: { en: 'Hi' } } });
+    });
+});
+
+describe('sanitizeMessages', () => {
+    it('drops placeholders and browser-only audio URLs', () => {
+        const messages = sanitizeMessages([
+            { ...learner('Bonjour'), userAudioUrl: 'blob:http://x/1' },
+            { ...tutor('…', ''), isLoading: true },
+        ]);
+
+        expect(messages).toHaveLength(1);
+        expect(messages[0].userAudioUrl).toBeUndefined();
+    });
+});
+
+describe('toMarkdownTranscript', () => {
+    it('puts corrections inline before the tutor reply', () => {
+        const markdown = toMarkdownTranscript([
+            learner('Je veux aller à le supermarché'),
+            tutor('Très bien !', 'Very good!', { hasMistake: true, correctedText: 'Je veux aller au supermarché', explanation: 'à + le = au' }),
+        ], meta);
+
+        expect(markdown).toContain('# French conversation: At a Café');
+        expect(markdown).toContain('> Je veux aller à le supermarché');
+        expect(markdown).toContain('> ✏️ **Correction:** Je veux aller au supermarché (à + le = au)');
+        expect(markdown.indexOf('Correction')).toBeLessThan(markdown.indexOf('**Pierre**'));
+        expect(markdown).toContain('_English: Very good!_');
+    });
+
+    it('shows what was heard in voice turns', () => {
+        const markdown = toMarkdownTranscript([
+            { id: 'v', sender: 'USER', text: '', timestamp: 0, transcript: 'Je suis allé' },
+            { id: 'w', sender: 'USER', text: '', timestamp: 0 },
+        ], meta);
+
+        expect(markdown).toContain('> 🎙️ Je suis allé');
+        expect(markdown).toContain('> _(voice message)_');
+    });
+});
+
+describe('decks', () => {
+    const messages = [tutor('Bonjour, ça va ?', 'Hello, how are you?'), learner('Oui'), tutor('Bonjour, ça va ?', 'Hello, how are you?'), tutor('Sans traduction', '')];
+
+    it('pairs tutor lines with translations once each', () => {
+        expect(toDeckPairs(messages)).toEqual([{ front: 'Bonjour, ça va ?', back: 'Hello, how are you?' }]);
+    });
+
+    it('quotes CSV fields that need it', () => {
+        expect(toCsv([{ front: 'Il a dit "oui"', back: 'He said yes' }])).toBe('Front,Back\n"Il a dit ""oui""",He said yes');
+    });
+
+    it('writes Anki import headers and tab-separated notes', () => {
+        const text = toAnkiText([{ front: 'Salut', back: 'Hi' }], { deckName: 'Polyglot Pal::French', tags: ['polyglot-pal'] });
+
+        expect(text.split('\n')).toEqual(['#separator:tab', '#html:false', '#notetype:Basic', '#deck:Polyglot Pal::French', '#tags:polyglot-pal', 'Salut\tHi']);
+    });
+});
+
+describe('buildExport', () => {
+    it('names files after the language and scenario', () => {
+        expect(buildExport('anki', [], meta).filename).toBe('french-at-a-café.txt');
+        expect(buildExport('pdf', [], meta)).toBeNull();
+    });
+});
+
+describe('/api/export', () => {
+    it('exports what a visitor has on screen', async () => {
+        const app = await loadApp();
+
+        const res = await request(app)
+            .post('/api/export')
+            .send({ language: 'French', scenario: 'Ordering at a Café', format: 'csv', messages: [tutor('Salut', 'Hi')] });
+
+        expect(res.status).toBe(200);
+        expect(res.headers['content-disposition']).toContain('french-at-a-caf%C3%A9.csv');
+        expect(res.text).toBe('Front,Back\nSalut,Hi');
+
+        const bad = await request(app).post('/api/export').send({ language: 'French', scenario: 'x', format: 'pdf' });
+        expect(bad.status).toBe(400);
+    });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import request from 'supertest';
+import { normalizeGloss, buildGlossInstruction, buildGlossContent, createGlossCacheKey, createGlossStoreFromEnv } from '../gloss.js';
+import { findLanguage } from '../languages.js';
+import { loadApp } from './helpers.js';
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+});
+
+describe('normalizeGloss', () => {
+    it('trims fields and falls back to the tapped word', () => {
+        expect(normalizeGloss({ lemma: ' ', partOfSpeech: 'verb ', definition: 'to eat', grammar: '', reading: null }, 'mange'))
+            .toEqual({ word: 'mange', lemma: 'mange', partOfSpeech: 'verb', definition: 'to eat', grammar: null, reading: null });
+    });
+
+    it('copes with a reply that is not an object', () => {
+        expect(normalizeGloss(null, '猫')).toMatchObject({ word: '猫', lemma: '猫', definition: '' });
+    });
+});
+
+describe('gloss prompts', () => {
+    it('writes definitions in the helper language and asks for the reading aid', () => {
+        const instruction = buildGlossInstruction(findLanguage('Japanese'), 'Korean');
+        expect(instruction).toContain('"definition" are in Korean');
+        expect(instruction).toContain("word's Furigana");
+        expect(buildGlossInstruction(findLanguage('German'), 'English')).toContain('Set "reading" to null.');
+    });
+
+    it('passes the sentence for context', () => {
+        expect(buildGlossContent('Bank', 'Ich sitze auf der Bank.')).toBe('Word: "Bank"\nSentence: "Ich sitze auf der Bank."');
+    });
+
+    it('keys the cache on the sentence too', () => {
+        expect(createGlossCacheKey('German', 'Bank', 'a', 'en')).not.toBe(createGlossCacheKey('German', 'Bank', 'b', 'en'));
+        expect(createGlossStoreFromEnv({ GLOSS_CACHE_BACKEND: 'none' })).toBeNull();
+    });
+});
+
+describe('/api/gloss with the fake provider', () => {
+    it('looks a word up once and serves repeats from the cache', async () => {
+        const app = await loadApp({ GLOSS_CACHE_BACKEND: 'memory' });
+        const body = { word: 'Maison', sentence: 'La Maison est grande.', language: 'French', helperLanguages: ['en'] };
+
+        const first = await request(app).post('/api/gloss').send(body);
+        expect(first.status).toBe(200);
+        expect(first.headers['x-cache']).toBe('MISS');
+        expect(first.body.gloss).toMatchObject({ word: 'Maison', lemma: 'maison', partOfSpeech: 'noun' });
+
+        const second = await request(app).post('/api/gloss').send(body);
+        expect(second.headers['x-cache']).toBe('HIT');
+        expect(second.body.gloss).toEqual(first.body.gloss);
+    });
+
+    it('rejects missing words and unknown languages', async () => {
+        const app = await loadApp({ GLOSS_CACHE_BACKEND: 'memory' });
+
+        expect((await request(app).post('/api/gloss').send({ language: 'French' })).status).toBe(400);
+        expect((await request(app).post('/api/gloss').send({ word: 'x', language: 'Klingon' })).status).toBe(400);
+        expect((await request(app).post('/api/gloss').send({ word: 'x'.repeat(41), language: 'French' })).status).toBe(400);
+    });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import {
+    normalizeHelperLanguages,
+    normalizeTutorResponse,
+    primaryTranslation,
+    translationsSchema,
+    DEFAULT_HELPER_LANGUAGES,
+} from '../helperLanguages.js';
+
+describe('normalizeHelperLanguages', () => {
+    it('keeps known codes in order, without duplicates, up to three', () => {
+        expect(normalizeHelperLanguages(['ko', 'xx', 'ko', 'pt', 'ar', 'en'])).toEqual(['ko', 'pt', 'ar']);
+    });
+
+    it('falls back to English and Chinese', () => {
+        expect(normalizeHelperLanguages(undefined)).toEqual(DEFAULT_HELPER_LANGUAGES);
+        expect(normalizeHelperLanguages(['xx'])).toEqual(['en', 'zh']);
+    });
+});
+
+describe('normalizeTutorResponse', () => {
+    it('maps the legacy english/chinese shape onto translations', () => {
+        expect(normalizeTutorResponse({ targetText: 'Salut', english: 'Hi', chinese: '你好' }))
+            .toEqual({ targetText: 'Salut', translations: { en: 'Hi', zh: '你好' } });
+    });
+
+    it('keeps a translations map and drops empty entries', () => {
+        expect(normalizeTutorResponse({ targetText: 'Olá', translations: { ko: '안녕', ar: '' } }))
+            .toEqual({ targetText: 'Olá', translations: { ko: '안녕' } });
+    });
+});
+
+describe('primaryTranslation', () => {
+    it('follows helper order', () => {
+        const response = { targetText: 'Salut', translations: { zh: '你好', ko: '안녕' } };
+
+        expect(primaryTranslation(response, ['ko', 'zh'])).toBe('안녕');
+        expect(primaryTranslation(response)).toBe('你好');
+    });
+});
+
+describe('translationsSchema', () => {
+    it('lists one key per helper language', () => {
+        expect(translationsSchema(['pt', 'ar'])).toBe('{ "pt": string, "ar": string }');
+    });
+});
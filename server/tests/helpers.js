@@ -0,0 +1,99 @@
+import { vi } from 'vitest';
+import crypto from 'crypto';
+
+/**
+ * Imports a fresh copy of the app on the fake provider, with Supabase off so
+ * visitors use the in-memory history. `env` adds or overrides variables.
+ * Test files undo the stubs and spies in afterEach.
+ */
+export const loadApp = async (env = {}) => {
+    vi.stubEnv('LLM_PROVIDER', 'fake');
+    vi.stubEnv('VITE_SUPABASE_URL', '');
+    vi.stubEnv('VITE_SUPABASE_ANON_KEY', '');
+    for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value);
+    vi.resetModules();
+    vi.spyOn(console, 'log').mockImplementation(() => { });
+    vi.spyOn(console, 'warn').mockImplementation(() => { });
+    const { default: app } = await import('../app.js');
+    return app;
+};
+
+/**
+ * Wraps the provider the next loadApp() creates so tests can inspect its chat calls.
+ * Each entry is the chat() arguments plus the `result` promise.
+ */
+export const recordProviderChats = () => {
+    const calls = [];
+    vi.doMock('../providers/index.js', async (importOriginal) => {
+        const actual = await importOriginal();
+        return {
+            ...actual,
+            createProviderFromEnv: (env) => {
+                const provider = actual.createProviderFromEnv(env);
+                return {
+                    ...provider,
+                    chat: (args) => {
+                        const result = provider.chat(args);
+                        calls.push({ ...args, result });
+                        return result;
+                    },
+                };
+            },
+        };
+    });
+    return calls;
+};
+
+export const TEST_JWT_SECRET = 'test-jwt-secret-with-at-least-32-characters';
+
+// A live access token for `userId`, signed the way Supabase Auth does; pair with SUPABASE_JWT_SECRET.
+export const signAccessToken = (userId) => {
+    const encode = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const body = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({
+        sub: userId,
+        role: 'authenticated',
+        aud: 'authenticated',
+        exp: Math.floor(Date.now() / 1000) + 3600,
+    })}`;
+    return `${body}.${crypto.createHmac('sha256', TEST_JWT_SECRET).update(body).digest('base64url')}`;
+};
+
+/**
+ * Makes the next loadApp() hand signed-in requests a fake Supabase client.
+ * `tables` maps a table name to the rows every query on it returns, or to a
+ * function of the query's recorded calls that returns them, and `rpc`
+ * answers remote procedure calls. Each query, RPC and storage call is recorded
+ * as { table | rpc, calls: [[method, ...args]] }.
+ */
+export const fakeSupabase = ({ tables = {}, rpc = () => null } = {}) => {
+    const queries = [];
+    const query = (entry, result) => {
+        queries.push(entry);
+        const builder = new Proxy({}, {
+            get: (_, method) => {
+                if (method === 'then') return (resolve, reject) => Promise.resolve(result()).then(resolve, reject);
+                if (method === 'maybeSingle' || method === 'single') {
+                    return () => Promise.resolve(result()).then(({ data, error }) => ({ data: data?.[0] ?? null, error }));
+                }
+                return (...args) => {
+                    entry.calls.push([method, ...args]);
+                    return builder;
+                };
+            },
+        });
+        return builder;
+    };
+    const db = {
+        from: (table) => {
+            const entry = { table, calls: [] };
+            const rows = tables[table];
+            return query(entry, () => ({ data: (typeof rows === 'function' ? rows(entry.calls) : rows) || [], error: null }));
+        },
+        rpc: (name, args) => query({ rpc: name, calls: [['args', args]] }, () => ({ data: rpc(name, args), error: null })),
+    };
+    vi.doMock('../supabase.js', async (importOriginal) => ({
+        ...(await importOriginal()),
+        createScopedSupabase: () => db,
+    }));
+    return queries;
+};
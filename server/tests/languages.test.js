@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import request from 'supertest';
+import { LANGUAGES, findLanguage, listLanguages, describeLanguageRules } from '../languages.js';
+import { loadApp } from './helpers.js';
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+});
+
+const SCRIPTS = ['latin', 'cyrillic', 'hans', 'hant', 'japanese'];
+
+describe('language registry', () => {
+    it('gives every language the fields the client and prompts need', () => {
+        for (const language of listLanguages()) {
+            expect(language).toMatchObject({
+                id: expect.any(String),
+                name: expect.any(String),
+                flag: expect.any(String),
+                tutorName: expect.any(String),
+                voiceName: expect.any(String),
+                speechCode: expect.any(String),
+                greeting: expect.any(String),
+            });
+            expect(SCRIPTS).toContain(language.script);
+            expect(Array.isArray(language.promptRules)).toBe(true);
+        }
+        expect(listLanguages()).toHaveLength(Object.keys(LANGUAGES).length);
+    });
+
+    it('finds languages by id only', () => {
+        expect(findLanguage('Japanese')).toMatchObject({ id: 'Japanese', speechCode: 'ja-JP' });
+        expect(findLanguage('Klingon')).toBeNull();
+        expect(findLanguage('toString')).toBeNull();
+    });
+
+    it('turns prompt rules into prompt lines', () => {
+        expect(describeLanguageRules(findLanguage('Cantonese'))).toMatch(/^- You MUST use Traditional Chinese/);
+        expect(describeLanguageRules(findLanguage('French'))).toBe('');
+    });
+});
+
+describe('/api/languages', () => {
+    it('serves the registry', async () => {
+        const app = await loadApp();
+
+        const res = await request(app).get('/api/languages');
+        expect(res.status).toBe(200);
+        expect(res.body.languages.map(language => language.id)).toEqual(Object.keys(LANGUAGES));
+    });
+});
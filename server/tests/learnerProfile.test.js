@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import request from 'supertest';
+import {
+    normalizeProfileUpdates, newLearnerFacts, describeLearnerProfile, profileUpdatesSchema,
+    describeProfileUpdates, MAX_FACT_LENGTH
+} from '../learnerProfile.js';
+import { buildFakeReply } from '../providers/fake.js';
+import { loadApp } from './helpers.js';
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+});
+
+describe('normalizeProfileUpdates', () => {
+    it('keeps well-formed facts, at most three a turn', () => {
+        const updates = normalizeProfileUpdates([
+            { kind: 'personal', text: '  Has a dog   named Rex ' },
+            { kind: 'learning', text: 'Struggles with the subjunctive' },
+            { kind: 'hobby', text: 'Works as a nurse' },
+            { kind: 'personal', text: 'has a dog named rex' },
+            { kind: 'personal', text: '' },
+            'Likes jazz',
+            { kind: 'personal', text: 'Lives in Lyon' },
+            { kind: 'personal', text: 'Plays the cello' },
+        ]);
+        expect(updates).toEqual([
+            { kind: 'personal', text: 'Has a dog named Rex' },
+            { kind: 'learning', text: 'Struggles with the subjunctive' },
+            { kind: 'personal', text: 'Works as a nurse' },
+        ]);
+    });
+
+    it('ignores a missing or mistyped field and caps long facts', () => {
+        expect(normalizeProfileUpdates(undefined)).toEqual([]);
+        expect(normalizeProfileUpdates({ text: 'Has a dog' })).toEqual([]);
+        expect(normalizeProfileUpdates([{ text: 'x'.repeat(MAX_FACT_LENGTH + 10) }])[0].text).toHaveLength(MAX_FACT_LENGTH);
+    });
+});
+
+describe('newLearnerFacts', () => {
+    it('drops updates the profile already holds', () => {
+        const facts = [{ id: '1', kind: 'personal', text: 'Has a dog named Rex' }];
+        expect(newLearnerFacts(facts, [
+            { kind: 'personal', text: 'has a dog named Rex' },
+            { kind: 'personal', text: 'Works as a nurse' },
+        ])).toEqual([{ kind: 'personal', text: 'Works as a nurse' }]);
+    });
+});
+
+describe('profile prompt', () => {
+    it('groups facts by kind and stays empty without any', () => {
+        const section = describeLearnerProfile([
+            { kind: 'learning', text: 'Struggles with the subjunctive' },
+            { kind: 'personal', text: 'Works as a nurse' },
+        ]);
+        expect(section).toContain('About them:\n- Works as a nurse\nLearning notes:\n- Struggles with the subjunctive\n\n');
+        expect(describeLearnerProfile([])).toBe('');
+        expect(describeLearnerProfile(null)).toBe('');
+    });
+
+    it('only asks signed-in learners for profile updates', () => {
+        expect(profileUpdatesSchema([])).toContain('"profileUpdates"');
+        expect(describeProfileUpdates([])).toContain('"learning"');
+        expect(profileUpdatesSchema(null)).toBe('');
+        expect(describeProfileUpdates(null)).toBe('');
+    });
+
+    it('gets a fact from the fake provider when asked to remember', () => {
+        const contents = [{ role: 'user', parts: [{ text: 'Remember my dog Rex' }] }];
+        expect(JSON.parse(buildFakeReply(contents, { withProfile: true })).profileUpdates).toEqual([
+            { kind: 'personal', text: 'Fake fact: Remember my dog Rex' },
+        ]);
+        expect(JSON.parse(buildFakeReply(contents)).profileUpdates).toBeUndefined();
+    });
+});
+
+describe('learner profile routes', () => {
+    it('require a signed-in user, and visitors never get profile updates', async () => {
+        const app = await loadApp();
+
+        expect((await request(app).get('/api/profile/facts')).status).toBe(401);
+        expect((await request(app).delete('/api/profile/facts/1')).status).toBe(401);
+
+        const res = await request(app)
+            .post('/api/chat')
+            .send({ message: 'Remember my dog Rex', sessionId: 'profile-1', language: 'French', scenario: 'Basics' });
+        expect(res.status).toBe(200);
+        expect(res.body.profileUpdates).toEqual([]);
+    });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import request from 'supertest';
+import {
+    readMemoryConfig, maxContextTurns, turnsToSummarize, turnText,
+    buildSummaryContent, normalizeSummary, describeMemory, MAX_SUMMARY_LENGTH
+} from '../memory.js';
+import { CHAT_TASKS } from '../providers/index.js';
+import { loadApp, recordProviderChats, fakeSupabase, signAccessToken, TEST_JWT_SECRET } from './helpers.js';
+
+afterEach(() => {
+    vi.doUnmock('../providers/index.js');
+    vi.doUnmock('../supabase.js');
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+});
+
+describe('readMemoryConfig', () => {
+    it('reads the window sizes and keeps defaults for bad values', () => {
+        expect(readMemoryConfig({})).toEqual({ recentTurns: 12, summaryBatch: 8 });
+        expect(readMemoryConfig({ CONTEXT_RECENT_TURNS: '4', CONTEXT_SUMMARY_BATCH: 'lots' })).toEqual({ recentTurns: 4, summaryBatch: 8 });
+    });
+});
+
+describe('turnsToSummarize', () => {
+    const config = { recentTurns: 4, summaryBatch: 2 };
+
+    it('waits for a full batch beyond the recent window', () => {
+        expect(maxContextTurns(config)).toBe(6);
+        expect(turnsToSummarize(5, config)).toBe(0);
+        expect(turnsToSummarize(6, config)).toBe(2);
+        expect(turnsToSummarize(9, config)).toBe(5);
+    });
+});
+
+describe('summary prompts', () => {
+    it('reduces tutor turns to their targetText', () => {
+        const tutor = { role: 'model', parts: [{ text: JSON.stringify({ response: { targetText: 'Un café ?' } }) }] };
+        expect(turnText(tutor)).toBe('Un café ?');
+        expect(turnText({ role: 'user', parts: [{ inlineData: {} }] })).toBe('(voice message)');
+    });
+
+    it('lists the previous summary and the turns to fold', () => {
+        const content = buildSummaryContent('They met at a café.', [
+            { role: 'user', parts: [{ text: 'Je voudrais un croissant' }] },
+            { role: 'model', parts: [{ text: '{"response":{"targetText":"Voilà !"}}' }] },
+        ]);
+        expect(content).toBe('Previous summary: They met at a café.\n\nNew turns:\nLearner: Je voudrais un croissant\nTutor: Voilà !');
+    });
+
+    it('caps summaries and only describes them when there is one', () => {
+        expect(normalizeSummary({ summary: 'x'.repeat(MAX_SUMMARY_LENGTH + 10) })).toHaveLength(MAX_SUMMARY_LENGTH);
+        expect(normalizeSummary(null)).toBe('');
+        expect(describeMemory('')).toBe('');
+        expect(describeMemory('They met at a café.')).toContain('They met at a café.');
+    });
+});
+
+describe('conversation memory', () => {
+    it('sends the summary plus the latest turns once a session grows long', async () => {
+        const calls = recordProviderChats();
+        const app = await loadApp({ CONTEXT_RECENT_TURNS: '4', CONTEXT_SUMMARY_BATCH: '2' });
+
+        const send = (message) => request(app)
+            .post('/api/chat')
+            .send({ message, sessionId: 'memory-1', language: 'French', scenario: 'Basics' });
+
+        for (const message of ['Un', 'Deux', 'Trois']) {
+            expect((await send(message)).status).toBe(200);
+        }
+        // Six turns stored: the oldest two get folded after the reply
+        const isSummary = (call) => call.task === CHAT_TASKS.summary;
+        await vi.waitFor(() => expect(calls.some(isSummary)).toBe(true));
+        await calls.find(isSummary).result;
+        await new Promise(resolve => setImmediate(resolve));
+
+        await send('Quatre');
+        const last = calls.filter(call => !isSummary(call)).pop();
+        expect(last.systemInstruction).toContain('Fake summary of 2 turns');
+        expect(last.contents.map(turn => turn.parts[0].text)).toEqual([
+            'Deux', expect.stringContaining('Echo: Deux'), 'Trois', expect.stringContaining('Echo: Trois'), 'Quatre',
+        ]);
+    });
+
+    it('reads signed-in turns after the summary from the stored session, not the client', async () => {
+        const userId = '11111111-2222-3333-4444-555555555555';
+        const summarizedThrough = '2026-01-01T10:01:00Z';
+        const calls = recordProviderChats();
+        const queries = fakeSupabase({
+            tables: {
+                chat_sessions: [{ summary: 'They counted to one.', summarized_through: summarizedThrough, completed_at: null }],
+                // Newest first, as the query orders them
+                chat_history: [
+                    { role: 'model', content: [{ text: 'Echo: Deux' }] },
+                    { role: 'user', content: [{ text: 'Deux' }] },
+                ],
+            },
+        });
+        const app = await loadApp({ SUPABASE_JWT_SECRET: TEST_JWT_SECRET, AUDIO_STORAGE_BACKEND: 'none' });
+
+        const res = await request(app)
+            .post('/api/chat')
+            .set('Authorization', `Bearer ${signAccessToken(userId)}`)
+            .send({
+                message: 'Trois',
+                sessionId: 'memory-2',
+                language: 'French',
+                scenario: 'Basics',
+                history: [{ role: 'user', parts: [{ text: 'Un' }] }, { role: 'model', parts: [{ text: 'Echo: Un' }] }],
+            });
+
+        expect(res.status).toBe(200);
+        expect(calls[0].systemInstruction).toContain('They counted to one.');
+        expect(calls[0].contents.map(turn => turn.parts[0].text)).toEqual(['Deux', 'Echo: Deux', 'Trois']);
+        const historyQuery = queries.find(entry => entry.table === 'chat_history');
+        expect(historyQuery.calls).toContainEqual(['gt', 'created_at', summarizedThrough]);
+    });
+
+    it('continues a resumed session when the learner sends nothing', async () => {
+        const calls = recordProviderChats();
+        const queries = fakeSupabase({
+            tables: {
+                chat_history: [
+                    { role: 'model', content: [{ text: 'Echo: Deux' }] },
+                    { role: 'user', content: [{ text: 'Deux' }] },
+                ],
+            },
+        });
+        const app = await loadApp({ SUPABASE_JWT_SECRET: TEST_JWT_SECRET, AUDIO_STORAGE_BACKEND: 'none' });
+
+        const res = await request(app)
+            .post('/api/chat')
+            .set('Authorization', `Bearer ${signAccessToken('11111111-2222-3333-4444-555555555555')}`)
+            .send({ message: '', sessionId: 'memory-3', language: 'French', scenario: 'Basics' });
+
+        expect(res.status).toBe(200);
+        expect(calls[0].contents.map(turn => turn.parts[0].text)).toEqual([
+            'Deux', 'Echo: Deux', expect.stringContaining('The user is back'),
+        ]);
+        // The prompt isn't a learner turn, so only the tutor's reply is saved
+        const [, rows] = queries.flatMap(entry => entry.calls).find(([method]) => method === 'insert');
+        expect(rows.map(row => row.role)).toEqual(['model']);
+    });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeCategory, groupMistakes } from '../mistakes.js';
+
+describe('normalizeCategory', () => {
+    it('accepts known categories in loose formats', () => {
+        expect(normalizeCategory('Gender Agreement')).toBe('gender_agreement');
+        expect(normalizeCategory('verb-tense')).toBe('verb_tense');
+    });
+
+    it('falls back to other for unknown or missing values', () => {
+        expect(normalizeCategory('vibes')).toBe('other');
+        expect(normalizeCategory(null)).toBe('other');
+    });
+});
+
+describe('groupMistakes', () => {
+    const rows = [
+        { id: 1, category: 'gender_agreement', session_id: 'a', corrected_text: 'au marché', created_at: '2024-01-01T10:00:00Z' },
+        { id: 2, category: 'gender_agreement', session_id: 'b', corrected_text: 'la table', created_at: '2024-01-03T10:00:00Z' },
+        { id: 3, category: 'verb_tense', session_id: 'a', corrected_text: "j'ai mangé", created_at: '2024-01-02T10:00:00Z' },
+    ];
+
+    it('orders groups by frequency', () => {
+        const groups = groupMistakes(rows);
+
+        expect(groups.map(g => g.category)).toEqual(['gender_agreement', 'verb_tense']);
+        expect(groups[0].count).toBe(2);
+    });
+
+    it('flags categories seen across several sessions as recurring', () => {
+        const [gender, tense] = groupMistakes(rows);
+
+        expect(gender.recurring).toBe(true);
+        expect(gender.sessionCount).toBe(2);
+        expect(tense.recurring).toBe(false);
+    });
+
+    it('keeps the newest examples first', () => {
+        const [gender] = groupMistakes(rows, 1);
+
+        expect(gender.examples).toHaveLength(1);
+        expect(gender.examples[0].id).toBe(2);
+        expect(gender.lastSeenAt).toBe('2024-01-03T10:00:00Z');
+    });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import request from 'supertest';
+import {
+    PLACEMENT_LENGTH, MAX_PLACEMENT_ANSWER_LENGTH, stepLevel, recommendLevel, itemTypeFor, buildItemInstruction, buildScoringInstruction,
+    createPlacementStore, publicItem
+} from '../placement.js';
+import { loadApp } from './helpers.js';
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+});
+
+const result = (level, correct) => ({ item: { level }, correct });
+
+describe('stepLevel', () => {
+    it('moves up after a correct answer and down after a wrong one', () => {
+        expect(stepLevel('A2', true)).toBe('B1');
+        expect(stepLevel('A2', false)).toBe('A1');
+    });
+
+    it('stays within A1-C2', () => {
+        expect(stepLevel('C2', true)).toBe('C2');
+        expect(stepLevel('A1', false)).toBe('A1');
+    });
+});
+
+describe('recommendLevel', () => {
+    it('picks the highest level with a majority of correct answers', () => {
+        const results = [result('A2', true), result('B1', true), result('B2', false), result('B1', true), result('B2', false)];
+
+        expect(recommendLevel(results)).toBe('B1');
+    });
+
+    it('defaults to A1 when nothing was right', () => {
+        expect(recommendLevel([result('A2', false), result('A1', false)])).toBe('A1');
+        expect(recommendLevel([])).toBe('A1');
+    });
+});
+
+describe('placement prompts', () => {
+    const config = { name: 'French', tutorName: 'Pierre' };
+
+    it('alternates item types', () => {
+        expect([0, 1, 2].map(itemTypeFor)).toEqual(['comprehension', 'production', 'comprehension']);
+    });
+
+    it('targets the requested level and type', () => {
+        const text = buildItemInstruction(config, 'B2', 'production');
+
+        expect(text).toContain('production item at CEFR B2');
+        expect(text).toContain('"question"');
+    });
+
+    it('includes the item being scored and its answer key', () => {
+        const text = buildScoringInstruction(config, { type: 'comprehension', level: 'A2', prompt: 'Il pleut.', question: 'What is the weather?', answerKey: 'Rainy' });
+
+        expect(text).toContain('Il pleut.');
+        expect(text).toContain('Answer key: Rainy');
+        expect(text).toContain('"correct": boolean');
+    });
+});
+
+describe('createPlacementStore', () => {
+    it('keeps open tests until they expire', () => {
+        let time = 0;
+        const store = createPlacementStore({ ttlMs: 1000, now: () => time });
+        const test = store.create({ language: 'French', userId: null });
+
+        expect(store.get(test.id)).toBe(test);
+        time = 1000;
+        expect(store.get(test.id)).toBeNull();
+    });
+
+    it('drops the oldest test when full', () => {
+        const store = createPlacementStore({ maxTests: 2 });
+        const [first, second, third] = [1, 2, 3].map(() => store.create({ language: 'French', userId: null }));
+
+        expect(store.get(first.id)).toBeNull();
+        expect(store.get(second.id)).toBe(second);
+        expect(store.get(third.id)).toBe(third);
+    });
+
+    it('never hands out the answer key', () => {
+        expect(publicItem({ id: 'i', level: 'A2', type: 'production', prompt: 'p', question: 'q', answerKey: 'secret' }))
+            .toEqual({ id: 'i', level: 'A2', type: 'production', prompt: 'p', question: 'q' });
+    });
+});
+
+describe('/api/placement with the fake provider', () => {
+    it('walks the staircase and recommends a level at the end', async () => {
+        const app = await loadApp({ TTS_CACHE_BACKEND: 'memory' });
+
+        let res = await request(app).post('/api/placement').send({ language: 'French' });
+        expect(res.status).toBe(200);
+        expect(res.body.nextItem).toMatchObject({ level: 'A2', type: 'comprehension' });
+        expect(res.body.nextItem.answerKey).toBeUndefined();
+        const { testId } = res.body;
+
+        res = await request(app).post('/api/placement').send({ testId, answer: 'Il pleut' });
+        expect(res.body.result.correct).toBe(true);
+        expect(res.body.nextItem).toMatchObject({ level: 'B1', type: 'production' });
+
+        while (!res.body.done) {
+            res = await request(app).post('/api/placement').send({ testId, answer: 'wrong' });
+        }
+        expect(res.body.results).toHaveLength(PLACEMENT_LENGTH);
+        expect(res.body.results[1].expected).toBe('Fake answer.');
+        // A2 ends one right, one wrong: a tie is not a pass
+        expect(res.body.recommendedLevel).toBe('A1');
+
+        // Finished tests are gone
+        expect((await request(app).post('/api/placement').send({ testId, answer: 'again' })).status).toBe(404);
+    });
+
+    it('scores only what the server asked, whatever the client claims', async () => {
+        const app = await loadApp();
+
+        const start = await request(app).post('/api/placement').send({ language: 'French' });
+        const forged = Array.from({ length: PLACEMENT_LENGTH }, (_, i) => ({
+            item: { id: `x${i}`, level: 'C2', type: 'production' }, correct: true,
+        }));
+
+        const res = await request(app).post('/api/placement').send({
+            testId: start.body.testId,
+            answer: 'wrong',
+            results: forged,
+            pending: { item: { level: 'C2' }, answer: 'Il pleut' },
+        });
+        expect(res.body.done).toBe(false);
+        expect(res.body.results).toHaveLength(1);
+        expect(res.body.result).toMatchObject({ item: { level: 'A2' }, correct: false });
+
+        const unknown = await request(app).post('/api/placement').send({ testId: 'not-a-test', answer: 'Il pleut' });
+        expect(unknown.status).toBe(404);
+
+        const empty = await request(app).post('/api/placement').send({ testId: start.body.testId });
+        expect(empty.status).toBe(400);
+
+        for (const answer of [42, { text: 'Il pleut' }, ['Il pleut'], 'x'.repeat(MAX_PLACEMENT_ANSWER_LENGTH + 1)]) {
+            const bad = await request(app).post('/api/placement').send({ testId: start.body.testId, answer });
+            expect(bad.status).toBe(400);
+        }
+    });
+
+    it('rejects unknown languages', async () => {
+        const app = await loadApp();
+
+        const res = await request(app).post('/api/placement').send({ language: 'Klingon' });
+        expect(res.status).toBe(400);
+    });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { CEFR_LEVELS, describeLevel, isCefrLevel } from '../proficiency.js';
+
+describe('describeLevel', () => {
+    it('has guidance for every CEFR level', () => {
+        for (const level of CEFR_LEVELS) {
+            const text = describeLevel(level);
+            expect(text).toContain(`CEFR level ${level}`);
+            expect(text).toContain('Reply length');
+        }
+    });
+
+    it('restricts beginners to the present tense', () => {
+        expect(describeLevel('A1')).toMatch(/Present tense only/);
+    });
+
+    it('returns nothing for unknown levels', () => {
+        expect(describeLevel(undefined)).toBe('');
+        expect(describeLevel('B3')).toBe('');
+        expect(isCefrLevel('b1')).toBe(false);
+    });
+});
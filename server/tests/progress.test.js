@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import request from 'supertest';
+import {
+    validateGoal, readGoal, turnActivity, computeStreaks, summarizeProgress,
+    completionSchema, describeCompletion, DEFAULT_GOAL, XP_REWARDS
+} from '../progress.js';
+import { loadApp, fakeSupabase, signAccessToken, TEST_JWT_SECRET } from './helpers.js';
+
+afterEach(() => {
+    vi.doUnmock('../supabase.js');
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+});
+
+describe('validateGoal', () => {
+    it('accepts turn and minute goals within bounds', () => {
+        expect(validateGoal({ type: 'turns', target: 20 })).toEqual({ value: { type: 'turns', target: 20 } });
+        expect(validateGoal({ type: 'minutes', target: '5' })).toEqual({ value: { type: 'minutes', target: 5 } });
+    });
+
+    it('rejects unknown types and bad targets', () => {
+        expect(validateGoal({ type: 'words', target: 5 }).error).toMatch(/turns, minutes/);
+        expect(validateGoal({ type: 'minutes', target: 0 }).error).toMatch(/from 1 to 120/);
+        expect(validateGoal({ type: 'turns', target: 2.5 }).error).toMatch(/whole number/);
+        expect(readGoal({ goal_type: null, goal_target: null })).toEqual(DEFAULT_GOAL);
+    });
+});
+
+describe('turnActivity', () => {
+    it('awards XP for the turn and an error-free reply, and offers the completion bonus', () => {
+        expect(turnActivity({ content: [{ text: 'Bonjour' }], hasMistake: false })).toEqual({
+            turns: 1, voice_seconds: 0, xp: XP_REWARDS.turn + XP_REWARDS.errorFree, completion_xp: 0,
+        });
+        expect(turnActivity({ content: [{ audio: { key: 'k' } }], hasMistake: true, completedScenario: true })).toEqual({
+            turns: 1, voice_seconds: 2, xp: XP_REWARDS.turn, completion_xp: XP_REWARDS.scenarioComplete,
+        });
+    });
+});
+
+describe('computeStreaks', () => {
+    const met = (...days) => days.map(day => ({ day, goal_met: true }));
+
+    it('counts back from today, or from yesterday while today is still open', () => {
+        const rows = [...met('2026-02-27', '2026-02-28', '2026-03-01'), { day: '2026-03-02', goal_met: false }];
+        expect(computeStreaks(rows, '2026-03-02')).toEqual({ current: 3, longest: 3 });
+        expect(computeStreaks(rows, '2026-03-01')).toEqual({ current: 3, longest: 3 });
+        expect(computeStreaks(rows, '2026-03-03')).toEqual({ current: 0, longest: 3 });
+    });
+
+    it('finds the longest run', () => {
+        expect(computeStreaks(met('2026-01-01', '2026-01-02', '2026-01-05'), '2026-01-05')).toEqual({ current: 1, longest: 2 });
+        expect(computeStreaks([], '2026-01-05')).toEqual({ current: 0, longest: 0 });
+    });
+});
+
+describe('summarizeProgress', () => {
+    it('reports today in the learner\'s time zone', () => {
+        const rows = [
+            { day: '2026-03-09', turns: 4, voice_seconds: 90, xp: 40, goal_met: false },
+            { day: '2026-03-08', turns: 12, voice_seconds: 0, xp: 120, goal_met: true },
+        ];
+        const now = Date.parse('2026-03-10T03:00:00Z'); // Still the 9th in New York
+        const progress = summarizeProgress({ goal_type: 'turns', goal_target: 8, xp_total: 500 }, rows, { timeZone: 'America/New_York', now });
+
+        expect(progress).toEqual({
+            goal: { type: 'turns', target: 8 },
+            timeZone: 'America/New_York',
+            today: { date: '2026-03-09', turns: 4, voiceMinutes: 1.5, xp: 40, progress: 0.5, met: false },
+            streak: { current: 1, longest: 1 },
+            xp: 500,
+        });
+        expect(summarizeProgress(null, rows, { now }).today).toMatchObject({ date: '2026-03-10', turns: 0, progress: 0 });
+    });
+
+    it('only asks for completion when the session can still earn it', () => {
+        expect(completionSchema(true)).toContain('"scenarioComplete": boolean');
+        expect(describeCompletion(true)).toContain('learner goals');
+        expect(completionSchema(false)).toBe('');
+        expect(describeCompletion(false)).toBe('');
+    });
+});
+
+describe('progress routes', () => {
+    it('require a signed-in user', async () => {
+        const app = await loadApp();
+
+        expect((await request(app).get('/api/progress')).status).toBe(401);
+        expect((await request(app).put('/api/progress/goal').send({ type: 'turns', target: 10 })).status).toBe(401);
+
+        // Visitors aren't asked whether the scenario is complete
+        const res = await request(app)
+            .post('/api/chat')
+            .send({ message: 'Goodbye!', sessionId: 'progress-1', language: 'French', scenario: 'Ordering at a Café' });
+        expect(res.body.scenarioComplete).toBe(false);
+    });
+
+    it('adds a signed-in turn to the day in one database call', async () => {
+        const queries = fakeSupabase({
+            tables: { learner_progress: [{ goal_type: 'minutes', goal_target: 5, time_zone: 'UTC' }] },
+        });
+        const app = await loadApp({ SUPABASE_JWT_SECRET: TEST_JWT_SECRET, AUDIO_STORAGE_BACKEND: 'none' });
+
+        const res = await request(app)
+            .post('/api/chat')
+            .set('Authorization', `Bearer ${signAccessToken('11111111-2222-3333-4444-555555555555')}`)
+            .send({ message: 'Bonjour', sessionId: 'progress-2', language: 'French', scenario: 'Basics' });
+
+        expect(res.status).toBe(200);
+        const activity = queries.find(entry => entry.rpc === 'record_turn_activity');
+        expect(activity.calls[0][1]).toMatchObject({
+            p_turns: 1, p_voice_seconds: 0, p_goal_type: 'minutes', p_goal_target: 5, p_session_id: 'progress-2', p_completion_xp: 0,
+        });
+        expect(queries.filter(entry => ['daily_activity', 'learner_progress', 'chat_sessions'].includes(entry.table))
+            .flatMap(entry => entry.calls.map(([method]) => method))).not.toContain('upsert');
+    });
+
+    it('leaves awarding the completion bonus to the database call', async () => {
+        const queries = fakeSupabase();
+        const app = await loadApp({ SUPABASE_JWT_SECRET: TEST_JWT_SECRET, AUDIO_STORAGE_BACKEND: 'none' });
+
+        const res = await request(app)
+            .post('/api/chat')
+            .set('Authorization', `Bearer ${signAccessToken('11111111-2222-3333-4444-555555555555')}`)
+            .send({ message: 'Goodbye!', sessionId: 'progress-3', language: 'French', scenario: 'Ordering at a Café' });
+
+        expect(res.body.scenarioComplete).toBe(true);
+        const activity = queries.find(entry => entry.rpc === 'record_turn_activity');
+        expect(activity.calls[0][1]).toMatchObject({ p_session_id: 'progress-3', p_completion_xp: XP_REWARDS.scenarioComplete });
+        // Marking the session completed happens inside that call, not as a separate write
+        expect(queries.filter(entry => entry.table === 'chat_sessions')
+            .flatMap(entry => entry.calls.map(([method]) => method))).not.toContain('upsert');
+    });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import request from 'supertest';
+import { normalizePronunciation } from '../pronunciation.js';
+import { loadApp, recordProviderChats } from './helpers.js';
+
+afterEach(() => {
+    vi.doUnmock('../providers/index.js');
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+});
+
+describe('normalizePronunciation', () => {
+    it('drops assessments for text turns', () => {
+        expect(normalizePronunciation({ score: 90, issues: [] }, false)).toBeNull();
+    });
+
+    it('clamps the score and keeps well-formed issues', () => {
+        const result = normalizePronunciation({
+            score: 134.6,
+            issues: [
+                { word: 'rue', expected: 'Rounded /y/, not /u/', heard: 'roo' },
+                { word: 'pain' },
+                'nonsense',
+            ]
+        }, true);
+
+        expect(result).toEqual({
+            score: 100,
+            issues: [{ word: 'rue', expected: 'Rounded /y/, not /u/', heard: 'roo' }]
+        });
+    });
+
+    it('returns null when nothing usable came back', () => {
+        expect(normalizePronunciation({ score: 'n/a', issues: [] }, true)).toBeNull();
+        expect(normalizePronunciation(null, true)).toBeNull();
+    });
+});
+
+describe('/api/chat pronunciation with the fake provider', () => {
+    it('assesses and transcribes voice turns only', async () => {
+        const app = await loadApp({ TTS_CACHE_BACKEND: 'memory' });
+
+        const voice = await request(app)
+            .post('/api/chat')
+            .send({ audioData: 'AAAA', audioMimeType: 'audio/webm', sessionId: 'p1', language: 'French', scenario: 'Basics' });
+        expect(voice.body.correction.pronunciation.score).toBe(80);
+        expect(voice.body.correction.pronunciation.issues[0].word).toBe('bonjour');
+        expect(voice.body.transcript).toBe('Bonjour, je suis fake');
+
+        const text = await request(app)
+            .post('/api/chat')
+            .send({ message: 'Bonjour', sessionId: 'p2', language: 'French', scenario: 'Basics' });
+        expect(text.body.correction.pronunciation).toBeNull();
+        expect(text.body.transcript).toBeNull();
+    });
+});
+
+describe('tutor prompt', () => {
+    it('asks for the transcript as a well-formed JSON field', async () => {
+        const calls = recordProviderChats();
+        const app = await loadApp();
+
+        await request(app)
+            .post('/api/chat')
+            .send({ audioData: 'AAAA', audioMimeType: 'audio/webm', sessionId: 'p3', language: 'French', scenario: 'Basics' });
+
+        expect(calls).toHaveLength(1);
+        expect(calls[0].systemInstruction).toContain('\n  "transcript": string | null,\n');
+        expect(calls[0].systemInstruction).not.toMatch(/"\s+"transcript"/);
+    });
+});
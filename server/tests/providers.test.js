@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import request from 'supertest';
+import { createProviderFromEnv, CHAT_TASKS, REPLY_FIELDS } from '../providers/index.js';
+import { createFakeProvider } from '../providers/fake.js';
+import { toOpenAiMessages, createOpenAiCompatibleProvider } from '../providers/openaiCompatible.js';
+import { loadApp } from './helpers.js';
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+});
+
+const userTurn = (text) => ({ role: 'user', parts: [{ text }] });
+
+describe('createProviderFromEnv', () => {
+    it('defaults to gemini with the standard models', () => {
+        const provider = createProviderFromEnv({ GEMINI_API_KEY: 'k' });
+
+        expect(provider.name).toBe('gemini');
+        expect(provider.models).toEqual({ chat: 'gemini-2.5-flash', tts: 'gemini-2.5-flash-preview-tts' });
+    });
+
+    it('lets env override the models', () => {
+        const provider = createProviderFromEnv({ LLM_PROVIDER: 'openai', CHAT_MODEL: 'qwen2.5', TTS_MODEL: 'kokoro' });
+
+        expect(provider.name).toBe('openai');
+        expect(provider.models).toEqual({ chat: 'qwen2.5', tts: 'kokoro' });
+    });
+
+    it('rejects unknown providers', () => {
+        expect(() => createProviderFromEnv({ LLM_PROVIDER: 'nope' })).toThrow(/Unknown LLM_PROVIDER/);
+    });
+});
+
+describe('fake provider', () => {
+    it('is deterministic and returns tutor-shaped JSON', async () => {
+        const provider = createFakeProvider();
+        const first = JSON.parse(await provider.chat({ contents: [userTurn('Bonjour')] }));
+        const second = JSON.parse(await provider.chat({ contents: [userTurn('Bonjour')] }));
+
+        expect(first).toEqual(second);
+        expect(first.correction.hasMistake).toBe(false);
+        expect(first.response.targetText).toBe('Echo: Bonjour');
+    });
+
+    it('streams the same text it returns in one piece', async () => {
+        const provider = createFakeProvider({ chunkSize: 5 });
+        let streamed = '';
+        for await (const chunk of provider.chatStream({ contents: [userTurn('a mistake')] })) streamed += chunk;
+
+        expect(streamed).toBe(await provider.chat({ contents: [userTurn('a mistake')] }));
+        expect(JSON.parse(streamed).correction.hasMistake).toBe(true);
+    });
+    it('answers by task and reply fields, whatever the prompt says', async () => {
+        const provider = createFakeProvider();
+        const prompt = 'A placement test, a dictionary entry, a conversation summary and "reading"';
+
+        const tutor = JSON.parse(await provider.chat({ systemInstruction: prompt, contents: [userTurn('Salut')] }));
+        expect(tutor.response.reading).toBeUndefined();
+        expect(tutor.profileUpdates).toBeUndefined();
+
+        const withFields = JSON.parse(await provider.chat({
+            contents: [userTurn('Salut')],
+            replyFields: [REPLY_FIELDS.reading, REPLY_FIELDS.profileUpdates, REPLY_FIELDS.scenarioComplete],
+        }));
+        expect(withFields.response.reading).toHaveLength(2);
+        expect(withFields.profileUpdates).toEqual([]);
+        expect(withFields.scenarioComplete).toBe(false);
+
+        const gloss = JSON.parse(await provider.chat({ task: CHAT_TASKS.gloss, contents: [userTurn('Word: "Maison"')] }));
+        expect(gloss.lemma).toBe('maison');
+        const score = JSON.parse(await provider.chat({ task: CHAT_TASKS.placementScore, contents: [userTurn('Il pleut')] }));
+        expect(score.correct).toBe(true);
+    });
+});
+
+describe('openai-compatible provider', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('maps Gemini contents onto chat messages', () => {
+        const messages = toOpenAiMessages('Be nice', [
+            userTurn('Salut'),
+            { role: 'model', parts: [{ text: '{"response":{}}' }] },
+            { role: 'user', parts: [{ inlineData: { mimeType: 'audio/webm', data: 'AAAA' } }] },
+            { role: 'user', parts: [{ inlineData: { mimeType: 'audio/wav', data: 'BBBB' } }] },
+        ]);
+
+        expect(messages[0]).toEqual({ role: 'system', content: 'Be nice' });
+        expect(messages[1]).toEqual({ role: 'user', content: 'Salut' });
+        expect(messages[2].role).toBe('assistant');
+        expect(messages[3].content).toMatch(/cannot hear/);
+        expect(messages[4].content[0]).toEqual({ type: 'input_audio', input_audio: { data: 'BBBB', format: 'wav' } });
+    });
+
+    it('posts chat completions to the configured base URL', async () => {
+        const fetchMock = vi.fn().mockResolvedValue({
+            ok: true,
+            json: async () => ({ choices: [{ message: { content: '{"ok":true}' } }] }),
+        });
+        vi.stubGlobal('fetch', fetchMock);
+
+        const provider = createOpenAiCompatibleProvider({ baseUrl: 'http://llm.local/v1/', chatModel: 'm' });
+        const text = await provider.chat({ systemInstruction: 's', contents: [userTurn('hi')] });
+
+        expect(text).toBe('{"ok":true}');
+        expect(fetchMock.mock.calls[0][0]).toBe('http://llm.local/v1/chat/completions');
+        expect(JSON.parse(fetchMock.mock.calls[0][1].body).model).toBe('m');
+    });
+});
+
+describe('routes with the fake provider', () => {
+    it('answers /api/chat without network access', async () => {
+        const app = await loadApp({ TTS_CACHE_BACKEND: 'memory' });
+
+        const res = await request(app)
+            .post('/api/chat')
+            .send({ message: 'Bonjour', sessionId: 's1', language: 'French', scenario: 'Basics' });
+
+        expect(res.status).toBe(200);
+        expect(res.body.response.targetText).toBe('Echo: Bonjour');
+    });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import request from 'supertest';
+import { createUsageLimiter, parseLimit, createUsageLimiterFromEnv, DEFAULT_LIMITS, clientFor } from '../rateLimit.js';
+import { loadApp } from './helpers.js';
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+});
+
+const clock = (start) => {
+    let time = start;
+    return { now: () => time, advance: (ms) => { time += ms; } };
+};
+
+describe('parseLimit', () => {
+    it('reads perMinute/userPerDay/anonPerDay and keeps defaults for missing parts', () => {
+        expect(parseLimit('5/100/10', DEFAULT_LIMITS.chat)).toEqual({ perMinute: 5, userPerDay: 100, anonPerDay: 10 });
+        expect(parseLimit('5', DEFAULT_LIMITS.chat)).toEqual({ ...DEFAULT_LIMITS.chat, perMinute: 5 });
+        expect(parseLimit(undefined, DEFAULT_LIMITS.chat)).toBe(DEFAULT_LIMITS.chat);
+    });
+});
+
+describe('createUsageLimiter', () => {
+    it('refuses bursts until the minute window rolls over', () => {
+        const time = clock(Date.UTC(2026, 0, 1, 12, 0, 0));
+        const limiter = createUsageLimiter({ limits: { chat: { perMinute: 2, userPerDay: 0, anonPerDay: 0 } }, now: time.now });
+
+        expect(limiter.consume('chat', 'ip:a').allowed).toBe(true);
+        expect(limiter.consume('chat', 'ip:a').allowed).toBe(true);
+        time.advance(15 * 1000);
+        expect(limiter.consume('chat', 'ip:a')).toMatchObject({ allowed: false, code: 'rate_limited', retryAfter: 45 });
+        expect(limiter.consume('chat', 'ip:b').allowed).toBe(true);
+
+        time.advance(45 * 1000);
+        expect(limiter.consume('chat', 'ip:a').allowed).toBe(true);
+    });
+
+    it('gives signed-in users their own daily quota, reset at UTC midnight', () => {
+        const time = clock(Date.UTC(2026, 0, 1, 23, 0, 0));
+        const limiter = createUsageLimiter({ limits: { tts: { perMinute: 0, userPerDay: 2, anonPerDay: 1 } }, now: time.now });
+
+        expect(limiter.consume('tts', 'ip:a')).toMatchObject({ allowed: true, remainingToday: 0 });
+        expect(limiter.consume('tts', 'ip:a')).toMatchObject({ allowed: false, code: 'daily_limit', retryAfter: 3600 });
+        expect(limiter.consume('tts', 'user:u', { isUser: true }).allowed).toBe(true);
+        expect(limiter.consume('tts', 'user:u', { isUser: true }).allowed).toBe(true);
+        expect(limiter.consume('tts', 'user:u', { isUser: true }).allowed).toBe(false);
+
+        time.advance(60 * 60 * 1000);
+        expect(limiter.consume('tts', 'ip:a').allowed).toBe(true);
+    });
+
+    it('can be switched off', () => {
+        expect(createUsageLimiterFromEnv({ RATE_LIMITS: 'off' })).toBeNull();
+    });
+});
+
+describe('clientFor', () => {
+    it('counts callers verified by the auth middleware by account', () => {
+        const req = { user: { id: 'user-1', token: 't' }, body: { userId: 'someone-else' }, query: {}, ip: '1.2.3.4' };
+        expect(clientFor(req)).toEqual({ client: 'user:user-1', isUser: true });
+    });
+
+    it('ignores a claimed userId without a verified user', () => {
+        const req = { user: null, headers: { authorization: 'Bearer forged' }, body: { userId: 'victim' }, query: {}, ip: '1.2.3.4' };
+        expect(clientFor(req)).toEqual({ client: 'ip:1.2.3.4', isUser: false });
+    });
+});
+
+describe('rate-limited routes', () => {
+    it('answers 429 with Retry-After once the quota is spent', async () => {
+        const app = await loadApp({ TTS_CACHE_BACKEND: 'memory', RATE_LIMIT_TTS: '0/0/2' });
+
+        const first = await request(app).post('/api/tts').send({ text: 'Bonjour' });
+        expect(first.status).toBe(200);
+        expect(first.headers['x-quota-remaining']).toBe('1');
+        await request(app).post('/api/tts').send({ text: 'Salut' });
+
+        const refused = await request(app).post('/api/tts').send({ text: 'Merci' });
+        expect(refused.status).toBe(429);
+        expect(Number(refused.headers['retry-after'])).toBeGreaterThan(0);
+        expect(refused.body).toMatchObject({ code: 'daily_limit' });
+
+        // Other buckets are unaffected
+        expect((await request(app).get('/api/languages')).status).toBe(200);
+    });
+});
+
+describe('CORS', () => {
+    it('only allows the dev server unless CORS_ORIGINS says otherwise', async () => {
+        let app = await loadApp();
+        const dev = await request(app).get('/api/languages').set('Origin', 'http://localhost:5173');
+        expect(dev.headers['access-control-allow-origin']).toBe('http://localhost:5173');
+        const other = await request(app).get('/api/languages').set('Origin', 'https://evil.example');
+        expect(other.headers['access-control-allow-origin']).toBeUndefined();
+
+        app = await loadApp({ CORS_ORIGINS: 'https://pal.example' });
+        const configured = await request(app).get('/api/languages').set('Origin', 'https://pal.example');
+        expect(configured.headers['access-control-allow-origin']).toBe('https://pal.example');
+    });
+});
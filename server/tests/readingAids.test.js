@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import request from 'supertest';
+import { normalizeReading, describeReadingAid, readingSchema } from '../readingAids.js';
+import { findLanguage } from '../languages.js';
+import { normalizeTutorResponse } from '../helperLanguages.js';
+import { loadApp } from './helpers.js';
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+});
+
+describe('normalizeReading', () => {
+    const tokens = [
+        { text: '元気', reading: 'げんき' },
+        { text: 'です', reading: '' },
+        { text: 'か？' },
+    ];
+
+    it('keeps tokens that add up to targetText', () => {
+        expect(normalizeReading(tokens, '元気ですか？')).toEqual([
+            { text: '元気', reading: 'げんき' },
+            { text: 'です', reading: '' },
+            { text: 'か？', reading: '' },
+        ]);
+    });
+
+    it('ignores spaces between tokens', () => {
+        expect(normalizeReading([{ text: 'Привет!', reading: 'Privét!' }, { text: 'Как', reading: 'Kak' }], 'Привет! Как'))
+            .toHaveLength(2);
+    });
+
+    it('drops guides that drift from targetText or read nothing', () => {
+        expect(normalizeReading(tokens, '元気でしたか？')).toBeUndefined();
+        expect(normalizeReading([{ text: 'です', reading: '' }], 'です')).toBeUndefined();
+        expect(normalizeReading('げんき', '元気')).toBeUndefined();
+    });
+
+    it('survives normalizeTutorResponse', () => {
+        const response = normalizeTutorResponse({ targetText: '元気ですか？', translations: { en: 'How are you?' }, reading: tokens });
+        expect(response.reading).toHaveLength(3);
+        expect(normalizeTutorResponse({ targetText: 'Salut', translations: {} })).not.toHaveProperty('reading');
+    });
+});
+
+describe('reading aid prompts', () => {
+    it('asks only languages with an aid for a reading', () => {
+        expect(readingSchema(findLanguage('French'))).toBe('');
+        expect(describeReadingAid(findLanguage('French'))).toBe('');
+        expect(readingSchema(findLanguage('Chinese'))).toContain('"reading"');
+        expect(describeReadingAid(findLanguage('Chinese'))).toMatch(/Pinyin guide/);
+        expect(describeReadingAid(findLanguage('Cantonese'))).toMatch(/Jyutping/);
+    });
+});
+
+describe('/api/chat with the fake provider', () => {
+    it('returns a reading guide for languages with an aid', async () => {
+        const app = await loadApp();
+
+        const japanese = await request(app)
+            .post('/api/chat')
+            .send({ message: 'Konnichiwa Yuki', sessionId: 'r1', language: 'Japanese', scenario: 'Basics' });
+        expect(japanese.body.response.reading).toEqual([
+            { text: 'Echo:', reading: '' },
+            { text: 'Konnichiwa', reading: 'konnichiwa' },
+            { text: 'Yuki', reading: 'yuki' },
+        ]);
+
+        const french = await request(app)
+            .post('/api/chat')
+            .send({ message: 'Bonjour', sessionId: 'r2', language: 'French', scenario: 'Basics' });
+        expect(french.body.response).not.toHaveProperty('reading');
+    });
+});
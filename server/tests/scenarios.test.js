@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { validateScenario, describeScenario, findBuiltInScenario, fromScenarioRow, toScenarioRow } from '../scenarios.js';
+
+describe('validateScenario', () => {
+    it('requires a title', () => {
+        expect(validateScenario({ title: '  ' }).error).toMatch(/Title/);
+    });
+
+    it('rejects unknown levels and icons', () => {
+        expect(validateScenario({ title: 'Job interview', level: 'Z9' }).error).toMatch(/Level/);
+        expect(validateScenario({ title: 'Job interview', icon: 'rocket' }).error).toMatch(/icon/);
+    });
+
+    it('rejects fields of the wrong type instead of throwing', () => {
+        expect(validateScenario({ title: 'Job interview', description: 42 }).error).toMatch(/description must be a string/);
+        expect(validateScenario({ title: 'Job interview', setting: { place: 'office' } }).error).toMatch(/setting/);
+        expect(validateScenario({ title: 'Job interview', tutorRole: ['boss'] }).error).toMatch(/tutorRole/);
+        expect(validateScenario({ title: 'Job interview', goals: 'Get the job' }).error).toMatch(/goals must be a list/);
+        expect(validateScenario({ title: 'Job interview', targetVocabulary: [{ word: 'CV' }] }).error).toMatch(/targetVocabulary/);
+        expect(validateScenario({ title: 'Job interview', isPublic: 'yes' }).error).toMatch(/isPublic/);
+        expect(validateScenario({ title: 'Job interview', description: null, goals: null }).value).toBeDefined();
+    });
+
+    it('trims and defaults the payload', () => {
+        const { value } = validateScenario({
+            title: ' Job interview ',
+            goals: ['Describe your experience', '', 42],
+            icon: 'briefcase',
+        });
+
+        expect(value.title).toBe('Job interview');
+        expect(value.goals).toEqual(['Describe your experience', '42']);
+        expect(value.level).toBe('A2');
+        expect(value.isPublic).toBe(false);
+    });
+
+    it('round-trips through the table row shape', () => {
+        const { value } = validateScenario({ title: 'Doctor visit', tutorRole: 'A GP', targetVocabulary: ['fièvre'] });
+        const scenario = fromScenarioRow({ id: 'x', user_id: 'u1', ...toScenarioRow(value) });
+
+        expect(scenario).toMatchObject({ ...value, id: 'x', ownerId: 'u1', builtIn: false });
+    });
+});
+
+describe('describeScenario', () => {
+    it('includes the role, goals and vocabulary', () => {
+        const text = describeScenario({
+            title: 'Doctor visit',
+            setting: 'A clinic',
+            tutorRole: 'The doctor',
+            goals: ['Describe symptoms'],
+            targetVocabulary: ['fièvre', 'toux'],
+            level: 'B1',
+        });
+
+        expect(text).toContain('Your role: The doctor');
+        expect(text).toContain('Describe symptoms');
+        expect(text).toContain('fièvre, toux');
+        expect(text).toContain('B1');
+    });
+
+    it('keeps the legacy enum values as built-in ids', () => {
+        expect(findBuiltInScenario('Ordering at a Café').title).toBe('At a Café');
+    });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import request from 'supertest';
+import {
+    isSessionId, validateSessionUpdate, fromSessionRow, sessionPreview, recordingKeys, MAX_SESSION_TITLE_LENGTH
+} from '../sessions.js';
+import { loadApp, recordProviderChats, fakeSupabase, signAccessToken, TEST_JWT_SECRET } from './helpers.js';
+
+afterEach(() => {
+    vi.doUnmock('../providers/index.js');
+    vi.doUnmock('../supabase.js');
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+});
+
+describe('fromSessionRow', () => {
+    it('maps a chat_sessions row to what the list shows', () => {
+        expect(fromSessionRow({
+            id: 'a',
+            title: null,
+            archived: null,
+            language: 'French',
+            scenario: 'Ordering at a Café',
+            preview: 'Je voudrais un café',
+            message_count: 3,
+            started_at: '2026-01-01T10:00:00Z',
+            last_message_at: '2026-01-01T10:02:00Z',
+        })).toEqual({
+            id: 'a',
+            title: null,
+            preview: 'Je voudrais un café',
+            language: 'French',
+            scenario: 'Ordering at a Café',
+            messageCount: 3,
+            startedAt: '2026-01-01T10:00:00Z',
+            updatedAt: '2026-01-01T10:02:00Z',
+            archived: false,
+        });
+    });
+});
+
+describe('sessionPreview', () => {
+    it('prefers typed text, falls back to the transcript and shortens long turns', () => {
+        expect(sessionPreview([{ text: 'Bonjour' }])).toBe('Bonjour');
+        expect(sessionPreview([{ audio: { key: 'k' } }, { transcript: 'Salut' }])).toBe('Salut');
+        expect(sessionPreview([{ text: 'x'.repeat(100) }])).toHaveLength(80);
+        expect(sessionPreview([])).toBe('');
+    });
+});
+
+describe('recordingKeys', () => {
+    it('collects the storage keys of voice turns', () => {
+        const rows = [
+            { content: [{ audio: { key: 'u1/a.webm', mimeType: 'audio/webm' } }, { transcript: 'Bonjour' }] },
+            { content: [{ text: 'Salut' }] },
+            { content: [{ audio: { key: null, mimeType: 'audio/webm' } }] },
+            { content: null },
+        ];
+
+        expect(recordingKeys(rows)).toEqual(['u1/a.webm']);
+    });
+});
+
+describe('validateSessionUpdate', () => {
+    it('accepts a title and/or archive flag', () => {
+        expect(validateSessionUpdate({ title: '  Café  ' })).toEqual({ value: { title: 'Café' } });
+        expect(validateSessionUpdate({ title: '', archived: true })).toEqual({ value: { title: null, archived: true } });
+    });
+
+    it('rejects empty, oversized or mistyped updates', () => {
+        expect(validateSessionUpdate({}).error).toBe("Nothing to update");
+        expect(validateSessionUpdate({ title: 'x'.repeat(MAX_SESSION_TITLE_LENGTH + 1) }).error).toMatch(/characters/);
+        expect(validateSessionUpdate({ archived: 'yes' }).error).toMatch(/true or false/);
+    });
+});
+
+describe('isSessionId', () => {
+    it('only accepts plain tokens', () => {
+        expect(isSessionId('k3j2h1700000000000')).toBe(true);
+        expect(isSessionId('a,b')).toBe(false);
+        expect(isSessionId('')).toBe(false);
+        expect(isSessionId(undefined)).toBe(false);
+    });
+});
+
+describe('session routes', () => {
+    it('require a signed-in user', async () => {
+        const app = await loadApp();
+
+        expect((await request(app).get('/api/sessions?language=French')).status).toBe(401);
+        expect((await request(app).put('/api/sessions/abc').send({ title: 'Hi' })).status).toBe(401);
+        expect((await request(app).delete('/api/sessions/abc')).status).toBe(401);
+    });
+
+    it('only delete what the signed-in user owns', async () => {
+        const calls = recordProviderChats();
+        const queries = fakeSupabase({
+            tables: { chat_history: [{ content: [{ audio: { key: 'u1/a.webm' } }, { transcript: 'Bonjour' }] }] },
+        });
+        const app = await loadApp({ SUPABASE_JWT_SECRET: TEST_JWT_SECRET, AUDIO_STORAGE_BACKEND: 'none' });
+        const send = (message) => request(app)
+            .post('/api/chat')
+            .send({ message, sessionId: 'visitor-1', language: 'French', scenario: 'Basics' });
+
+        await send('Un');
+        const res = await request(app)
+            .delete('/api/sessions/visitor-1')
+            .set('Authorization', `Bearer ${signAccessToken('11111111-2222-3333-4444-555555555555')}`);
+        expect(res.status).toBe(200);
+        for (const entry of queries.filter(entry => entry.table)) {
+            expect(entry.calls).toContainEqual(['eq', 'user_id', '11111111-2222-3333-4444-555555555555']);
+        }
+
+        // The visitor's conversation with the same id is untouched
+        await send('Deux');
+        expect(calls[1].contents.map(turn => turn.parts[0].text)).toEqual(['Un', expect.stringContaining('Echo: Un'), 'Deux']);
+    });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import request from 'supertest';
+import {
+    createCardSchedule, scheduleReview, isReviewQuality, validateVocabItem, MIN_EASE_FACTOR, MAX_VOCAB_TEXT_LENGTH
+} from '../srs.js';
+import { loadApp, signAccessToken, TEST_JWT_SECRET } from './helpers.js';
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+});
+
+describe('scheduleReview', () => {
+    const now = new Date('2024-01-01T00:00:00.000Z');
+
+    it('creates new cards due immediately', () => {
+        const card = createCardSchedule(now);
+
+        expect(card.repetitions).toBe(0);
+        expect(card.ease_factor).toBe(2.5);
+        expect(card.due_at).toBe(now.toISOString());
+    });
+
+    it('follows the 1 day, 6 days, then ease-factor progression', () => {
+        let card = createCardSchedule(now);
+
+        card = scheduleReview(card, 4, now);
+        expect(card.interval_days).toBe(1);
+        expect(card.repetitions).toBe(1);
+
+        card = scheduleReview(card, 4, now);
+        expect(card.interval_days).toBe(6);
+
+        card = scheduleReview(card, 4, now);
+        expect(card.interval_days).toBe(15);
+        expect(card.due_at).toBe('2024-01-16T00:00:00.000Z');
+    });
+
+    it('resets repetitions on a failed recall', () => {
+        const card = { ease_factor: 2.5, interval_days: 15, repetitions: 3 };
+
+        const next = scheduleReview(card, 1, now);
+
+        expect(next.repetitions).toBe(0);
+        expect(next.interval_days).toBe(1);
+        expect(next.ease_factor).toBeLessThan(2.5);
+    });
+
+    it('never lets the ease factor drop below the minimum', () => {
+        let card = createCardSchedule(now);
+        for (let i = 0; i < 10; i++) card = scheduleReview(card, 0, now);
+
+        expect(card.ease_factor).toBe(MIN_EASE_FACTOR);
+    });
+
+    it('rejects non-numeric quality', () => {
+        expect(() => scheduleReview(createCardSchedule(now), 'good', now)).toThrow();
+    });
+});
+
+describe('isReviewQuality', () => {
+    it('accepts whole grades from 0 to 5 only', () => {
+        expect([0, 3, 5].every(isReviewQuality)).toBe(true);
+        expect([-1, 6, 2.5, '4', null, NaN].some(isReviewQuality)).toBe(false);
+    });
+});
+
+describe('validateVocabItem', () => {
+    it('trims the text and defaults the translation and source', () => {
+        expect(validateVocabItem({ text: '  la maison ' })).toEqual({ value: { text: 'la maison', translation: null, source: 'tutor' } });
+        expect(validateVocabItem({ text: 'chat', translation: 'cat', source: 'gloss' }).value).toEqual({ text: 'chat', translation: 'cat', source: 'gloss' });
+    });
+
+    it('rejects missing, mistyped or oversized fields', () => {
+        for (const text of [undefined, '  ', 42, { a: 1 }, ['chat']]) {
+            expect(validateVocabItem({ text }).error).toBe("Text is required");
+        }
+        expect(validateVocabItem({ text: 'x'.repeat(MAX_VOCAB_TEXT_LENGTH + 1) }).error).toMatch(/characters/);
+        expect(validateVocabItem({ text: 'chat', translation: 7 }).error).toMatch(/string/);
+        expect(validateVocabItem({ text: 'chat', source: 'anki' }).error).toMatch(/tutor, correction, gloss/);
+    });
+});
+
+describe('POST /api/vocab', () => {
+    it('answers 400 for bad text or an unknown language', async () => {
+        const app = await loadApp({ SUPABASE_JWT_SECRET: TEST_JWT_SECRET });
+        const save = (body) => request(app)
+            .post('/api/vocab')
+            .set('Authorization', `Bearer ${signAccessToken('11111111-2222-3333-4444-555555555555')}`)
+            .send(body);
+
+        expect((await save({ language: 'French', text: 42 })).status).toBe(400);
+        expect((await save({ language: 'French', text: ['chat'] })).status).toBe(400);
+        expect((await save({ language: 'French', text: 'x'.repeat(MAX_VOCAB_TEXT_LENGTH + 1) })).status).toBe(400);
+        expect((await save({ language: 'Klingon', text: 'chat' })).status).toBe(400);
+        // Valid cards get as far as storage, which this test server doesn't have
+        expect((await save({ language: 'French', text: 'chat' })).status).toBe(503);
+    });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import request from 'supertest';
+import {
+    buildStats, dayKey, lastDays, estimateVoiceSeconds, readStatsDays, isTimeZone, MAX_STATS_DAYS, STATS_PAGE_SIZE
+} from '../stats.js';
+import { loadApp, fakeSupabase, signAccessToken, TEST_JWT_SECRET } from './helpers.js';
+
+afterEach(() => {
+    vi.doUnmock('../supabase.js');
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+});
+
+const NOW = Date.parse('2026-03-10T12:00:00Z');
+
+const turn = (createdAt, extra = {}) => ({
+    language: 'French',
+    scenario: 'cafe',
+    content: [{ text: 'Bonjour' }],
+    created_at: createdAt,
+    ...extra,
+});
+
+describe('days', () => {
+    it('buckets by the learner\'s time zone', () => {
+        expect(dayKey('2026-03-10T02:00:00Z', 'UTC')).toBe('2026-03-10');
+        expect(dayKey('2026-03-10T02:00:00Z', 'America/New_York')).toBe('2026-03-09');
+        expect(lastDays(3, 'Asia/Tokyo', Date.parse('2026-03-01T20:00:00Z'))).toEqual(['2026-02-28', '2026-03-01', '2026-03-02']);
+    });
+
+    it('reads the window and time zone from the query', () => {
+        expect(readStatsDays(undefined)).toBe(30);
+        expect(readStatsDays('7')).toBe(7);
+        expect(readStatsDays('1000')).toBe(MAX_STATS_DAYS);
+        expect(isTimeZone('Europe/Paris')).toBe(true);
+        expect(isTimeZone('Mars/Olympus')).toBe(false);
+    });
+});
+
+describe('estimateVoiceSeconds', () => {
+    it('estimates voice turns from their transcript, with a floor', () => {
+        expect(estimateVoiceSeconds([{ text: 'Bonjour' }])).toBe(0);
+        expect(estimateVoiceSeconds([{ audio: { key: 'k' } }])).toBe(2);
+        expect(estimateVoiceSeconds([{ audio: { key: 'k' } }, { transcript: 'je voudrais un grand café crème' }])).toBe(3);
+    });
+});
+
+describe('buildStats', () => {
+    it('aggregates turns, voice time, mistakes and scenarios per language', () => {
+        const stats = buildStats([
+            turn('2026-03-09T10:00:00Z'),
+            turn('2026-03-10T09:00:00Z', { content: [{ audio: { key: 'k' } }, { transcript: 'un deux trois quatre cinq six sept huit neuf dix onze douze' }] }),
+            turn('2026-03-10T09:05:00Z', { scenario: 'custom-1' }),
+            turn('2026-03-10T09:10:00Z', { language: 'Japanese', scenario: 'cafe' }),
+            turn('2026-01-01T09:00:00Z'), // Outside the window
+        ], [
+            { language: 'French', category: 'verb_tense', created_at: '2026-03-10T09:00:00Z' },
+            { language: 'French', category: 'verb_tense', created_at: '2026-03-09T10:00:00Z' },
+            { language: 'French', category: null, created_at: '2026-03-10T09:05:00Z' },
+        ], { days: 3, now: NOW, scenarioTitles: { cafe: 'Ordering at a Café' } });
+
+        expect(stats.days).toEqual(['2026-03-08', '2026-03-09', '2026-03-10']);
+        expect(stats.languages.map(l => l.language)).toEqual(['French', 'Japanese']);
+
+        const french = stats.languages[0];
+        expect(french.totals).toEqual({ turns: 3, voiceMinutes: 0.1, mistakes: 3, mistakeRate: 1, activeDays: 2, scenarios: 2 });
+        expect(french.daily).toEqual([
+            { date: '2026-03-08', turns: 0, voiceMinutes: 0, mistakes: 0, mistakeRate: null },
+            { date: '2026-03-09', turns: 1, voiceMinutes: 0, mistakes: 1, mistakeRate: 1 },
+            { date: '2026-03-10', turns: 2, voiceMinutes: 0.1, mistakes: 2, mistakeRate: 1 },
+        ]);
+        expect(french.scenarios).toEqual([
+            { id: 'cafe', title: 'Ordering at a Café', turns: 2, lastPracticedAt: '2026-03-10T09:00:00Z' },
+            { id: 'custom-1', title: 'custom-1', turns: 1, lastPracticedAt: '2026-03-10T09:05:00Z' },
+        ]);
+        expect(french.errorTypes).toEqual([{ category: 'verb_tense', count: 2 }, { category: 'other', count: 1 }]);
+    });
+
+    it('is empty without activity', () => {
+        expect(buildStats([], [], { days: 7, now: NOW }).languages).toEqual([]);
+    });
+});
+
+describe('stats route', () => {
+    it('requires a signed-in user', async () => {
+        const app = await loadApp();
+
+        expect((await request(app).get('/api/stats')).status).toBe(401);
+    });
+
+    it('reads every turn in the window, a page at a time in date order', async () => {
+        // One full page, then a partial one
+        const pageOf = (calls) => {
+            const [, from] = calls.find(([method]) => method === 'range');
+            const count = from === 0 ? STATS_PAGE_SIZE : 3;
+            return Array.from({ length: count }, () => turn(new Date().toISOString()));
+        };
+        const queries = fakeSupabase({ tables: { chat_history: pageOf } });
+        const app = await loadApp({ SUPABASE_JWT_SECRET: TEST_JWT_SECRET });
+
+        const res = await request(app)
+            .get('/api/stats?days=7')
+            .set('Authorization', `Bearer ${signAccessToken('11111111-2222-3333-4444-555555555555')}`);
+
+        expect(res.status).toBe(200);
+        const turnQueries = queries.filter(entry => entry.table === 'chat_history');
+        expect(turnQueries.map(entry => entry.calls.find(([method]) => method === 'range'))).toEqual([
+            ['range', 0, STATS_PAGE_SIZE - 1],
+            ['range', STATS_PAGE_SIZE, 2 * STATS_PAGE_SIZE - 1],
+        ]);
+        for (const entry of turnQueries) {
+            expect(entry.calls).toContainEqual(['order', 'created_at', { ascending: true }]);
+            expect(entry.calls.some(([method, column]) => method === 'gte' && column === 'created_at')).toBe(true);
+        }
+        const french = res.body.languages.find(stats => stats.language === 'French');
+        expect(french.totals.turns).toBe(STATS_PAGE_SIZE + 3);
+    });
+});
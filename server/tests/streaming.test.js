@@ -0,0 +1,35 @@
+import { describe, it, expect, vi } from 'vitest';
+import { extractPartialString, writeSseEvent } from '../streaming.js';
+
+describe('extractPartialString', () => {
+    it('returns null before the key appears', () => {
+        expect(extractPartialString('{"correction": {"hasMistake": false', 'targetText')).toBeNull();
+    });
+
+    it('reads an unterminated value as it grows', () => {
+        const buffer = '{"response": {"targetText": "Bonjour, comm';
+
+        expect(extractPartialString(buffer, 'targetText')).toBe('Bonjour, comm');
+    });
+
+    it('stops at the closing quote and decodes escapes', () => {
+        const buffer = '{"targetText": "Il a dit \\"salut\\"\\nà toi", "english": "x"}';
+
+        expect(extractPartialString(buffer, 'targetText')).toBe('Il a dit "salut"\nà toi');
+    });
+
+    it('holds back a half-received escape sequence', () => {
+        expect(extractPartialString('{"targetText": "caf\\u00', 'targetText')).toBe('caf');
+        expect(extractPartialString('{"targetText": "caf\\u00e9', 'targetText')).toBe('café');
+    });
+});
+
+describe('writeSseEvent', () => {
+    it('formats named events with JSON data', () => {
+        const res = { write: vi.fn() };
+
+        writeSseEvent(res, 'delta', { targetText: 'Salut' });
+
+        expect(res.write).toHaveBeenCalledWith('event: delta\ndata: {"targetText":"Salut"}\n\n');
+    });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+    createTtsCacheKey,
+    createMemoryTtsStore,
+    createFileSystemTtsStore,
+    createTtsStoreFromEnv,
+} from '../ttsCache.js';
+
+describe('createTtsCacheKey', () => {
+    it('is stable and sensitive to every component', () => {
+        const key = createTtsCacheKey('gemini', 'tts-1', 'Bonjour', 'Puck', 'pcm');
+
+        expect(key).toMatch(/^[0-9a-f]{64}$/);
+        expect(createTtsCacheKey('gemini', 'tts-1', 'Bonjour', 'Puck', 'pcm')).toBe(key);
+        expect(createTtsCacheKey('openai', 'tts-1', 'Bonjour', 'Puck', 'pcm')).not.toBe(key);
+        expect(createTtsCacheKey('gemini', 'tts-2', 'Bonjour', 'Puck', 'pcm')).not.toBe(key);
+        expect(createTtsCacheKey('gemini', 'tts-1', 'Bonjour', 'Kore', 'pcm')).not.toBe(key);
+        expect(createTtsCacheKey('gemini', 'tts-1', 'Bonjour', 'Puck', 'mp3')).not.toBe(key);
+    });
+});
+
+describe('createMemoryTtsStore', () => {
+    it('evicts the least recently used entry when over the limit', async () => {
+        const store = createMemoryTtsStore({ maxBytes: 10 });
+        await store.set('a', Buffer.alloc(4));
+        await store.set('b', Buffer.alloc(4));
+        await store.get('a'); // a is now most recent
+        await store.set('c', Buffer.alloc(4));
+
+        expect(await store.get('b')).toBeNull();
+        expect(await store.get('a')).not.toBeNull();
+        expect(store.stats().bytes).toBe(8);
+    });
+});
+
+describe('createFileSystemTtsStore', () => {
+    let dir;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tts-cache-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('round-trips audio through disk', async () => {
+        const store = createFileSystemTtsStore({ dir, maxBytes: 1024 });
+        await store.set('k1', Buffer.from('audio'));
+
+        expect((await store.get('k1')).toString()).toBe('audio');
+        expect(await store.get('missing')).toBeNull();
+    });
+
+    it('evicts old files and survives a restart', async () => {
+        const store = createFileSystemTtsStore({ dir, maxBytes: 10 });
+        await store.set('old', Buffer.alloc(6));
+        await store.set('new', Buffer.alloc(6));
+
+        const files = await fs.readdir(dir);
+        expect(files).toEqual(['new.bin']);
+
+        const reopened = createFileSystemTtsStore({ dir, maxBytes: 10 });
+        expect(await reopened.get('new')).not.toBeNull();
+        expect(reopened.stats().entries).toBe(1);
+    });
+
+    it('keeps concurrent writes of the same key intact', async () => {
+        const store = createFileSystemTtsStore({ dir, maxBytes: 1024 * 1024 });
+        const values = ['a', 'b', 'c'].map(fill => Buffer.alloc(64 * 1024, fill));
+        await Promise.all(values.map(value => store.set('same', value)));
+
+        const stored = await store.get('same');
+        expect(values.some(value => value.equals(stored))).toBe(true);
+        expect(await fs.readdir(dir)).toEqual(['same.bin']);
+        expect(store.stats()).toEqual({ entries: 1, bytes: 64 * 1024 });
+    });
+
+    it('skips values larger than the whole cache', async () => {
+        const store = createFileSystemTtsStore({ dir, maxBytes: 4 });
+        await store.set('big', Buffer.alloc(8));
+
+        expect(await store.get('big')).toBeNull();
+    });
+});
+
+describe('createTtsStoreFromEnv', () => {
+    it('can be disabled', () => {
+        expect(createTtsStoreFromEnv({ TTS_CACHE_BACKEND: 'none' })).toBeNull();
+    });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import request from 'supertest';
+import {
+    REPLY_ERROR_CODES, parseModelJson, validateTutorReply, checkTutorReply, buildRepairContents, degradedReply
+} from '../tutorReply.js';
+import { loadApp } from './helpers.js';
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+});
+
+const validReply = {
+    correction: { hasMistake: false, correctedText: null, explanation: null, category: null, pronunciation: null },
+    transcript: null,
+    response: { targetText: 'Bonjour !', translations: { en: 'Hello!' } },
+};
+
+describe('parseModelJson', () => {
+    it('reads JSON wrapped in code fences or prose', () => {
+        expect(parseModelJson('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+        expect(parseModelJson('Sure! {"a":1} Hope that helps.')).toEqual({ a: 1 });
+        expect(() => parseModelJson('no json here')).toThrow("No JSON found in response");
+    });
+});
+
+describe('validateTutorReply', () => {
+    it('accepts a complete reply', () => {
+        expect(validateTutorReply(validReply)).toEqual([]);
+    });
+
+    it('lists every problem with the shape', () => {
+        const problems = validateTutorReply({
+            correction: { hasMistake: true, correctedText: null },
+            response: { targetText: '', translations: 'Hello' },
+            transcript: 42,
+        });
+        expect(problems).toEqual([
+            '"correction.correctedText" is required when "hasMistake" is true',
+            '"response.targetText" must be a non-empty string',
+            '"response.translations" must be an object',
+            '"transcript" must be a string or null',
+        ]);
+        expect(validateTutorReply([])).toEqual(['reply must be a JSON object']);
+    });
+});
+
+describe('checkTutorReply', () => {
+    it('returns the reply or a typed error', () => {
+        expect(checkTutorReply(JSON.stringify(validReply))).toEqual({ reply: validReply });
+        expect(checkTutorReply('I am not JSON').error.code).toBe(REPLY_ERROR_CODES.notJson);
+        expect(checkTutorReply('{"response":{}}').error).toMatchObject({
+            code: REPLY_ERROR_CODES.invalidSchema,
+            problems: expect.arrayContaining(['"correction" must be an object']),
+        });
+    });
+
+    it('builds a repair turn quoting the problems', () => {
+        const { error } = checkTutorReply('{"response":{}}');
+        const contents = buildRepairContents([{ role: 'user', parts: [{ text: 'Salut' }] }], '{"response":{}}', error);
+        expect(contents).toHaveLength(3);
+        expect(contents[1]).toEqual({ role: 'model', parts: [{ text: '{"response":{}}' }] });
+        expect(contents[2].parts[0].text).toContain('"correction" must be an object');
+    });
+
+    it('degrades to an empty reply that still matches the schema', () => {
+        const reply = degradedReply(REPLY_ERROR_CODES.notJson);
+        expect(reply).toMatchObject({ degraded: true, errorCode: 'reply_not_json' });
+        expect(validateTutorReply({ ...reply, response: { ...reply.response, targetText: '…' } })).toEqual([]);
+    });
+});
+
+describe('chat routes with invalid replies', () => {
+    it('repairs a misshapen reply with one re-prompt', async () => {
+        const app = await loadApp();
+        const warn = vi.mocked(console.warn);
+
+        const res = await request(app)
+            .post('/api/chat')
+            .send({ message: 'garble', sessionId: 'repair-1', language: 'French', scenario: 'Basics' });
+
+        expect(res.status).toBe(200);
+        expect(res.body.degraded).toBeUndefined();
+        expect(res.body.response.targetText).toMatch(/^Echo: Your previous reply could not be used/);
+        expect(warn).toHaveBeenCalledWith('[Reply Error] reply_invalid_schema', expect.objectContaining({ attempt: 1 }));
+    });
+
+    it('degrades instead of failing when the repair is unusable too', async () => {
+        const app = await loadApp();
+        const warn = vi.mocked(console.warn);
+
+        const res = await request(app)
+            .post('/api/chat')
+            .send({ message: 'You confuse me', sessionId: 'repair-2', language: 'French', scenario: 'Basics' });
+        expect(res.status).toBe(200);
+        expect(res.body).toMatchObject({ degraded: true, errorCode: 'reply_not_json' });
+        expect(warn).toHaveBeenCalledWith('[Reply Error] reply_not_json', expect.objectContaining({ attempt: 2 }));
+
+        const stream = await request(app)
+            .post('/api/chat/stream')
+            .send({ message: 'You confuse me', sessionId: 'repair-3', language: 'French', scenario: 'Basics' });
+        expect(stream.text).toContain('event: final');
+        expect(stream.text).toContain('"degraded":true');
+    });
+});
@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+// Content-addressed cache for generated speech.
+// A store is any object with async get(key) -> Buffer | null and set(key, Buffer).
+
+const DEFAULT_MAX_BYTES = 200 * 1024 * 1024;
+
+// The provider and TTS model are part of the key, so switching either never replays old audio.
+export const createTtsCacheKey = (providerName, ttsModel, text, voiceName, format) =>
+    crypto.createHash('sha256')
+        .update(JSON.stringify([providerName, ttsModel ?? null, text, voiceName, format]))
+        .digest('hex');
+
+export const createMemoryTtsStore = ({ maxBytes = DEFAULT_MAX_BYTES } = {}) => {
+    const entries = new Map(); // Map iteration order doubles as LRU order
+    let totalBytes = 0;
+
+    return {
+        async get(key) {
+            const value = entries.get(key);
+            if (!value) return null;
+            entries.delete(key);
+            entries.set(key, value);
+            return value;
+        },
+        async set(key, value) {
+            if (value.length > maxBytes) return;
+            if (entries.has(key)) totalBytes -= entries.get(key).length;
+            entries.delete(key);
+            entries.set(key, value);
+            totalBytes += value.length;
+
+            while (totalBytes > maxBytes) {
+                const [oldestKey, oldest] = entries.entries().next().value;
+                entries.delete(oldestKey);
+                totalBytes -= oldest.length;
+            }
+        },
+        stats: () => ({ entries: entries.size, bytes: totalBytes }),
+    };
+};
+
+export const createFileSystemTtsStore = ({ dir, maxBytes = DEFAULT_MAX_BYTES }) => {
+    const index = new Map(); // key -> size in bytes, least recently used first
+    let totalBytes = 0;
+    let ready = null;
+
+    const fileFor = (key) => path.join(dir, `${key}.bin`);
+
+    // Rebuild the LRU index from disk, oldest access time first.
+    const load = async () => {
+        await fs.mkdir(dir, { recursive: true });
+        const names = (await fs.readdir(dir)).filter(name => name.endsWith('.bin'));
+        const files = await Promise.all(names.map(async name => {
+            const stat = await fs.stat(path.join(dir, name));
+            return { key: name.slice(0, -4), size: stat.size, atime: stat.atimeMs };
+        }));
+        files.sort((a, b) => a.atime - b.atime);
+        for (const file of files) {
+            index.set(file.key, file.size);
+            totalBytes += file.size;
+        }
+        await evict();
+    };
+
+    const evict = async () => {
+        while (totalBytes > maxBytes && index.size > 0) {
+            const [oldestKey, size] = index.entries().next().value;
+            index.delete(oldestKey);
+            totalBytes -= size;
+            await fs.rm(fileFor(oldestKey), { force: true });
+        }
+    };
+
+    const ensureReady = () => {
+        if (!ready) ready = load();
+        return ready;
+    };
+
+    return {
+        async get(key) {
+            await ensureReady();
+            if (!index.has(key)) return null;
+            try {
+                const value = await fs.readFile(fileFor(key));
+                const size = index.get(key);
+                index.delete(key);
+                index.set(key, size);
+                const now = new Date();
+                fs.utimes(fileFor(key), now, now).catch(() => { });
+                return value;
+            } catch (e) {
+                totalBytes -= index.get(key) || 0;
+                index.delete(key);
+                return null;
+            }
+        },
+        async set(key, value) {
+            await ensureReady();
+            if (value.length > maxBytes) return;
+
+            // Write to a temp file first so readers never see a partial entry; the random
+            // suffix keeps concurrent writes of the same key off each other's temp file
+            const tmp = `${fileFor(key)}.${process.pid}.${crypto.randomUUID()}.tmp`;
+            await fs.writeFile(tmp, value);
+            await fs.rename(tmp, fileFor(key));
+
+            if (index.has(key)) totalBytes -= index.get(key);
+            index.delete(key);
+            index.set(key, value.length);
+            totalBytes += value.length;
+            await evict();
+        },
+        stats: () => ({ entries: index.size, bytes: totalBytes }),
+    };
+};
+
+/**
+ * Picks the store from env:
+ * TTS_CACHE_BACKEND = fs (default) | memory | none
+ * TTS_CACHE_DIR (default .cache/tts), TTS_CACHE_MAX_BYTES (default 200MB)
+ */
+export const createTtsStoreFromEnv = (env = process.env) => {
+    const backend = (env.TTS_CACHE_BACKEND || 'fs').toLowerCase();
+    const maxBytes = parseInt(env.TTS_CACHE_MAX_BYTES || '', 10) || DEFAULT_MAX_BYTES;
+
+    if (backend === 'none') return null;
+    if (backend === 'memory') return createMemoryTtsStore({ maxBytes });
+    return createFileSystemTtsStore({ dir: path.resolve(env.TTS_CACHE_DIR || '.cache/tts'), maxBytes });
+};
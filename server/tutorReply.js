@@ -0,0 +1,108 @@
+// Parsing and validation of the tutor's JSON replies, with one repair re-prompt before degrading.
+
+// Typed failure codes, logged on the server and passed to the client in a degraded reply
+export const REPLY_ERROR_CODES = {
+    notJson: 'reply_not_json',
+    invalidSchema: 'reply_invalid_schema',
+    repairFailed: 'reply_repair_failed',
+};
+
+// Models like to wrap JSON in code fences or add a sentence around it.
+export const parseModelJson = (text) => {
+    try {
+        return JSON.parse(text);
+    } catch (e) {
+        const cleaned = String(text).replace(/```json\n?|```/g, '').trim();
+        const firstBrace = cleaned.indexOf('{');
+        const lastBrace = cleaned.lastIndexOf('}');
+        if (firstBrace !== -1 && lastBrace !== -1) {
+            return JSON.parse(cleaned.substring(firstBrace, lastBrace + 1));
+        }
+        throw new Error("No JSON found in response");
+    }
+};
+
+const isObject = (value) => Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+const isOptionalString = (value) => value === undefined || value === null || typeof value === 'string';
+
+/**
+ * Checks a parsed reply against the shape clients rely on (CorrectionData and
+ * TutorResponseData in types.ts). Returns a list of problems; empty means valid.
+ */
+export const validateTutorReply = (reply) => {
+    if (!isObject(reply)) return ['reply must be a JSON object'];
+    const problems = [];
+
+    const { correction, response } = reply;
+    if (!isObject(correction)) {
+        problems.push('"correction" must be an object');
+    } else {
+        if (typeof correction.hasMistake !== 'boolean') problems.push('"correction.hasMistake" must be true or false');
+        if (!isOptionalString(correction.correctedText)) problems.push('"correction.correctedText" must be a string or null');
+        if (!isOptionalString(correction.explanation)) problems.push('"correction.explanation" must be a string or null');
+        if (!isOptionalString(correction.category)) problems.push('"correction.category" must be a string or null');
+        if (correction.hasMistake === true && !(typeof correction.correctedText === 'string' && correction.correctedText.trim())) {
+            problems.push('"correction.correctedText" is required when "hasMistake" is true');
+        }
+        if (correction.pronunciation !== undefined && correction.pronunciation !== null && !isObject(correction.pronunciation)) {
+            problems.push('"correction.pronunciation" must be an object or null');
+        }
+    }
+
+    if (!isObject(response)) {
+        problems.push('"response" must be an object');
+    } else {
+        if (!(typeof response.targetText === 'string' && response.targetText.trim())) problems.push('"response.targetText" must be a non-empty string');
+        if (response.translations !== undefined && !isObject(response.translations)) problems.push('"response.translations" must be an object');
+    }
+
+    if (!isOptionalString(reply.transcript)) problems.push('"transcript" must be a string or null');
+    return problems;
+};
+
+/**
+ * Parses and validates raw model text.
+ * Returns { reply } or { error: { code, message, problems } }.
+ */
+export const checkTutorReply = (text) => {
+    let reply;
+    try {
+        reply = parseModelJson(text);
+    } catch (e) {
+        return { error: { code: REPLY_ERROR_CODES.notJson, message: e.message, problems: ['the reply was not valid JSON'] } };
+    }
+    const problems = validateTutorReply(reply);
+    if (problems.length > 0) {
+        return { error: { code: REPLY_ERROR_CODES.invalidSchema, message: problems.join('; '), problems } };
+    }
+    return { reply };
+};
+
+// The failed reply and a corrective instruction, appended to the turn for one more try
+export const buildRepairContents = (contents, badText, error) => [
+    ...contents,
+    { role: 'model', parts: [{ text: String(badText || '').slice(0, 4000) || '(empty reply)' }] },
+    {
+        role: 'user',
+        parts: [{
+            text: `Your previous reply could not be used: ${error.problems.join('; ')}. `
+                + 'Reply again to my last message with only the JSON object, exactly in the schema from your instructions, and no other text.'
+        }]
+    },
+];
+
+/**
+ * What the client gets when the model never produced a usable reply: an empty turn
+ * flagged `degraded` with the failure code, so it can say the tutor got confused.
+ */
+export const degradedReply = (code) => ({
+    correction: { hasMistake: false, correctedText: null, explanation: null, category: null, pronunciation: null },
+    transcript: null,
+    response: { targetText: '', translations: {} },
+    degraded: true,
+    errorCode: code,
+});
+
+export const logReplyFailure = (error, context) => {
+    console.warn(`[Reply Error] ${error.code}`, { ...context, message: error.message });
+};
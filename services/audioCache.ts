@@ -0,0 +1,108 @@
+import { AudioResponse } from "../types";
+
+// Two-level TTS cache: a small in-memory LRU in front of IndexedDB.
+// Keyed by a sha256 of [text, voiceName, format]; the server's key also covers its provider and TTS model.
+
+const MEMORY_LIMIT = 50;
+const PERSISTENT_LIMIT = 300;
+const DB_NAME = 'polyglot-pal-audio';
+const STORE_NAME = 'tts';
+
+const memoryCache = new Map<string, AudioResponse>();
+
+interface StoredAudio {
+  key: string;
+  data: Uint8Array;
+  format: AudioResponse['format'];
+  lastUsed: number;
+}
+
+export const createAudioCacheKey = async (text: string, voiceName: string, format: string): Promise<string> => {
+  const bytes = new TextEncoder().encode(JSON.stringify([text, voiceName, format]));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') return resolve(null);
+
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      store.createIndex('lastUsed', 'lastUsed');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn("Audio cache unavailable:", request.error);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+};
+
+const remember = (key: string, audio: AudioResponse) => {
+  memoryCache.delete(key);
+  memoryCache.set(key, audio);
+  if (memoryCache.size > MEMORY_LIMIT) {
+    memoryCache.delete(memoryCache.keys().next().value as string);
+  }
+};
+
+// Drops least recently used entries beyond the persistent limit.
+const prune = (store: IDBObjectStore) => {
+  const countRequest = store.count();
+  countRequest.onsuccess = () => {
+    let excess = countRequest.result - PERSISTENT_LIMIT;
+    if (excess <= 0) return;
+    store.index('lastUsed').openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor || excess <= 0) return;
+      cursor.delete();
+      excess--;
+      cursor.continue();
+    };
+  };
+};
+
+export const getCachedAudio = async (key: string): Promise<AudioResponse | null> => {
+  const inMemory = memoryCache.get(key);
+  if (inMemory) {
+    remember(key, inMemory);
+    return inMemory;
+  }
+
+  const db = await openDb();
+  if (!db) return null;
+
+  return new Promise(resolve => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    const request = store.get(key);
+    request.onsuccess = () => {
+      const entry = request.result as StoredAudio | undefined;
+      if (!entry) return resolve(null);
+      store.put({ ...entry, lastUsed: Date.now() });
+      const audio = { data: entry.data, format: entry.format };
+      remember(key, audio);
+      resolve(audio);
+    };
+    request.onerror = () => resolve(null);
+  });
+};
+
+export const setCachedAudio = async (key: string, audio: AudioResponse) => {
+  remember(key, audio);
+
+  const db = await openDb();
+  if (!db) return;
+
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+  const entry: StoredAudio = { key, data: audio.data, format: audio.format, lastUsed: Date.now() };
+  store.put(entry);
+  prune(store);
+};
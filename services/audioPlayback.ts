@@ -0,0 +1,54 @@
+import { AudioResponse } from "../types";
+
+// Decodes generateSpeech output: mp3 through the browser, raw PCM (24kHz, 16-bit mono) by hand.
+export const toAudioBuffer = async (ctx: AudioContext, audioResponse: AudioResponse): Promise<AudioBuffer> => {
+  if (audioResponse.format === 'mp3') {
+    const bufferCopy = audioResponse.data.buffer.slice(0) as ArrayBuffer;
+    return ctx.decodeAudioData(bufferCopy);
+  }
+
+  const dataInt16 = new Int16Array(audioResponse.data.buffer);
+  const float32 = new Float32Array(dataInt16.length);
+  for (let i = 0; i < dataInt16.length; i++) {
+    float32[i] = dataInt16[i] / 32768;
+  }
+  const audioBuffer = ctx.createBuffer(1, float32.length, 24000);
+  audioBuffer.getChannelData(0).set(float32);
+  return audioBuffer;
+};
+
+const waveformCache = new Map<string, Promise<number[]>>();
+
+/**
+ * Peak level (0-1) of each of `bars` equal slices of a recording, for drawing its
+ * waveform. Decoding happens offline, so it needs no user gesture.
+ */
+export const computeWaveform = (url: string, bars: number): Promise<number[]> => {
+  const cacheKey = `${bars}:${url}`;
+  let waveform = waveformCache.get(cacheKey);
+  if (!waveform) {
+    waveform = (async () => {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`Failed to load recording: ${response.statusText}`);
+      const ctx = new OfflineAudioContext(1, 1, 44100);
+      const audioBuffer = await ctx.decodeAudioData(await response.arrayBuffer());
+      const samples = audioBuffer.getChannelData(0);
+      const sliceLength = Math.max(1, Math.floor(samples.length / bars));
+
+      const peaks: number[] = [];
+      for (let bar = 0; bar < bars; bar++) {
+        let peak = 0;
+        const end = Math.min(samples.length, (bar + 1) * sliceLength);
+        for (let i = bar * sliceLength; i < end; i++) {
+          peak = Math.max(peak, Math.abs(samples[i]));
+        }
+        peaks.push(peak);
+      }
+      const loudest = Math.max(...peaks) || 1;
+      return peaks.map(peak => peak / loudest);
+    })();
+    waveformCache.set(cacheKey, waveform);
+    waveform.catch(() => waveformCache.delete(cacheKey));
+  }
+  return waveform;
+};
@@ -0,0 +1,49 @@
+import { Message, SupportedLanguage } from "../types";
+import { fetchWithTimeout, getApiUrl, getAuthHeaders, readErrorMessage } from "./geminiService";
+
+export type ExportFormat = 'markdown' | 'anki' | 'csv' | 'json';
+
+export const EXPORT_OPTIONS: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'markdown', label: 'Transcript', description: 'Markdown with corrections, ready to print as PDF' },
+  { format: 'anki', label: 'Anki deck', description: 'Import via File › Import in Anki' },
+  { format: 'csv', label: 'CSV flashcards', description: 'Phrase and translation pairs' },
+  { format: 'json', label: 'JSON', description: 'Raw messages' },
+];
+
+const filenameFrom = (response: Response, fallback: string) => {
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const encoded = disposition.match(/filename\*=UTF-8''([^;]+)/i)?.[1];
+  return encoded ? decodeURIComponent(encoded) : fallback;
+};
+
+/**
+ * Downloads a conversation export. Signed-in users export the saved history of
+ * `sessionId`; visitors pass the messages currently on screen.
+ */
+export const exportConversation = async (
+  format: ExportFormat,
+  language: SupportedLanguage,
+  scenario: string,
+  userId?: string,
+  messages?: Message[],
+  sessionId?: string
+) => {
+  const response = await fetchWithTimeout(getApiUrl('/api/export'), {
+    method: 'POST',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify({ format, language, scenario, userId, sessionId, messages: userId ? undefined : messages })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Export failed: ${await readErrorMessage(response)}`);
+  }
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filenameFrom(response, `conversation.${format}`);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
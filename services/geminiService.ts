@@ -1,17 +1,8 @@
-import { CorrectionData, TutorResponseData, Scenarios, SupportedLanguage, LanguageConfig, AudioResponse } from "../types";
+import { CorrectionData, TutorResponseData, SupportedLanguage, CefrLevel, AudioResponse } from "../types";
 import { getMockChatResponse, getMockAudioResponse, simulateNetworkDelay } from "./mockData";
 import { supabase } from "./supabaseClient";
-
-export const LANGUAGE_CONFIGS: Record<SupportedLanguage, LanguageConfig> = {
-  French: { id: 'French', name: 'French', flag: '🇫🇷', tutorName: 'Pierre', voiceName: 'Puck', speechCode: 'fr-FR', greeting: 'Bonjour! Ça va?' },
-  English: { id: 'English', name: 'English', flag: '🇬🇧', tutorName: 'James', voiceName: 'Fenrir', speechCode: 'en-US', greeting: 'Hello! How are you?' },
-  Spanish: { id: 'Spanish', name: 'Spanish', flag: '🇪🇸', tutorName: 'Sofia', voiceName: 'Kore', speechCode: 'es-ES', greeting: '¡Hola! ¿Cómo estás?' },
-  German: { id: 'German', name: 'German', flag: '🇩🇪', tutorName: 'Hans', voiceName: 'Charon', speechCode: 'de-DE', greeting: 'Hallo! Wie geht es dir?' },
-  Russian: { id: 'Russian', name: 'Russian', flag: '🇷🇺', tutorName: 'Dimitri', voiceName: 'Zephyr', speechCode: 'ru-RU', greeting: 'Привет! Как дела?' },
-  Japanese: { id: 'Japanese', name: 'Japanese', flag: '🇯🇵', tutorName: 'Yuki', voiceName: 'Puck', speechCode: 'ja-JP', greeting: 'こんにちは！元気ですか？' },
-  Cantonese: { id: 'Cantonese', name: 'Cantonese', flag: '🇭🇰', tutorName: 'Ka-ming', voiceName: 'Fenrir', speechCode: 'zh-HK', greeting: '你好！食咗飯未呀？' },
-  Chinese: { id: 'Chinese', name: 'Chinese', flag: '🇨🇳', tutorName: 'Li Wei', voiceName: 'Kore', speechCode: 'zh-CN', greeting: '你好！很高兴见到你。' },
-};
+import { normalizeTutorResponse } from "./helperLanguages";
+import { createAudioCacheKey, getCachedAudio, setCachedAudio } from "./audioCache";
 
 let currentVoiceName = 'Puck';
 let currentSessionId = Math.random().toString(36).substring(7) + Date.now().toString();
@@ -20,13 +11,77 @@ export const resetSession = () => {
   currentSessionId = Math.random().toString(36).substring(7) + Date.now().toString();
 };
 
+// Continues a saved session: later turns are stored under its id
+export const resumeSession = (sessionId: string) => {
+  currentSessionId = sessionId;
+};
+
+export const getSessionId = () => currentSessionId;
+
+// Voice used by generateSpeech; follows whichever language is being practised.
+export const setSpeechVoice = (voiceName: string) => {
+  currentVoiceName = voiceName;
+};
+
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const base64String = reader.result as string;
+      resolve(base64String.split(',')[1]);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
 export const getApiUrl = (endpoint: string) => {
   const baseUrl = import.meta.env?.VITE_API_URL || '';
   const cleanBaseUrl = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
   return `${cleanBaseUrl}${endpoint}`;
 };
 
-const fetchWithTimeout = async (url: string, options: RequestInit = {}) => {
+// Stored recordings come back either as absolute (signed) URLs or as server paths
+export const resolveMediaUrl = (url?: string | null) => {
+  if (!url) return undefined;
+  return url.startsWith('/') ? getApiUrl(url) : url;
+};
+
+// A 429 from the server's rate limiter; `daily_limit` means the day's quota is spent.
+export class RateLimitError extends Error {
+  code: 'daily_limit' | 'rate_limited';
+  retryAfter: number; // Seconds
+
+  constructor(message: string, code: 'daily_limit' | 'rate_limited', retryAfter: number) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// The server reached the model but never got a usable reply, even after asking it to repair one.
+// Unlike network errors, retrying or rephrasing usually helps.
+export class TutorConfusedError extends Error {
+  code: string; // reply_not_json | reply_invalid_schema | reply_repair_failed
+
+  constructor(code: string) {
+    super(`The tutor's reply could not be understood (${code})`);
+    this.name = 'TutorConfusedError';
+    this.code = code;
+  }
+}
+
+const toRateLimitError = async (response: Response) => {
+  let data: any = {};
+  try {
+    data = await response.json();
+  } catch (e) { }
+  const retryAfter = Number(response.headers.get('Retry-After')) || Number(data.retryAfter) || 60;
+  return new RateLimitError(data.error || 'Too many requests', data.code === 'daily_limit' ? 'daily_limit' : 'rate_limited', retryAfter);
+};
+
+export const fetchWithTimeout = async (url: string, options: RequestInit = {}) => {
   const envTimeout = import.meta.env?.VITE_API_TIMEOUT;
   const timeoutMs = parseInt(envTimeout || '25000', 10);
 
@@ -39,6 +94,7 @@ const fetchWithTimeout = async (url: string, options: RequestInit = {}) => {
       signal: controller.signal
     });
     clearTimeout(id);
+    if (response.status === 429) throw await toRateLimitError(response);
     return response;
   } catch (error: any) {
     clearTimeout(id);
@@ -49,32 +105,96 @@ const fetchWithTimeout = async (url: string, options: RequestInit = {}) => {
   }
 };
 
+export const readErrorMessage = async (response: Response) => {
+  let errorMessage = response.statusText;
+  try {
+    const errorData = await response.json();
+    if (errorData.error) errorMessage = errorData.error;
+  } catch (e) { }
+  return errorMessage;
+};
+
+export const getAuthHeaders = async (): Promise<Record<string, string>> => {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const token = sessionData?.session?.access_token;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+};
+
+// userAudioUrl: where the server stored this turn's recording (signed-in users only)
+type ChatResult = { correction: CorrectionData, response: TutorResponseData, transcript?: string | null, userAudioUrl?: string | null };
+
+// Reads `event:`/`data:` frames from an SSE response body until the `final` event.
+const readChatStream = async (
+  response: Response,
+  onDelta: (partialTargetText: string) => void
+): Promise<ChatResult> => {
+  if (!response.body) throw new Error("Streaming not supported by this browser");
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let event = 'message';
+      let data = '';
+      for (const line of frame.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      if (!data) continue;
+
+      const payload = JSON.parse(data);
+      if (event === 'delta') {
+        onDelta(payload.targetText);
+      } else if (event === 'final') {
+        reader.cancel().catch(() => { });
+        return payload;
+      } else if (event === 'error') {
+        throw new Error(`Backend Error: ${payload.error}`);
+      }
+    }
+  }
+
+  throw new Error("Backend Error: Stream ended before the tutor finished");
+};
+
+/**
+ * Sends a turn to the tutor. When `onDelta` is given the reply is streamed over SSE
+ * and `onDelta` receives the growing targetText; mock mode always answers in one piece.
+ */
 export const chatWithGemini = async (
   message: string,
   language: SupportedLanguage,
-  scenario?: Scenarios,
+  scenario?: string, // ScenarioDefinition id
   audioBase64?: string,
   audioMimeType?: string,
   history?: any[],
-  userId?: string
-): Promise<{ correction: CorrectionData, response: TutorResponseData }> => {
-
-  const config = LANGUAGE_CONFIGS[language];
-  currentVoiceName = config.voiceName;
+  userId?: string,
+  level?: CefrLevel,
+  onDelta?: (partialTargetText: string) => void,
+  helperLanguages?: string[]
+): Promise<ChatResult> => {
 
   if (import.meta.env?.VITE_USE_MOCK === 'true') {
     console.warn("⚠️ USING MOCK DATA (No API Call) ⚠️");
     return getMockChatResponse(message);
   }
 
-  const { data: sessionData } = await supabase.auth.getSession();
-  const token = sessionData?.session?.access_token;
-  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-  if (token) headers['Authorization'] = `Bearer ${token}`;
-
-  const response = await fetchWithTimeout(getApiUrl('/api/chat'), {
+  const response = await fetchWithTimeout(getApiUrl(onDelta ? '/api/chat/stream' : '/api/chat'), {
     method: 'POST',
-    headers,
+    headers: await getAuthHeaders(),
     body: JSON.stringify({
       message,
       audioData: audioBase64,
@@ -83,25 +203,23 @@ export const chatWithGemini = async (
       language,
       scenario,
       history,
-      userId
+      userId,
+      level,
+      helperLanguages
     })
   });
 
   if (!response.ok) {
-    let errorMessage = response.statusText;
-    try {
-      const errorData = await response.json();
-      if (errorData.error) {
-        errorMessage = errorData.error;
-      }
-    } catch (e) { }
-    throw new Error(`Backend Error: ${errorMessage}`);
+    throw new Error(`Backend Error: ${await readErrorMessage(response)}`);
   }
 
-  const data = await response.json();
+  const data = onDelta ? await readChatStream(response, onDelta) : await response.json();
+  if (data.degraded) throw new TutorConfusedError(data.errorCode || 'reply_invalid_schema');
   return {
     correction: data.correction,
-    response: data.response
+    response: normalizeTutorResponse(data.response),
+    transcript: data.transcript,
+    userAudioUrl: data.userAudioUrl
   };
 };
 
@@ -115,11 +233,16 @@ export const generateSpeech = async (text: string): Promise<AudioResponse> => {
     return getMockAudioResponse();
   }
 
+  const requestedFormat = 'pcm';
+  const cacheKey = await createAudioCacheKey(text, currentVoiceName, requestedFormat);
+  const cached = await getCachedAudio(cacheKey);
+  if (cached) return cached;
+
   try {
     const response = await fetchWithTimeout(getApiUrl('/api/tts'), {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ text, voiceName: currentVoiceName })
+      headers: await getAuthHeaders(),
+      body: JSON.stringify({ text, voiceName: currentVoiceName, format: requestedFormat })
     });
 
     if (!response.ok) {
@@ -141,24 +264,21 @@ export const generateSpeech = async (text: string): Promise<AudioResponse> => {
     for (let i = 0; i < len; i++) {
       bytes[i] = binaryString.charCodeAt(i);
     }
-    return { data: bytes, format };
+    const audio: AudioResponse = { data: bytes, format };
+    setCachedAudio(cacheKey, audio).catch(e => console.warn("Audio cache write failed:", e));
+    return audio;
   } catch (error) {
     console.error("TTS Error:", error);
     throw error;
   }
 };
 
-export const fetchHistory = async (userId: string, language: string, scenario: string) => {
-  const { data: sessionData } = await supabase.auth.getSession();
-  const token = sessionData?.session?.access_token;
-
-  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-  if (token) headers['Authorization'] = `Bearer ${token}`;
-
+// One session's history when `sessionId` is given, otherwise every session of the scenario
+export const fetchHistory = async (userId: string, language: string, scenario: string, sessionId?: string) => {
   const response = await fetchWithTimeout(getApiUrl('/api/history'), {
     method: 'POST',
-    headers,
-    body: JSON.stringify({ userId, language, scenario })
+    headers: await getAuthHeaders(),
+    body: JSON.stringify({ userId, language, scenario, sessionId })
   });
 
   if (!response.ok) {
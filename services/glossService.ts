@@ -0,0 +1,70 @@
+import { Gloss, LanguageConfig, SupportedLanguage } from "../types";
+import { fetchWithTimeout, getApiUrl, getAuthHeaders, readErrorMessage } from "./geminiService";
+import { simulateNetworkDelay } from "./mockData";
+
+// Tapping the same word twice shouldn't cost a second request; the server caches across sessions.
+const glossCache = new Map<string, Gloss>();
+
+export const fetchGloss = async (
+  word: string,
+  sentence: string,
+  language: SupportedLanguage,
+  helperLanguages: string[]
+): Promise<Gloss> => {
+  const cacheKey = JSON.stringify([language, word, sentence, helperLanguages[0]]);
+  const cached = glossCache.get(cacheKey);
+  if (cached) return cached;
+
+  if (import.meta.env?.VITE_USE_MOCK === 'true') {
+    await simulateNetworkDelay(300);
+    return { word, lemma: word.toLowerCase(), partOfSpeech: 'noun', definition: `Mock definition of "${word}"`, grammar: null, reading: null };
+  }
+
+  const response = await fetchWithTimeout(getApiUrl('/api/gloss'), {
+    method: 'POST',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify({ word, sentence, language, helperLanguages })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to look up word: ${await readErrorMessage(response)}`);
+  }
+
+  const { gloss } = await response.json();
+  glossCache.set(cacheKey, gloss);
+  return gloss;
+};
+
+export interface WordSegment {
+  text: string;
+  isWord: boolean; // Tappable; false for spaces and punctuation
+}
+
+const CJK_CHARACTER = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+const WORD = /[\p{L}\p{M}\p{N}]/u;
+
+export const isWordLike = (text: string) => WORD.test(text);
+
+// Any language: CJK one character at a time, other scripts at spaces and punctuation.
+export const splitWords = (text: string): WordSegment[] => {
+  const pattern = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|[\p{L}\p{M}\p{N}'’-]+|[^\p{L}\p{M}\p{N}]+/gu;
+  return (text.match(pattern) || []).map(segment => ({
+    text: segment,
+    isWord: CJK_CHARACTER.test(segment) || isWordLike(segment),
+  }));
+};
+
+/**
+ * Splits targetText into tappable words. Chinese and Japanese have no spaces, so
+ * this relies on the browser's dictionary-based word segmenter for the language.
+ */
+export const segmentWords = (text: string, language: Pick<LanguageConfig, 'speechCode'>): WordSegment[] => {
+  const Segmenter = (Intl as any).Segmenter;
+  if (!Segmenter) return splitWords(text);
+
+  const segmenter = new Segmenter(language.speechCode, { granularity: 'word' });
+  return Array.from(segmenter.segment(text), (segment: any) => ({
+    text: segment.segment as string,
+    isWord: Boolean(segment.isWordLike),
+  }));
+};
@@ -0,0 +1,75 @@
+import { TutorResponseData } from "../types";
+import { normalizeReadingTokens } from "./readingAids";
+
+// Mirrors server/helperLanguages.js: the languages translations and explanations are written in.
+
+export interface HelperLanguage {
+  code: string;
+  name: string;
+  rtl?: boolean;
+}
+
+export const HELPER_LANGUAGES: HelperLanguage[] = [
+  { code: 'en', name: 'English' },
+  { code: 'zh', name: 'Chinese' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'it', name: 'Italian' },
+  { code: 'ru', name: 'Russian' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'ar', name: 'Arabic', rtl: true },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'tr', name: 'Turkish' },
+  { code: 'vi', name: 'Vietnamese' },
+];
+
+export const DEFAULT_HELPER_LANGUAGES = ['en', 'zh'];
+export const MAX_HELPER_LANGUAGES = 3;
+
+export const findHelperLanguage = (code: string) => HELPER_LANGUAGES.find(language => language.code === code);
+
+// A device preference, like the visitor's levels
+const HELPER_LANGUAGES_KEY = 'polyglot-pal-helper-languages';
+
+export const loadHelperLanguages = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(HELPER_LANGUAGES_KEY) || '[]');
+    const valid = Array.isArray(stored) ? stored.filter(code => findHelperLanguage(code)) : [];
+    return valid.length > 0 ? valid.slice(0, MAX_HELPER_LANGUAGES) : DEFAULT_HELPER_LANGUAGES;
+  } catch (e) {
+    return DEFAULT_HELPER_LANGUAGES;
+  }
+};
+
+export const saveHelperLanguages = (codes: string[]) => {
+  localStorage.setItem(HELPER_LANGUAGES_KEY, JSON.stringify(codes));
+};
+
+/**
+ * Accepts both reply shapes. History saved before helper languages existed
+ * stores { targetText, english, chinese }.
+ */
+export const normalizeTutorResponse = (response: any): TutorResponseData => {
+  const translations: Record<string, string> = {};
+  if (response?.translations && typeof response.translations === 'object') {
+    for (const [code, text] of Object.entries(response.translations)) {
+      if (typeof text === 'string' && text.trim()) translations[code] = text;
+    }
+  }
+  if (typeof response?.english === 'string' && response.english && !translations.en) translations.en = response.english;
+  if (typeof response?.chinese === 'string' && response.chinese && !translations.zh) translations.zh = response.chinese;
+
+  const targetText = typeof response?.targetText === 'string' ? response.targetText : '';
+  const reading = normalizeReadingTokens(response?.reading);
+  return reading ? { targetText, translations, reading } : { targetText, translations };
+};
+
+// First translation in the learner's helper order; used for flashcard backs.
+export const primaryTranslation = (response: TutorResponseData | undefined, helpers: string[] = DEFAULT_HELPER_LANGUAGES) => {
+  if (!response) return null;
+  const code = helpers.find(helper => response.translations[helper]) || Object.keys(response.translations)[0];
+  return code ? response.translations[code] : null;
+};
@@ -0,0 +1,19 @@
+import { LanguageConfig, SupportedLanguage } from "../types";
+import { fetchWithTimeout, getApiUrl, readErrorMessage } from "./geminiService";
+import { MOCK_LANGUAGES } from "./mockData";
+
+// The registry lives on the server (server/languages.js); keyed by language id, in display order.
+export const fetchLanguages = async (): Promise<Record<SupportedLanguage, LanguageConfig>> => {
+  if (import.meta.env?.VITE_USE_MOCK === 'true') {
+    return MOCK_LANGUAGES;
+  }
+
+  const response = await fetchWithTimeout(getApiUrl('/api/languages'));
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch languages: ${await readErrorMessage(response)}`);
+  }
+
+  const data = await response.json();
+  return Object.fromEntries((data.languages || []).map((language: LanguageConfig) => [language.id, language]));
+};
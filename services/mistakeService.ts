@@ -0,0 +1,38 @@
+import { MistakeEntry, MistakeGroup, SupportedLanguage } from "../types";
+import { fetchWithTimeout, getApiUrl, getAuthHeaders, readErrorMessage } from "./geminiService";
+
+export const MISTAKE_CATEGORY_LABELS: Record<MistakeEntry['category'], string> = {
+  gender_agreement: 'Gender agreement',
+  verb_tense: 'Verb tense',
+  conjugation: 'Conjugation',
+  word_order: 'Word order',
+  particle: 'Particles',
+  preposition: 'Prepositions',
+  article: 'Articles',
+  vocabulary: 'Word choice',
+  spelling: 'Spelling',
+  pronunciation: 'Pronunciation',
+  other: 'Other',
+};
+
+export const fetchMistakes = async (
+  userId: string,
+  language?: SupportedLanguage
+): Promise<{ mistakes: MistakeEntry[], groups: MistakeGroup[] }> => {
+  const params = new URLSearchParams({ userId });
+  if (language) params.set('language', language);
+
+  const response = await fetchWithTimeout(getApiUrl(`/api/mistakes?${params}`), {
+    headers: await getAuthHeaders()
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch mistakes: ${await readErrorMessage(response)}`);
+  }
+
+  const data = await response.json();
+  return {
+    mistakes: data.mistakes || [],
+    groups: data.groups || []
+  };
+};
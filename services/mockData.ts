@@ -1,4 +1,4 @@
-import { CorrectionData, TutorResponseData, AudioResponse } from "../types";
+import { CorrectionData, TutorResponseData, AudioResponse, ScenarioDefinition, LanguageConfig } from "../types";
 
 // --- MOCK SCENARIO 1: Normal Response (Happy Path) ---
 export const MOCK_NORMAL_RESPONSE: { correction: CorrectionData, response: TutorResponseData } = {
@@ -9,8 +9,10 @@ export const MOCK_NORMAL_RESPONSE: { correction: CorrectionData, response: Tutor
   },
   response: {
     targetText: "C'est fantastique ! Je t'entends très bien. Tu as une bonne prononciation.",
-    english: "That's fantastic! I can hear you very well. You have good pronunciation.",
-    chinese: "太棒了！我听得很清楚。你的发音很好。"
+    translations: {
+      en: "That's fantastic! I can hear you very well. You have good pronunciation.",
+      zh: "太棒了！我听得很清楚。你的发音很好。"
+    }
   }
 };
 
@@ -19,15 +21,31 @@ export const MOCK_CORRECTION_RESPONSE: { correction: CorrectionData, response: T
   correction: {
     hasMistake: true,
     correctedText: "Je veux aller au supermarché.",
-    explanation: "In French, 'supermarché' is masculine, so we use 'au' (à + le) instead of 'à la'."
+    explanation: "In French, 'supermarché' is masculine, so we use 'au' (à + le) instead of 'à la'.",
+    category: 'gender_agreement'
   },
   response: {
     targetText: "Ah, je comprends. Tu veux faire des courses ? Allons-y ensemble.",
-    english: "Ah, I understand. You want to go shopping? Let's go together.",
-    chinese: "啊，我明白了。你想去购物吗？我们一起去吧。"
+    translations: {
+      en: "Ah, I understand. You want to go shopping? Let's go together.",
+      zh: "啊，我明白了。你想去购物吗？我们一起去吧。"
+    }
   }
 };
 
+// --- MOCK LANGUAGES (served by /api/languages in real mode) ---
+export const MOCK_LANGUAGES: Record<string, LanguageConfig> = {
+  French: { id: 'French', name: 'French', flag: '🇫🇷', tutorName: 'Pierre', voiceName: 'Puck', speechCode: 'fr-FR', greeting: 'Bonjour! Ça va?', script: 'latin', promptRules: [] },
+};
+
+// --- MOCK SCENARIOS (served by /api/scenarios in real mode) ---
+export const MOCK_SCENARIOS: ScenarioDefinition[] = [
+  { id: 'Introduction & Basics', title: 'Basics', description: 'Start from scratch', setting: '', tutorRole: '', goals: [], targetVocabulary: [], level: 'A1', icon: 'sparkles', isPublic: true, builtIn: true },
+  { id: 'Ordering at a Café', title: 'At a Café', description: 'Order food & drinks', setting: '', tutorRole: '', goals: [], targetVocabulary: [], level: 'A2', icon: 'coffee', isPublic: true, builtIn: true },
+  { id: 'Asking for Directions', title: 'Travel', description: 'Ask for directions', setting: '', tutorRole: '', goals: [], targetVocabulary: [], level: 'A2', icon: 'plane', isPublic: true, builtIn: true },
+  { id: 'Discussing Hobbies', title: 'Hobbies', description: 'Discussing Hobbies', setting: '', tutorRole: '', goals: [], targetVocabulary: [], level: 'B1', icon: 'book', isPublic: true, builtIn: true },
+];
+
 // --- Helper to simulate network delay ---
 export const simulateNetworkDelay = (ms: number = 1000) => new Promise(resolve => setTimeout(resolve, ms));
 
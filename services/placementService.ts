@@ -0,0 +1,31 @@
+import { PlacementStep, SupportedLanguage } from "../types";
+import { fetchWithTimeout, getApiUrl, getAuthHeaders, readErrorMessage } from "./geminiService";
+
+export interface PlacementAnswer {
+  answer?: string;
+  audioData?: string;
+  audioMimeType?: string;
+}
+
+// Starts a placement test and returns its first item.
+export const startPlacement = (language: SupportedLanguage) => postPlacement({ language });
+
+/**
+ * Answers the current item of an open test. The server keeps the items and
+ * scores, so only the answer travels; the step carries the next item or the result.
+ */
+export const answerPlacement = (testId: string, answer: PlacementAnswer) => postPlacement({ testId, ...answer });
+
+const postPlacement = async (body: Record<string, unknown>): Promise<PlacementStep> => {
+  const response = await fetchWithTimeout(getApiUrl('/api/placement'), {
+    method: 'POST',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Placement test failed: ${await readErrorMessage(response)}`);
+  }
+
+  return response.json();
+};
@@ -0,0 +1,85 @@
+import { CefrLevel, LearnerFact, SupportedLanguage } from "../types";
+import { fetchWithTimeout, getApiUrl, getAuthHeaders, readErrorMessage } from "./geminiService";
+
+export type LanguageLevels = Partial<Record<SupportedLanguage, CefrLevel>>;
+
+export const CEFR_LEVELS: { level: CefrLevel; label: string }[] = [
+  { level: 'A1', label: 'Beginner' },
+  { level: 'A2', label: 'Elementary' },
+  { level: 'B1', label: 'Intermediate' },
+  { level: 'B2', label: 'Upper Intermediate' },
+  { level: 'C1', label: 'Advanced' },
+  { level: 'C2', label: 'Proficient' },
+];
+
+// Visitors keep their levels in the browser; signed-in users on the server.
+const LOCAL_LEVELS_KEY = 'polyglot-pal-levels';
+
+const readLocalLevels = (): LanguageLevels => {
+  try {
+    return JSON.parse(localStorage.getItem(LOCAL_LEVELS_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+export const fetchLevels = async (userId?: string): Promise<LanguageLevels> => {
+  if (!userId || import.meta.env?.VITE_USE_MOCK === 'true') {
+    return readLocalLevels();
+  }
+
+  const params = new URLSearchParams({ userId });
+  const response = await fetchWithTimeout(getApiUrl(`/api/profile/levels?${params}`), {
+    headers: await getAuthHeaders()
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch levels: ${await readErrorMessage(response)}`);
+  }
+
+  const data = await response.json();
+  return data.levels || {};
+};
+
+export const saveLevel = async (userId: string | undefined, language: SupportedLanguage, level: CefrLevel) => {
+  if (!userId || import.meta.env?.VITE_USE_MOCK === 'true') {
+    localStorage.setItem(LOCAL_LEVELS_KEY, JSON.stringify({ ...readLocalLevels(), [language]: level }));
+    return;
+  }
+
+  const response = await fetchWithTimeout(getApiUrl('/api/profile/levels'), {
+    method: 'PUT',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify({ userId, language, level })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to save level: ${await readErrorMessage(response)}`);
+  }
+};
+
+export const fetchLearnerFacts = async (userId: string): Promise<LearnerFact[]> => {
+  const params = new URLSearchParams({ userId });
+  const response = await fetchWithTimeout(getApiUrl(`/api/profile/facts?${params}`), {
+    headers: await getAuthHeaders()
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch profile: ${await readErrorMessage(response)}`);
+  }
+
+  const data = await response.json();
+  return data.facts || [];
+};
+
+export const deleteLearnerFact = async (userId: string, id: string) => {
+  const params = new URLSearchParams({ userId });
+  const response = await fetchWithTimeout(getApiUrl(`/api/profile/facts/${encodeURIComponent(id)}?${params}`), {
+    method: 'DELETE',
+    headers: await getAuthHeaders()
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to delete fact: ${await readErrorMessage(response)}`);
+  }
+};
@@ -0,0 +1,41 @@
+import { DailyGoal, GoalType, LearnerProgress } from "../types";
+import { fetchWithTimeout, getApiUrl, getAuthHeaders, readErrorMessage } from "./geminiService";
+
+// Mirrors GOAL_TYPES in server/progress.js
+export const GOAL_OPTIONS: Record<GoalType, { label: string; unit: string; min: number; max: number; presets: number[] }> = {
+  turns: { label: 'Turns', unit: 'turns', min: 1, max: 200, presets: [5, 10, 20, 40] },
+  minutes: { label: 'Minutes spoken', unit: 'min spoken', min: 1, max: 120, presets: [2, 5, 10, 20] },
+};
+
+// Sending the browser's time zone keeps "today" and streaks on the learner's calendar
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || undefined;
+
+export const fetchProgress = async (userId: string): Promise<LearnerProgress> => {
+  const params = new URLSearchParams({ userId });
+  const timeZone = browserTimeZone();
+  if (timeZone) params.set('timeZone', timeZone);
+
+  const response = await fetchWithTimeout(getApiUrl(`/api/progress?${params}`), {
+    headers: await getAuthHeaders()
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch progress: ${await readErrorMessage(response)}`);
+  }
+
+  return response.json();
+};
+
+export const saveGoal = async (userId: string, goal: DailyGoal): Promise<LearnerProgress> => {
+  const response = await fetchWithTimeout(getApiUrl('/api/progress/goal'), {
+    method: 'PUT',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify({ userId, ...goal, timeZone: browserTimeZone() })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to save goal: ${await readErrorMessage(response)}`);
+  }
+
+  return response.json();
+};
@@ -0,0 +1,55 @@
+import { ReadingToken, SupportedLanguage } from "../types";
+
+// Mirrors server/readingAids.js: furigana, pinyin, Jyutping or transliteration over targetText.
+
+// A device preference per language; aids start switched on.
+const READING_AIDS_KEY = 'polyglot-pal-reading-aids';
+
+export const loadReadingAidSettings = (): Record<SupportedLanguage, boolean> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(READING_AIDS_KEY) || '{}');
+    return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+export const saveReadingAidSettings = (settings: Record<SupportedLanguage, boolean>) => {
+  localStorage.setItem(READING_AIDS_KEY, JSON.stringify(settings));
+};
+
+export const isReadingAidOn = (settings: Record<SupportedLanguage, boolean>, language: SupportedLanguage) =>
+  settings[language] !== false;
+
+export const normalizeReadingTokens = (tokens: any): ReadingToken[] | undefined => {
+  if (!Array.isArray(tokens)) return undefined;
+  const valid = tokens
+    .filter(token => typeof token?.text === 'string' && token.text)
+    .map(token => ({ text: token.text, reading: typeof token.reading === 'string' ? token.reading : '' }));
+  return valid.length > 0 ? valid : undefined;
+};
+
+export interface ReadingSegment {
+  text: string;
+  reading?: string;
+}
+
+/**
+ * Lays the tokens over targetText. Text between tokens (spaces, punctuation the model
+ * skipped) stays plain, and once a token can't be found the rest of the sentence does too.
+ */
+export const alignReading = (targetText: string, tokens: ReadingToken[]): ReadingSegment[] => {
+  const segments: ReadingSegment[] = [];
+  let cursor = 0;
+
+  for (const token of tokens) {
+    const index = targetText.indexOf(token.text, cursor);
+    if (index === -1) break;
+    if (index > cursor) segments.push({ text: targetText.slice(cursor, index) });
+    segments.push(token.reading ? { text: token.text, reading: token.reading } : { text: token.text });
+    cursor = index + token.text.length;
+  }
+
+  if (cursor < targetText.length) segments.push({ text: targetText.slice(cursor) });
+  return segments;
+};
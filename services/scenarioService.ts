@@ -0,0 +1,65 @@
+import { ScenarioDefinition, ScenarioDraft } from "../types";
+import { fetchWithTimeout, getApiUrl, getAuthHeaders, readErrorMessage } from "./geminiService";
+import { MOCK_SCENARIOS } from "./mockData";
+
+export const fetchScenarios = async (userId?: string): Promise<ScenarioDefinition[]> => {
+  if (import.meta.env?.VITE_USE_MOCK === 'true') {
+    return MOCK_SCENARIOS;
+  }
+
+  const params = new URLSearchParams();
+  if (userId) params.set('userId', userId);
+
+  const response = await fetchWithTimeout(getApiUrl(`/api/scenarios?${params}`), {
+    headers: await getAuthHeaders()
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch scenarios: ${await readErrorMessage(response)}`);
+  }
+
+  const data = await response.json();
+  return data.scenarios || [];
+};
+
+export const createScenario = async (userId: string, scenario: ScenarioDraft): Promise<ScenarioDefinition> => {
+  const response = await fetchWithTimeout(getApiUrl('/api/scenarios'), {
+    method: 'POST',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify({ userId, scenario })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to create scenario: ${await readErrorMessage(response)}`);
+  }
+
+  const data = await response.json();
+  return data.scenario;
+};
+
+export const updateScenario = async (userId: string, id: string, scenario: ScenarioDraft): Promise<ScenarioDefinition> => {
+  const response = await fetchWithTimeout(getApiUrl(`/api/scenarios/${encodeURIComponent(id)}`), {
+    method: 'PUT',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify({ userId, scenario })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to update scenario: ${await readErrorMessage(response)}`);
+  }
+
+  const data = await response.json();
+  return data.scenario;
+};
+
+export const deleteScenario = async (userId: string, id: string) => {
+  const params = new URLSearchParams({ userId });
+  const response = await fetchWithTimeout(getApiUrl(`/api/scenarios/${encodeURIComponent(id)}?${params}`), {
+    method: 'DELETE',
+    headers: await getAuthHeaders()
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to delete scenario: ${await readErrorMessage(response)}`);
+  }
+};
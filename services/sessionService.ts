@@ -0,0 +1,51 @@
+import { ChatSession, SupportedLanguage } from "../types";
+import { fetchWithTimeout, getApiUrl, getAuthHeaders, readErrorMessage } from "./geminiService";
+
+// Mirrors server/sessions.js
+export const MAX_SESSION_TITLE_LENGTH = 80;
+
+export const fetchSessions = async (userId: string, language: SupportedLanguage, scenario: string): Promise<ChatSession[]> => {
+  const params = new URLSearchParams({ userId, language, scenario });
+  const response = await fetchWithTimeout(getApiUrl(`/api/sessions?${params}`), {
+    headers: await getAuthHeaders()
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch sessions: ${await readErrorMessage(response)}`);
+  }
+
+  const data = await response.json();
+  return data.sessions || [];
+};
+
+// Renames (an empty title clears it) and/or archives a session
+export const updateSession = async (
+  userId: string,
+  id: string,
+  update: { title?: string | null; archived?: boolean }
+): Promise<Pick<ChatSession, 'id' | 'title' | 'archived'>> => {
+  const response = await fetchWithTimeout(getApiUrl(`/api/sessions/${encodeURIComponent(id)}`), {
+    method: 'PUT',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify({ userId, ...update })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to update session: ${await readErrorMessage(response)}`);
+  }
+
+  const data = await response.json();
+  return data.session;
+};
+
+export const deleteSession = async (userId: string, id: string) => {
+  const params = new URLSearchParams({ userId });
+  const response = await fetchWithTimeout(getApiUrl(`/api/sessions/${encodeURIComponent(id)}?${params}`), {
+    method: 'DELETE',
+    headers: await getAuthHeaders()
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to delete session: ${await readErrorMessage(response)}`);
+  }
+};
@@ -0,0 +1,19 @@
+import { ProgressStats } from "../types";
+import { fetchWithTimeout, getApiUrl, getAuthHeaders, readErrorMessage } from "./geminiService";
+
+export const STATS_RANGES = [7, 30, 90];
+
+// Days are bucketed in the browser's time zone
+export const fetchStats = async (userId: string, days: number): Promise<ProgressStats> => {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  const params = new URLSearchParams({ userId, days: String(days), timeZone });
+  const response = await fetchWithTimeout(getApiUrl(`/api/stats?${params}`), {
+    headers: await getAuthHeaders()
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch progress: ${await readErrorMessage(response)}`);
+  }
+
+  return response.json();
+};
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+vi.mock('../supabaseClient', () => ({
+  supabase: { auth: { getSession: async () => ({ data: { session: { access_token: 'token-1' } } }) } }
+}));
+
+import { chatWithGemini, generateSpeech, resolveMediaUrl } from '../geminiService';
+import { fetchGloss } from '../glossService';
+
+const reply = {
+  correction: { hasMistake: false, correctedText: 'Bonjour', explanation: '', category: null, pronunciation: null },
+  response: { targetText: 'Salut !', translations: { en: 'Hi!' } },
+  transcript: 'Bonjour',
+  // What the server returns for a recording kept by the fs audio store
+  userAudioUrl: '/api/audio/0f8fad5b-d9cb-469f-a165-70867728950e.webm'
+};
+
+const sseResponse = (payload: unknown) => {
+  const body = new TextEncoder().encode(
+    `event: delta\ndata: ${JSON.stringify({ targetText: 'Sal' })}\n\n` +
+    `event: final\ndata: ${JSON.stringify(payload)}\n\n`
+  );
+  return new Response(new ReadableStream({
+    start(controller) {
+      controller.enqueue(body);
+      controller.close();
+    }
+  }), { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+};
+
+describe('chatWithGemini', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps the transcript and stored recording from a JSON reply', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(reply), { status: 200 })));
+
+    const result = await chatWithGemini('', 'French', 'Basics', 'AAAA', 'audio/webm');
+
+    expect(result.transcript).toBe('Bonjour');
+    expect(result.userAudioUrl).toBe(reply.userAudioUrl);
+  });
+
+  it('keeps the transcript and stored recording from a streamed reply', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => sseResponse(reply)));
+    const onDelta = vi.fn();
+
+    const result = await chatWithGemini('', 'French', 'Basics', 'AAAA', 'audio/webm', [], undefined, undefined, onDelta);
+
+    expect(onDelta).toHaveBeenCalledWith('Sal');
+    expect(result.transcript).toBe('Bonjour');
+    expect(result.userAudioUrl).toBe(reply.userAudioUrl);
+  });
+});
+
+describe('resolveMediaUrl', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('points server recording paths at the API and leaves signed URLs alone', () => {
+    vi.stubEnv('VITE_API_URL', 'https://api.example.com/');
+
+    expect(resolveMediaUrl(reply.userAudioUrl)).toBe(`https://api.example.com${reply.userAudioUrl}`);
+    const signed = 'https://project.supabase.co/storage/v1/object/sign/chat-audio/u1/a.webm?token=t';
+    expect(resolveMediaUrl(signed)).toBe(signed);
+    expect(resolveMediaUrl(null)).toBeUndefined();
+  });
+});
+
+describe('signed-in requests', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('send the access token for speech and glosses', async () => {
+    const fetchMock = vi.fn(async (url: string) => new Response(JSON.stringify(url.endsWith('/api/tts')
+      ? { audioData: 'AAAA', format: 'pcm' }
+      : { gloss: { word: 'Maison' } }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await generateSpeech('Bonjour');
+    await fetchGloss('Maison', 'La Maison', 'French', ['en']);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    for (const [, options] of fetchMock.mock.calls as unknown as [string, RequestInit][]) {
+      expect((options.headers as Record<string, string>).Authorization).toBe('Bearer token-1');
+    }
+  });
+});
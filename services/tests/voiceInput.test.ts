@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createVoiceActivityDetector, handsFreeAction, rmsLevel } from '../voiceInput';
+
+// A microphone whose loudness the test sets; every analyser frame reads that level
+let micLevel = 0;
+
+class FakeAudioContext {
+  createMediaStreamSource() {
+    return { connect: () => { }, disconnect: () => { } };
+  }
+  createAnalyser() {
+    return { fftSize: 0, getFloatTimeDomainData: (samples: Float32Array) => samples.fill(micLevel) };
+  }
+  close() {
+    return Promise.resolve();
+  }
+}
+
+const listen = () => {
+  const onSpeechStart = vi.fn();
+  const onSpeechEnd = vi.fn();
+  const detector = createVoiceActivityDetector({} as MediaStream, { onSpeechStart, onSpeechEnd });
+  return { detector, onSpeechStart, onSpeechEnd };
+};
+
+describe('createVoiceActivityDetector', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', { AudioContext: FakeAudioContext });
+    micLevel = 0;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('ends the utterance once the learner has been quiet long enough', () => {
+    const { detector, onSpeechStart, onSpeechEnd } = listen();
+
+    micLevel = 0.2;
+    vi.advanceTimersByTime(300);
+    expect(onSpeechStart).toHaveBeenCalledTimes(1);
+
+    // A short pause between words doesn't end the turn
+    micLevel = 0;
+    vi.advanceTimersByTime(600);
+    micLevel = 0.2;
+    vi.advanceTimersByTime(100);
+    micLevel = 0;
+    vi.advanceTimersByTime(1000);
+    expect(onSpeechEnd).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(300);
+    expect(onSpeechEnd).toHaveBeenCalledTimes(1);
+    detector.stop();
+  });
+
+  it('ignores clicks shorter than the minimum speech length', () => {
+    const { detector, onSpeechStart } = listen();
+
+    micLevel = 0.2;
+    vi.advanceTimersByTime(100);
+    micLevel = 0;
+    vi.advanceTimersByTime(500);
+
+    expect(onSpeechStart).not.toHaveBeenCalled();
+    detector.stop();
+  });
+
+  it('needs a louder voice to barge in while the tutor is speaking', () => {
+    const { detector, onSpeechStart } = listen();
+    detector.setSensitivity(2);
+
+    micLevel = 0.02; // Enough to start a turn normally
+    vi.advanceTimersByTime(500);
+    expect(onSpeechStart).not.toHaveBeenCalled();
+
+    micLevel = 0.2;
+    vi.advanceTimersByTime(300);
+    expect(onSpeechStart).toHaveBeenCalledTimes(1);
+    detector.stop();
+  });
+});
+
+describe('handsFreeAction', () => {
+  it('opens a turn on speech and ends it on silence', () => {
+    expect(handsFreeAction('listening', 'speechStart')).toBe('startTurn');
+    expect(handsFreeAction('recording', 'speechEnd')).toBe('endTurn');
+    expect(handsFreeAction('waiting', 'speechStart')).toBeNull();
+    expect(handsFreeAction('listening', 'speechEnd')).toBeNull();
+  });
+
+  it('cuts the tutor off when the learner talks over the reply', () => {
+    expect(handsFreeAction('speaking', 'speechStart')).toBe('bargeIn');
+  });
+
+  it('reopens the mic when the reply finishes playing', () => {
+    expect(handsFreeAction('speaking', 'playbackEnded')).toBe('listen');
+    // Already interrupted or skipped
+    expect(handsFreeAction('recording', 'playbackEnded')).toBeNull();
+  });
+});
+
+describe('rmsLevel', () => {
+  it('measures the loudness of a frame', () => {
+    expect(rmsLevel(new Float32Array([0.5, -0.5, 0.5, -0.5]))).toBeCloseTo(0.5);
+    expect(rmsLevel(new Float32Array(4))).toBe(0);
+  });
+});
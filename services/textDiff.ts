@@ -0,0 +1,48 @@
+import { splitWords } from "./glossService";
+
+export interface DiffPart {
+  text: string;
+  type: 'same' | 'removed' | 'added';
+}
+
+/**
+ * Word-level diff (longest common subsequence) of what the learner said against the
+ * correction. Chinese and Japanese compare character by character.
+ */
+export const diffWords = (original: string, corrected: string): DiffPart[] => {
+  const a = splitWords(original).map(segment => segment.text);
+  const b = splitWords(corrected).map(segment => segment.text);
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (text: string, type: DiffPart['type']) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ text, type });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], 'same');
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push(a[i++], 'removed');
+    } else {
+      push(b[j++], 'added');
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+
+  return parts;
+};
@@ -0,0 +1,82 @@
+import { SupportedLanguage, VocabItem, VocabSource, ReviewQuality } from "../types";
+import { fetchWithTimeout, getApiUrl, getAuthHeaders, readErrorMessage } from "./geminiService";
+
+export const saveVocabItem = async (
+  userId: string,
+  language: SupportedLanguage,
+  text: string,
+  translation?: string | null,
+  source: VocabSource = 'tutor'
+): Promise<VocabItem | null> => {
+  const response = await fetchWithTimeout(getApiUrl('/api/vocab'), {
+    method: 'POST',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify({ userId, language, text, translation, source })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to save vocabulary: ${await readErrorMessage(response)}`);
+  }
+
+  const data = await response.json();
+  return data.item;
+};
+
+export const fetchVocab = async (userId: string, language?: SupportedLanguage): Promise<VocabItem[]> => {
+  const params = new URLSearchParams({ userId });
+  if (language) params.set('language', language);
+
+  const response = await fetchWithTimeout(getApiUrl(`/api/vocab?${params}`), {
+    headers: await getAuthHeaders()
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch vocabulary: ${await readErrorMessage(response)}`);
+  }
+
+  const data = await response.json();
+  return data.items || [];
+};
+
+export const deleteVocabItem = async (userId: string, itemId: string) => {
+  const params = new URLSearchParams({ userId });
+  const response = await fetchWithTimeout(getApiUrl(`/api/vocab/${itemId}?${params}`), {
+    method: 'DELETE',
+    headers: await getAuthHeaders()
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to delete vocabulary: ${await readErrorMessage(response)}`);
+  }
+};
+
+export const fetchDueReviews = async (userId: string, language?: SupportedLanguage): Promise<VocabItem[]> => {
+  const params = new URLSearchParams({ userId });
+  if (language) params.set('language', language);
+
+  const response = await fetchWithTimeout(getApiUrl(`/api/review?${params}`), {
+    headers: await getAuthHeaders()
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch reviews: ${await readErrorMessage(response)}`);
+  }
+
+  const data = await response.json();
+  return data.items || [];
+};
+
+export const submitReview = async (userId: string, itemId: string, quality: ReviewQuality): Promise<VocabItem | null> => {
+  const response = await fetchWithTimeout(getApiUrl('/api/review'), {
+    method: 'POST',
+    headers: await getAuthHeaders(),
+    body: JSON.stringify({ userId, itemId, quality })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to submit review: ${await readErrorMessage(response)}`);
+  }
+
+  const data = await response.json();
+  return data.item;
+};
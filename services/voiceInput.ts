@@ -0,0 +1,108 @@
+// Microphone helpers shared by hold-to-record and hands-free mode.
+
+// Safari records mp4/aac only
+export const getRecordingMimeType = () => {
+  if (typeof MediaRecorder === 'undefined' || MediaRecorder.isTypeSupported('audio/webm')) return 'audio/webm';
+  if (MediaRecorder.isTypeSupported('audio/mp4')) return 'audio/mp4';
+  if (MediaRecorder.isTypeSupported('audio/aac')) return 'audio/aac';
+  return 'audio/webm';
+};
+
+export const rmsLevel = (samples: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / samples.length);
+};
+
+export interface VoiceActivityOptions {
+  onSpeechStart: () => void;
+  onSpeechEnd: () => void;
+  silenceMs?: number; // Quiet this long ends the utterance
+  minSpeechMs?: number; // Loud this long starts one; filters out clicks and coughs
+  intervalMs?: number;
+}
+
+export interface VoiceActivityDetector {
+  // Multiplies the speech threshold; raise it while the tutor is talking so only a real barge-in counts
+  setSensitivity: (scale: number) => void;
+  stop: () => void;
+}
+
+const MIN_THRESHOLD = 0.015;
+const SPEECH_TO_NOISE_RATIO = 3;
+
+/**
+ * Energy-based voice activity detection on a live microphone stream. The noise
+ * floor adapts while nobody is speaking, so a noisy train needs a louder voice
+ * than a quiet room.
+ */
+export const createVoiceActivityDetector = (
+  stream: MediaStream,
+  { onSpeechStart, onSpeechEnd, silenceMs = 1200, minSpeechMs = 200, intervalMs = 50 }: VoiceActivityOptions
+): VoiceActivityDetector => {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const ctx: AudioContext = new AudioContextClass();
+  const source = ctx.createMediaStreamSource(stream);
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 1024;
+  source.connect(analyser);
+
+  const samples = new Float32Array(analyser.fftSize);
+  let noiseFloor = MIN_THRESHOLD / SPEECH_TO_NOISE_RATIO;
+  let sensitivity = 1;
+  let speaking = false;
+  let voicedSince: number | null = null;
+  let lastVoiceAt = 0;
+
+  const timer = setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    const level = rmsLevel(samples);
+    const now = Date.now();
+    const threshold = Math.max(MIN_THRESHOLD, noiseFloor * SPEECH_TO_NOISE_RATIO) * sensitivity;
+
+    if (level > threshold) {
+      lastVoiceAt = now;
+      if (voicedSince === null) voicedSince = now;
+      if (!speaking && now - voicedSince >= minSpeechMs) {
+        speaking = true;
+        onSpeechStart();
+      }
+      return;
+    }
+
+    voicedSince = null;
+    if (!speaking) {
+      noiseFloor = noiseFloor * 0.95 + level * 0.05;
+    } else if (now - lastVoiceAt >= silenceMs) {
+      speaking = false;
+      onSpeechEnd();
+    }
+  }, intervalMs);
+
+  return {
+    setSensitivity: (scale) => { sensitivity = scale; },
+    stop: () => {
+      clearInterval(timer);
+      source.disconnect();
+      ctx.close().catch(() => { });
+    },
+  };
+};
+
+export type HandsFreePhase = 'starting' | 'listening' | 'recording' | 'waiting' | 'speaking';
+export type HandsFreeEvent = 'speechStart' | 'speechEnd' | 'playbackEnded';
+export type HandsFreeAction = 'startTurn' | 'bargeIn' | 'endTurn' | 'listen';
+
+/**
+ * What hands-free mode does when the detector or playback reports an event:
+ * speech opens a turn (cutting the tutor off if it is talking), silence ends it,
+ * and the end of the tutor's reply reopens the mic. Null means ignore it.
+ */
+export const handsFreeAction = (phase: HandsFreePhase, event: HandsFreeEvent): HandsFreeAction | null => {
+  if (event === 'speechStart') {
+    if (phase === 'speaking') return 'bargeIn';
+    return phase === 'listening' ? 'startTurn' : null;
+  }
+  if (event === 'speechEnd') return phase === 'recording' ? 'endTurn' : null;
+  return phase === 'speaking' ? 'listen' : null;
+};
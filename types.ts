@@ -4,7 +4,10 @@ export enum Sender {
   TUTOR = 'TUTOR'
 }
 
-export type SupportedLanguage = 'French' | 'English' | 'Spanish' | 'German' | 'Russian' | 'Japanese' | 'Cantonese' | 'Chinese';
+// Language ids come from the registry served by /api/languages (server/languages.js)
+export type SupportedLanguage = string;
+
+export type LanguageScript = 'latin' | 'cyrillic' | 'hans' | 'hant' | 'japanese';
 
 export interface LanguageConfig {
   id: SupportedLanguage;
@@ -14,18 +17,67 @@ export interface LanguageConfig {
   voiceName: string;
   speechCode: string; // e.g., 'fr-FR', 'es-ES'
   greeting: string;
+  script: LanguageScript;
+  promptRules: string[];
+  readingAid?: ReadingAid; // Only for scripts beginners can't sound out
+}
+
+export interface ReadingAid {
+  label: string; // e.g. 'Furigana', 'Pinyin'
+  instruction: string;
 }
 
+export type MistakeCategory =
+  | 'gender_agreement'
+  | 'verb_tense'
+  | 'conjugation'
+  | 'word_order'
+  | 'particle'
+  | 'preposition'
+  | 'article'
+  | 'vocabulary'
+  | 'spelling'
+  | 'pronunciation'
+  | 'other';
+
 export interface CorrectionData {
   hasMistake: boolean;
   correctedText?: string | null;
   explanation?: string | null;
+  category?: MistakeCategory | null;
+  pronunciation?: PronunciationFeedback | null; // Voice turns only
+}
+
+export interface PronunciationIssue {
+  word: string;
+  expected: string; // The sound the word should have, e.g. 'Nasal /ɔ̃/ in "bon"'
+  heard?: string | null;
+}
+
+export interface PronunciationFeedback {
+  score: number | null; // 0-100
+  issues: PronunciationIssue[];
 }
 
 export interface TutorResponseData {
   targetText: string;
-  english: string;
-  chinese: string;
+  translations: Record<string, string>; // Keyed by helper language code, e.g. { en: "...", ko: "..." }
+  reading?: ReadingToken[]; // Consecutive tokens of targetText with their reading aid
+}
+
+export interface ReadingToken {
+  text: string;
+  reading: string; // Empty when the token needs none
+}
+
+// Dictionary entry for one tapped word, as used in its sentence (/api/gloss)
+export interface Gloss {
+  word: string;
+  lemma: string;
+  partOfSpeech: string | null;
+  definition: string; // In the learner's main helper language
+  grammar: string | null; // Gender, conjugation, measure word...
+  reading: string | null;
 }
 
 export interface Message {
@@ -34,6 +86,8 @@ export interface Message {
   text: string;
   timestamp: number;
   userAudioUrl?: string; 
+  transcript?: string; // What the tutor heard in a voice turn
+  pronunciation?: PronunciationFeedback; // Copied from the tutor's correction onto the voice turn it assesses
   correction?: CorrectionData;
   tutorResponse?: TutorResponseData;
   isLoading?: boolean;
@@ -45,11 +99,51 @@ export interface ChatState {
   error: string | null;
 }
 
-export enum Scenarios {
-  INTRO = "Introduction & Basics",
-  CAFE = "Ordering at a Café",
-  TRAVEL = "Asking for Directions",
-  HOBBIES = "Discussing Hobbies"
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+export type ScenarioIcon =
+  | 'sparkles' | 'coffee' | 'plane' | 'book' | 'briefcase' | 'stethoscope'
+  | 'shopping-bag' | 'home' | 'utensils' | 'train' | 'users' | 'message';
+
+export interface ScenarioDefinition {
+  id: string; // Built-ins keep the old enum values as ids so stored history still matches
+  title: string;
+  description: string;
+  setting: string;
+  tutorRole: string;
+  goals: string[];
+  targetVocabulary: string[];
+  level: CefrLevel;
+  icon: ScenarioIcon;
+  isPublic: boolean;
+  builtIn: boolean;
+  ownerId?: string;
+}
+
+export type ScenarioDraft = Omit<ScenarioDefinition, 'id' | 'builtIn' | 'ownerId'>;
+
+// One saved conversation: the chat_history rows sharing a session_id
+export interface ChatSession {
+  id: string;
+  title: string | null;
+  preview: string; // First thing the learner said
+  language: SupportedLanguage;
+  scenario: string;
+  messageCount: number;
+  startedAt: string;
+  updatedAt: string;
+  archived: boolean;
+}
+
+export type LearnerFactKind = 'personal' | 'learning';
+
+// Something the tutor remembers across conversations (learner_facts)
+export interface LearnerFact {
+  id: string;
+  kind: LearnerFactKind;
+  text: string;
+  language?: SupportedLanguage | null; // Where it came up
+  created_at: string;
 }
 
 export interface AudioResponse {
@@ -57,6 +151,123 @@ export interface AudioResponse {
   format: 'mp3' | 'pcm';
 }
 
+export type VocabSource = 'tutor' | 'correction' | 'gloss';
+
+export interface VocabItem {
+  id: string;
+  language: SupportedLanguage;
+  text: string;
+  translation?: string | null;
+  source: VocabSource;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  due_at: string;
+  created_at?: string;
+}
+
+// SM-2 recall quality: 1 = forgot, 3 = hard, 4 = good, 5 = easy
+export type ReviewQuality = 1 | 3 | 4 | 5;
+
+export interface MistakeEntry {
+  id: string;
+  language: SupportedLanguage;
+  scenario?: string | null;
+  original_text?: string | null;
+  corrected_text?: string | null;
+  explanation?: string | null;
+  category: MistakeCategory;
+  created_at: string;
+}
+
+export interface MistakeGroup {
+  category: MistakeCategory;
+  count: number;
+  sessionCount: number;
+  recurring: boolean;
+  lastSeenAt: string | null;
+  examples: Omit<MistakeEntry, 'language' | 'category'>[];
+}
+
+export interface StatsDay {
+  date: string; // YYYY-MM-DD in the learner's time zone
+  turns: number;
+  voiceMinutes: number;
+  mistakes: number;
+  mistakeRate: number | null; // Corrections per turn; null on days without turns
+}
+
+export interface LanguageStats {
+  language: SupportedLanguage;
+  totals: {
+    turns: number;
+    voiceMinutes: number;
+    mistakes: number;
+    mistakeRate: number | null;
+    activeDays: number;
+    scenarios: number;
+  };
+  daily: StatsDay[];
+  scenarios: { id: string; title: string; turns: number; lastPracticedAt: string | null }[];
+  errorTypes: { category: MistakeCategory; count: number }[];
+}
+
+export interface ProgressStats {
+  days: string[];
+  timeZone: string;
+  languages: LanguageStats[];
+}
+
+export type GoalType = 'turns' | 'minutes';
+
+export interface DailyGoal {
+  type: GoalType;
+  target: number;
+}
+
+// Goals, streaks and XP, kept per user on the server
+export interface LearnerProgress {
+  goal: DailyGoal;
+  timeZone: string;
+  today: {
+    date: string; // YYYY-MM-DD in the learner's time zone
+    turns: number;
+    voiceMinutes: number;
+    xp: number;
+    progress: number; // 0-1 towards the goal
+    met: boolean;
+  };
+  streak: { current: number; longest: number };
+  xp: number;
+}
+
+export type PlacementItemType = 'comprehension' | 'production';
+
+export interface PlacementItem {
+  id: string;
+  level: CefrLevel;
+  type: PlacementItemType;
+  prompt: string;
+  question: string;
+}
+
+export interface PlacementResult {
+  item: PlacementItem;
+  answer: string | null;
+  correct: boolean;
+  feedback: string;
+  expected: string | null;
+}
+
+export interface PlacementStep {
+  testId: string;
+  result: PlacementResult | null;
+  results: PlacementResult[];
+  nextItem: PlacementItem | null;
+  done: boolean;
+  recommendedLevel: CefrLevel | null;
+}
+
 export interface User {
   id: string;
   email?: string;